@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth, isAdmin } from '@/lib/auth';
+import { getGlobalBudget, updateGlobalBudget, validateBudgetLimits } from '@/lib/budget';
+
+/**
+ * GET /api/admin/budget
+ * Get the global default budget (admins only)
+ */
+export async function GET() {
+  try {
+    const session = await auth();
+
+    if (!session || !session.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    if (!(await isAdmin(session.user.id))) {
+      return NextResponse.json(
+        { error: 'Forbidden' },
+        { status: 403 }
+      );
+    }
+
+    const budget = await getGlobalBudget();
+
+    return NextResponse.json({ budget });
+  } catch (error) {
+    console.error('Error fetching global budget:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch global budget' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/admin/budget
+ * Update the global default budget (admins only)
+ * Body: { monthlyTokenLimit?: number | null, monthlyCostLimit?: number | null }
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session || !session.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    if (!(await isAdmin(session.user.id))) {
+      return NextResponse.json(
+        { error: 'Forbidden' },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const { limits, error } = validateBudgetLimits(body);
+
+    if (error !== undefined) {
+      return NextResponse.json(
+        { error },
+        { status: 400 }
+      );
+    }
+
+    const budget = await updateGlobalBudget(limits);
+
+    return NextResponse.json({ budget });
+  } catch (error) {
+    console.error('Error updating global budget:', error);
+    return NextResponse.json(
+      { error: 'Failed to update global budget' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth, isAdmin } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { getBudgetStatus, validateBudgetLimits } from '@/lib/budget';
+
+/**
+ * PATCH /api/admin/users/[id]
+ * Set a user's monthly budget limits (admins only)
+ * Body: { monthlyTokenLimit?: number | null, monthlyCostLimit?: number | null }
+ * A null limit falls back to the global default
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth();
+
+    if (!session || !session.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    if (!(await isAdmin(session.user.id))) {
+      return NextResponse.json(
+        { error: 'Forbidden' },
+        { status: 403 }
+      );
+    }
+
+    const userId = params.id;
+    const body = await request.json();
+    const { limits, error } = validateBudgetLimits(body);
+
+    if (error !== undefined) {
+      return NextResponse.json(
+        { error },
+        { status: 400 }
+      );
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+    });
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: limits,
+    });
+
+    const budget = await getBudgetStatus(userId);
+
+    return NextResponse.json({ budget });
+  } catch (error) {
+    console.error('Error updating user budget:', error);
+    return NextResponse.json(
+      { error: 'Failed to update user budget' },
+      { status: 500 }
+    );
+  }
+}
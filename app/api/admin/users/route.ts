@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server';
+import { auth, isAdmin } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+
+/**
+ * GET /api/admin/users
+ * List all users with their role and budget limits (admins only)
+ */
+export async function GET() {
+  try {
+    const session = await auth();
+
+    if (!session || !session.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    if (!(await isAdmin(session.user.id))) {
+      return NextResponse.json(
+        { error: 'Forbidden' },
+        { status: 403 }
+      );
+    }
+
+    const users = await prisma.user.findMany({
+      select: {
+        id: true,
+        email: true,
+        name: true,
+        role: true,
+        monthlyTokenLimit: true,
+        monthlyCostLimit: true,
+        promptTokens: true,
+        completionTokens: true,
+        totalCost: true,
+      },
+      orderBy: {
+        email: 'asc',
+      },
+    });
+
+    return NextResponse.json({ users });
+  } catch (error) {
+    console.error('Error fetching users:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch users' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { deleteAttachment, isImageType } from '@/lib/attachments';
+import { getStorage } from '@/lib/storage';
+
+/**
+ * GET /api/attachments/[id]
+ * Download an attachment. Images are shown inline, other files are downloaded
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth();
+
+    if (!session || !session.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Verify attachment belongs to user
+    const attachment = await prisma.attachment.findFirst({
+      where: {
+        id: params.id,
+        userId: session.user.id,
+      },
+    });
+
+    if (!attachment) {
+      return NextResponse.json(
+        { error: 'Attachment not found' },
+        { status: 404 }
+      );
+    }
+
+    const data = await getStorage().read(attachment.storageKey);
+    const disposition = isImageType(attachment.mimeType) ? 'inline' : 'attachment';
+
+    return new NextResponse(new Uint8Array(data), {
+      headers: {
+        'Content-Type': attachment.mimeType,
+        'Content-Length': String(data.length),
+        'Content-Disposition': `${disposition}; filename*=UTF-8''${encodeURIComponent(attachment.fileName)}`,
+        'X-Content-Type-Options': 'nosniff',
+        'Cache-Control': 'private, max-age=31536000, immutable',
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching attachment:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch attachment' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/attachments/[id]
+ * Remove an uploaded attachment that has not been sent with a message yet
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth();
+
+    if (!session || !session.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Verify attachment belongs to user
+    const attachment = await prisma.attachment.findFirst({
+      where: {
+        id: params.id,
+        userId: session.user.id,
+      },
+    });
+
+    if (!attachment) {
+      return NextResponse.json(
+        { error: 'Attachment not found' },
+        { status: 404 }
+      );
+    }
+
+    if (attachment.messageId) {
+      return NextResponse.json(
+        { error: 'Attachments of sent messages cannot be deleted' },
+        { status: 409 }
+      );
+    }
+
+    await deleteAttachment(attachment);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting attachment:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete attachment' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { saveAttachment, toAttachmentInfo, validateAttachmentFile } from '@/lib/attachments';
+
+/**
+ * POST /api/attachments
+ * Upload a file (multipart form field "file") to attach to the next message
+ * The attachment is linked to a message once that message is sent to /api/completions
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session || !session.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const formData = await request.formData().catch(() => null);
+    const file = formData?.get('file');
+
+    if (!file || !(file instanceof File)) {
+      return NextResponse.json(
+        { error: 'A file is required (multipart form field "file")' },
+        { status: 400 }
+      );
+    }
+
+    const { mimeType, error } = validateAttachmentFile(file);
+
+    if (error !== undefined) {
+      return NextResponse.json(
+        { error },
+        { status: 400 }
+      );
+    }
+
+    const attachment = await saveAttachment(session.user.id, file, mimeType);
+
+    return NextResponse.json({ attachment: toAttachmentInfo(attachment) }, { status: 201 });
+  } catch (error) {
+    console.error('Error uploading attachment:', error);
+    return NextResponse.json(
+      { error: 'Failed to upload attachment' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { getBudgetStatus } from '@/lib/budget';
+
+/**
+ * GET /api/budget
+ * Get the current month's usage against the authenticated user's budget
+ */
+export async function GET() {
+  try {
+    const session = await auth();
+
+    if (!session || !session.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const budget = await getBudgetStatus(session.user.id);
+
+    return NextResponse.json({ budget });
+  } catch (error) {
+    console.error('Error fetching budget:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch budget' },
+      { status: 500 }
+    );
+  }
+}
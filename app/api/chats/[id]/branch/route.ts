@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { switchBranch } from '@/lib/messageTree';
+
+/**
+ * PUT /api/chats/[id]/branch
+ * Switch the active branch to the one through messageId, following it to its most recent message
+ * Returns the messages on the new active branch
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth();
+
+    if (!session || !session.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { messageId } = body;
+
+    if (!messageId || typeof messageId !== 'string') {
+      return NextResponse.json(
+        { error: 'messageId is required and must be a string' },
+        { status: 400 }
+      );
+    }
+
+    // Verify chat belongs to user
+    const chat = await prisma.chat.findFirst({
+      where: {
+        id: params.id,
+        userId: session.user.id,
+        deletedAt: null,
+      },
+    });
+
+    if (!chat) {
+      return NextResponse.json(
+        { error: 'Chat not found' },
+        { status: 404 }
+      );
+    }
+
+    const messages = await switchBranch(chat, messageId);
+
+    if (!messages) {
+      return NextResponse.json(
+        { error: 'Message not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ messages });
+  } catch (error) {
+    console.error('Error switching branch:', error);
+    return NextResponse.json(
+      { error: 'Failed to switch branch' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { switchBranch } from '@/lib/messageTree';
+
+/**
+ * PUT /api/chats/[id]/compare
+ * Pick the winner of a model comparison: marks messageId as the winning reply, makes its
+ * branch the active branch and switches the chat to the winning model
+ * Returns the messages on the new active branch and the chat's model
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth();
+
+    if (!session || !session.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { messageId } = body;
+
+    if (!messageId || typeof messageId !== 'string') {
+      return NextResponse.json(
+        { error: 'messageId is required and must be a string' },
+        { status: 400 }
+      );
+    }
+
+    // Verify chat belongs to user
+    const chat = await prisma.chat.findFirst({
+      where: {
+        id: params.id,
+        userId: session.user.id,
+        deletedAt: null,
+      },
+    });
+
+    if (!chat) {
+      return NextResponse.json(
+        { error: 'Chat not found' },
+        { status: 404 }
+      );
+    }
+
+    const winner = await prisma.message.findFirst({
+      where: { id: messageId, chatId: chat.id, role: 'assistant' },
+    });
+
+    if (!winner || !winner.comparisonId) {
+      return NextResponse.json(
+        { error: 'Comparison reply not found' },
+        { status: 404 }
+      );
+    }
+
+    const [, , updatedChat] = await prisma.$transaction([
+      prisma.message.updateMany({
+        where: { chatId: chat.id, comparisonId: winner.comparisonId },
+        data: { comparisonWinner: false },
+      }),
+      prisma.message.update({
+        where: { id: winner.id },
+        data: { comparisonWinner: true },
+      }),
+      prisma.chat.update({
+        where: { id: chat.id },
+        data: { ...(winner.model && { model: winner.model }) },
+      }),
+    ]);
+
+    const messages = await switchBranch(updatedChat, winner.id);
+
+    return NextResponse.json({ messages, model: updatedChat.model });
+  } catch (error) {
+    console.error('Error picking comparison winner:', error);
+    return NextResponse.json(
+      { error: 'Failed to pick comparison winner' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import {
+  EXPORT_FORMATS,
+  exportChat,
+  getExportContentType,
+  getExportFileName,
+  isExportFormat,
+} from '@/lib/chatExport';
+
+/**
+ * GET /api/chats/[id]/export?format=md|json|html
+ * Download the messages on the chat's active branch with roles, timestamps, model and token usage
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth();
+
+    if (!session || !session.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const format = request.nextUrl.searchParams.get('format') || 'md';
+
+    if (!isExportFormat(format)) {
+      return NextResponse.json(
+        { error: `Format must be one of: ${EXPORT_FORMATS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    // Verify chat belongs to user
+    const chat = await prisma.chat.findFirst({
+      where: {
+        id: params.id,
+        userId: session.user.id,
+        deletedAt: null,
+      },
+    });
+
+    if (!chat) {
+      return NextResponse.json(
+        { error: 'Chat not found' },
+        { status: 404 }
+      );
+    }
+
+    const content = await exportChat(chat, format);
+
+    return new NextResponse(content, {
+      headers: {
+        'Content-Type': getExportContentType(format),
+        'Content-Disposition': `attachment; filename="${getExportFileName(chat, format)}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting chat:', error);
+    return NextResponse.json(
+      { error: 'Failed to export chat' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,10 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
+import { ensureMessageTree, getActivePath } from '@/lib/messageTree';
 
 /**
  * GET /api/chats/[id]/messages
- * Get all messages for a specific chat
+ * Get the messages on the active branch of a specific chat
  */
 export async function GET(
   request: NextRequest,
@@ -27,6 +28,7 @@ export async function GET(
       where: {
         id: chatId,
         userId: session.user.id,
+        deletedAt: null,
       },
     });
 
@@ -37,14 +39,7 @@ export async function GET(
       );
     }
 
-    const messages = await prisma.message.findMany({
-      where: {
-        chatId,
-      },
-      orderBy: {
-        timestamp: 'asc',
-      },
-    });
+    const messages = await getActivePath(chat);
 
     return NextResponse.json({ messages });
   } catch (error) {
@@ -59,6 +54,7 @@ export async function GET(
 /**
  * POST /api/chats/[id]/messages
  * Add a message to a chat
+ * The message replies to parentId when given, otherwise to the end of the active branch
  */
 export async function POST(
   request: NextRequest,
@@ -76,7 +72,7 @@ export async function POST(
 
     const chatId = params.id;
     const body = await request.json();
-    const { role, content } = body;
+    const { role, content, parentId } = body;
 
     if (!role || !['user', 'assistant', 'system'].includes(role)) {
       return NextResponse.json(
@@ -97,6 +93,7 @@ export async function POST(
       where: {
         id: chatId,
         userId: session.user.id,
+        deletedAt: null,
       },
     });
 
@@ -107,24 +104,50 @@ export async function POST(
       );
     }
 
+    if (parentId !== undefined && parentId !== null && typeof parentId !== 'string') {
+      return NextResponse.json(
+        { error: 'parentId must be a string or null' },
+        { status: 400 }
+      );
+    }
+
+    if (parentId) {
+      const parent = await prisma.message.findFirst({
+        where: { id: parentId, chatId },
+      });
+
+      if (!parent) {
+        return NextResponse.json(
+          { error: 'Parent message not found' },
+          { status: 404 }
+        );
+      }
+    }
+
+    const activeLeafId = await ensureMessageTree(chat);
+
     // Create message
     const message = await prisma.message.create({
       data: {
         chatId,
+        parentId: parentId !== undefined ? parentId : activeLeafId,
         role,
         content,
       },
     });
 
-    // Update chat title if it's the first user message and chat has no title
-    if (role === 'user' && !chat.title) {
-      // Use first 50 characters of message as title
-      const title = content.length > 50 ? content.substring(0, 50) + '...' : content;
-      await prisma.chat.update({
-        where: { id: chatId },
-        data: { title },
-      });
-    }
+    // Move the active branch to the new message, and set the chat title
+    // if it's the first user message and chat has no title
+    await prisma.chat.update({
+      where: { id: chatId },
+      data: {
+        activeLeafId: message.id,
+        // Use first 50 characters of message as title
+        ...(role === 'user' && !chat.title && {
+          title: content.length > 50 ? content.substring(0, 50) + '...' : content,
+        }),
+      },
+    });
 
     return NextResponse.json({ message }, { status: 201 });
   } catch (error) {
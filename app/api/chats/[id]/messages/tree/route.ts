@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { getMessageTree } from '@/lib/messageTree';
+
+/**
+ * GET /api/chats/[id]/messages/tree
+ * Get all messages of a chat as a tree, including inactive branches
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth();
+
+    if (!session || !session.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Verify chat belongs to user
+    const chat = await prisma.chat.findFirst({
+      where: {
+        id: params.id,
+        userId: session.user.id,
+        deletedAt: null,
+      },
+    });
+
+    if (!chat) {
+      return NextResponse.json(
+        { error: 'Chat not found' },
+        { status: 404 }
+      );
+    }
+
+    const { tree, activeLeafId } = await getMessageTree(chat);
+
+    return NextResponse.json({ tree, activeLeafId });
+  } catch (error) {
+    console.error('Error fetching message tree:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch message tree' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,10 +1,65 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
+import { Prisma } from '@prisma/client';
+import { validateChatSettings } from '@/lib/chatSettings';
+import { validateResponseSchema } from '@/lib/structuredOutput';
+import { validateFolderId } from '@/lib/chatFolders';
+import { validateTags } from '@/lib/tags';
+
+/**
+ * GET /api/chats/[id]
+ * Get a single chat, including its settings and the ids of its knowledge base collections,
+ * for the authenticated user
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth();
+
+    if (!session || !session.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const chat = await prisma.chat.findFirst({
+      where: {
+        id: params.id,
+        userId: session.user.id,
+        deletedAt: null,
+      },
+      include: { collections: { select: { id: true } } },
+    });
+
+    if (!chat) {
+      return NextResponse.json(
+        { error: 'Chat not found' },
+        { status: 404 }
+      );
+    }
+
+    const { collections, ...chatFields } = chat;
+
+    return NextResponse.json({
+      chat: { ...chatFields, collectionIds: collections.map((collection) => collection.id) },
+    });
+  } catch (error) {
+    console.error('Error fetching chat:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch chat' },
+      { status: 500 }
+    );
+  }
+}
 
 /**
  * DELETE /api/chats/[id]
- * Delete a single chat for the authenticated user
+ * Move a single chat of the authenticated user to the trash, from where it can be restored
+ * with POST /api/trash/restore until it is purged
  */
 export async function DELETE(
   request: NextRequest,
@@ -27,6 +82,7 @@ export async function DELETE(
       where: {
         id: chatId,
         userId: session.user.id,
+        deletedAt: null,
       },
     });
 
@@ -37,9 +93,10 @@ export async function DELETE(
       );
     }
 
-    // Delete chat (CASCADE will automatically delete messages)
-    await prisma.chat.delete({
+    // The chat keeps its messages in the trash
+    await prisma.chat.update({
       where: { id: chatId },
+      data: { deletedAt: new Date() },
     });
 
     return NextResponse.json({ success: true });
@@ -54,7 +111,12 @@ export async function DELETE(
 
 /**
  * PATCH /api/chats/[id]
- * Update chat title for the authenticated user
+ * Update chat title, model and/or settings (system prompt, temperature, topP,
+ * maxTokens, stopSequences, seed) for the authenticated user.
+ * collectionIds replaces the knowledge base collections attached to the chat, and
+ * responseSchema sets (or with null removes) the JSON Schema replies must match
+ * folderId moves the chat into a folder (or with null out of it), tags replaces its tags,
+ * pinned pins it to the top of the chat list and archived archives or unarchives it
  */
 export async function PATCH(
   request: NextRequest,
@@ -72,20 +134,88 @@ export async function PATCH(
 
     const chatId = params.id;
     const body = await request.json();
-    const { title } = body;
+    const { title, model, collectionIds, pinned, archived } = body;
 
-    if (title !== null && (typeof title !== 'string' || title.trim().length === 0)) {
+    if (title !== undefined && title !== null && (typeof title !== 'string' || title.trim().length === 0)) {
       return NextResponse.json(
         { error: 'Title must be a non-empty string or null' },
         { status: 400 }
       );
     }
 
+    if (model !== undefined && (typeof model !== 'string' || model.trim().length === 0)) {
+      return NextResponse.json(
+        { error: 'Model must be a non-empty string' },
+        { status: 400 }
+      );
+    }
+
+    if (
+      collectionIds !== undefined &&
+      (!Array.isArray(collectionIds) || !collectionIds.every((id: unknown) => typeof id === 'string'))
+    ) {
+      return NextResponse.json(
+        { error: 'collectionIds must be an array of collection ids' },
+        { status: 400 }
+      );
+    }
+
+    if (pinned !== undefined && typeof pinned !== 'boolean') {
+      return NextResponse.json(
+        { error: 'pinned must be a boolean' },
+        { status: 400 }
+      );
+    }
+
+    if (archived !== undefined && typeof archived !== 'boolean') {
+      return NextResponse.json(
+        { error: 'archived must be a boolean' },
+        { status: 400 }
+      );
+    }
+
+    const folderResult = body.folderId !== undefined ? validateFolderId(body.folderId) : null;
+
+    if (folderResult?.error !== undefined) {
+      return NextResponse.json(
+        { error: folderResult.error },
+        { status: 400 }
+      );
+    }
+
+    const tagsResult = body.tags !== undefined ? validateTags(body.tags) : null;
+
+    if (tagsResult?.error !== undefined) {
+      return NextResponse.json(
+        { error: tagsResult.error },
+        { status: 400 }
+      );
+    }
+
+    const schemaResult = body.responseSchema !== undefined ? validateResponseSchema(body.responseSchema) : null;
+
+    if (schemaResult?.error !== undefined) {
+      return NextResponse.json(
+        { error: schemaResult.error },
+        { status: 400 }
+      );
+    }
+
+    const { settings, error: settingsError } = validateChatSettings(body);
+
+    if (settingsError !== undefined) {
+      return NextResponse.json(
+        { error: settingsError },
+        { status: 400 }
+      );
+    }
+
     // Verify chat belongs to user
     const chat = await prisma.chat.findFirst({
       where: {
         id: chatId,
         userId: session.user.id,
+        deletedAt: null,
       },
     });
 
@@ -96,10 +226,57 @@ export async function PATCH(
       );
     }
 
-    // Update chat title
+    if (collectionIds !== undefined) {
+      const ownedCount = await prisma.collection.count({
+        where: {
+          id: { in: collectionIds },
+          userId: session.user.id,
+        },
+      });
+
+      if (ownedCount !== new Set(collectionIds).size) {
+        return NextResponse.json(
+          { error: 'Collection not found' },
+          { status: 404 }
+        );
+      }
+    }
+
+    if (folderResult?.value) {
+      // Verify folder belongs to user
+      const folder = await prisma.chatFolder.findFirst({
+        where: {
+          id: folderResult.value,
+          userId: session.user.id,
+        },
+      });
+
+      if (!folder) {
+        return NextResponse.json(
+          { error: 'Folder not found' },
+          { status: 404 }
+        );
+      }
+    }
+
+    // Update chat title, model, settings, response schema, collections and organization
     const updatedChat = await prisma.chat.update({
       where: { id: chatId },
-      data: { title: title?.trim() || null },
+      data: {
+        ...(title !== undefined && { title: title?.trim() || null }),
+        ...(model !== undefined && { model: model.trim() }),
+        ...(pinned !== undefined && { pinned }),
+        ...(archived !== undefined && { archivedAt: archived ? chat.archivedAt ?? new Date() : null }),
+        ...(folderResult && { folderId: folderResult.value }),
+        ...(tagsResult && { tags: tagsResult.value }),
+        ...settings,
+        ...(schemaResult && {
+          responseSchema: (schemaResult.value as Prisma.InputJsonObject | null) ?? Prisma.DbNull,
+        }),
+        ...(collectionIds !== undefined && {
+          collections: { set: collectionIds.map((id: string) => ({ id })) },
+        }),
+      },
     });
 
     return NextResponse.json({ chat: updatedChat });
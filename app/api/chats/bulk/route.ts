@@ -0,0 +1,183 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { CHAT_BULK_ACTIONS, MAX_BULK_CHATS, validateFolderId } from '@/lib/chatFolders';
+import { MAX_TAGS, validateTags } from '@/lib/tags';
+import { ChatBulkAction } from '@/types/chat';
+
+/**
+ * POST /api/chats/bulk
+ * Apply an action to several chats of the authenticated user at once
+ * Body: { chatIds, action, folderId?, tags? } where action is one of:
+ * - move: move the chats into folderId, or with null out of their folder
+ * - pin / unpin: pin the chats to the top of the chat list or unpin them
+ * - archive / unarchive: move the chats out of the chat list into the archive or back
+ * - addTags / removeTags: add or remove tags, keeping the other tags of each chat
+ * - delete: move the chats to the trash
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session || !session.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const userId = session.user.id;
+    const body = await request.json();
+    const { chatIds, action } = body;
+
+    if (
+      !Array.isArray(chatIds) ||
+      chatIds.length === 0 ||
+      !chatIds.every((id: unknown) => typeof id === 'string')
+    ) {
+      return NextResponse.json(
+        { error: 'chatIds must be a non-empty array of chat ids' },
+        { status: 400 }
+      );
+    }
+
+    if (chatIds.length > MAX_BULK_CHATS) {
+      return NextResponse.json(
+        { error: `At most ${MAX_BULK_CHATS} chats can be changed at once` },
+        { status: 400 }
+      );
+    }
+
+    if (!CHAT_BULK_ACTIONS.includes(action as ChatBulkAction)) {
+      return NextResponse.json(
+        { error: `action must be one of ${CHAT_BULK_ACTIONS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const folderResult = action === 'move' ? validateFolderId(body.folderId) : null;
+
+    if (folderResult?.error !== undefined) {
+      return NextResponse.json(
+        { error: folderResult.error },
+        { status: 400 }
+      );
+    }
+
+    const tagsResult = action === 'addTags' || action === 'removeTags' ? validateTags(body.tags) : null;
+
+    if (tagsResult?.error !== undefined) {
+      return NextResponse.json(
+        { error: tagsResult.error },
+        { status: 400 }
+      );
+    }
+
+    if (tagsResult?.value.length === 0) {
+      return NextResponse.json(
+        { error: 'tags must contain at least one tag' },
+        { status: 400 }
+      );
+    }
+
+    // Verify chats belong to user
+    const ids = [...new Set(chatIds as string[])];
+    const chats = await prisma.chat.findMany({
+      where: {
+        id: { in: ids },
+        userId,
+        deletedAt: null,
+      },
+      select: { id: true, tags: true },
+    });
+
+    if (chats.length !== ids.length) {
+      return NextResponse.json(
+        { error: 'Chat not found' },
+        { status: 404 }
+      );
+    }
+
+    if (folderResult?.value) {
+      // Verify folder belongs to user
+      const folder = await prisma.chatFolder.findFirst({
+        where: {
+          id: folderResult.value,
+          userId,
+        },
+      });
+
+      if (!folder) {
+        return NextResponse.json(
+          { error: 'Folder not found' },
+          { status: 404 }
+        );
+      }
+    }
+
+    if (action === 'delete') {
+      // The chats keep their messages in the trash
+      const result = await prisma.chat.updateMany({
+        where: { id: { in: ids } },
+        data: { deletedAt: new Date() },
+      });
+
+      return NextResponse.json({ success: true, deletedCount: result.count });
+    }
+
+    if (action === 'archive' || action === 'unarchive') {
+      // Chats that are archived already keep the moment they were archived
+      const result = await prisma.chat.updateMany({
+        where: {
+          id: { in: ids },
+          archivedAt: action === 'archive' ? null : { not: null },
+        },
+        data: { archivedAt: action === 'archive' ? new Date() : null },
+      });
+
+      return NextResponse.json({ success: true, updatedCount: result.count });
+    }
+
+    if (tagsResult) {
+      const tags = tagsResult.value;
+      const updates = chats.map((chat) => ({
+        id: chat.id,
+        tags:
+          action === 'addTags'
+            ? [...new Set([...chat.tags, ...tags])]
+            : chat.tags.filter((tag) => !tags.includes(tag)),
+      }));
+
+      if (updates.some((update) => update.tags.length > MAX_TAGS)) {
+        return NextResponse.json(
+          { error: `A chat can have at most ${MAX_TAGS} tags` },
+          { status: 400 }
+        );
+      }
+
+      await prisma.$transaction(
+        updates.map((update) =>
+          prisma.chat.update({
+            where: { id: update.id },
+            data: { tags: update.tags },
+          })
+        )
+      );
+
+      return NextResponse.json({ success: true, updatedCount: updates.length });
+    }
+
+    const result = await prisma.chat.updateMany({
+      where: { id: { in: ids } },
+      data: folderResult ? { folderId: folderResult.value } : { pinned: action === 'pin' },
+    });
+
+    return NextResponse.json({ success: true, updatedCount: result.count });
+  } catch (error) {
+    console.error('Error updating chats:', error);
+    return NextResponse.json(
+      { error: 'Failed to update chats' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { EXPORT_FORMATS, exportChatsArchive, isExportFormat } from '@/lib/chatExport';
+
+/**
+ * GET /api/chats/export?format=md|json|html
+ * Download all chats of the authenticated user as a zip archive with one file per chat
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session || !session.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const format = request.nextUrl.searchParams.get('format') || 'md';
+
+    if (!isExportFormat(format)) {
+      return NextResponse.json(
+        { error: `Format must be one of: ${EXPORT_FORMATS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const chats = await prisma.chat.findMany({
+      where: {
+        userId: session.user.id,
+        deletedAt: null,
+      },
+      orderBy: {
+        updatedAt: 'desc',
+      },
+    });
+
+    const archive = await exportChatsArchive(chats, format);
+    const date = new Date().toISOString().substring(0, 10);
+
+    return new NextResponse(archive, {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="chats-${date}.zip"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting chats:', error);
+    return NextResponse.json(
+      { error: 'Failed to export chats' },
+      { status: 500 }
+    );
+  }
+}
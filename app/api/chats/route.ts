@@ -4,7 +4,10 @@ import { prisma } from '@/lib/prisma';
 
 /**
  * GET /api/chats
- * Get all chats for the authenticated user
+ * Get all chats for the authenticated user, pinned chats first
+ * Optionally filtered with ?tag= on a tag and ?folderId= on a folder (none for chats outside folders)
+ * Archived chats are left out, unless ?archived=1 is given to get only the archived chats
+ * Chats in the trash are never included, see GET /api/trash
  */
 export async function GET(request: NextRequest) {
   try {
@@ -17,13 +20,21 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    const { searchParams } = new URL(request.url);
+    const tag = searchParams.get('tag')?.trim().toLowerCase();
+    const folderId = searchParams.get('folderId');
+    const archivedParam = searchParams.get('archived');
+    const archived = archivedParam === '1' || archivedParam === 'true';
+
     const chats = await prisma.chat.findMany({
       where: {
         userId: session.user.id,
+        deletedAt: null,
+        archivedAt: archived ? { not: null } : null,
+        ...(tag && { tags: { has: tag } }),
+        ...(folderId && { folderId: folderId === 'none' ? null : folderId }),
       },
-      orderBy: {
-        updatedAt: 'desc',
-      },
+      orderBy: [{ pinned: 'desc' }, { updatedAt: 'desc' }],
       include: {
         _count: {
           select: { messages: true },
@@ -79,7 +90,7 @@ export async function POST(request: NextRequest) {
 
 /**
  * DELETE /api/chats
- * Delete all chats for the authenticated user
+ * Move all chats of the authenticated user to the trash, archived chats included
  */
 export async function DELETE(request: NextRequest) {
   try {
@@ -92,11 +103,13 @@ export async function DELETE(request: NextRequest) {
       );
     }
 
-    // Delete all chats for the user (CASCADE will automatically delete messages)
-    const result = await prisma.chat.deleteMany({
+    // Chats are kept in the trash with their messages until they are purged, see lib/trash.ts
+    const result = await prisma.chat.updateMany({
       where: {
         userId: session.user.id,
+        deletedAt: null,
       },
+      data: { deletedAt: new Date() },
     });
 
     return NextResponse.json({ 
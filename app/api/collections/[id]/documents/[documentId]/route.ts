@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { deleteDocuments } from '@/lib/knowledgeBase';
+
+/**
+ * DELETE /api/collections/[id]/documents/[documentId]
+ * Remove a document and its chunks from a knowledge base collection
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; documentId: string } }
+) {
+  try {
+    const session = await auth();
+
+    if (!session || !session.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Verify document belongs to a collection of the user
+    const document = await prisma.document.findFirst({
+      where: {
+        id: params.documentId,
+        collectionId: params.id,
+        collection: { userId: session.user.id },
+      },
+    });
+
+    if (!document) {
+      return NextResponse.json(
+        { error: 'Document not found' },
+        { status: 404 }
+      );
+    }
+
+    await deleteDocuments([document.id]);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting document:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete document' },
+      { status: 500 }
+    );
+  }
+}
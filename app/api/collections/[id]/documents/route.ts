@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { addDocument, validateDocumentFile } from '@/lib/knowledgeBase';
+
+/**
+ * POST /api/collections/[id]/documents
+ * Upload a text document (multipart form field "file") to a knowledge base collection
+ * The document is split into chunks and embedded before the response is sent
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth();
+
+    if (!session || !session.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Verify collection belongs to user
+    const collection = await prisma.collection.findFirst({
+      where: {
+        id: params.id,
+        userId: session.user.id,
+      },
+    });
+
+    if (!collection) {
+      return NextResponse.json(
+        { error: 'Collection not found' },
+        { status: 404 }
+      );
+    }
+
+    const formData = await request.formData().catch(() => null);
+    const file = formData?.get('file');
+
+    if (!file || !(file instanceof File)) {
+      return NextResponse.json(
+        { error: 'A file is required (multipart form field "file")' },
+        { status: 400 }
+      );
+    }
+
+    const { mimeType, error } = validateDocumentFile(file);
+
+    if (error !== undefined) {
+      return NextResponse.json(
+        { error },
+        { status: 400 }
+      );
+    }
+
+    const result = await addDocument(collection.id, file, mimeType);
+
+    if (result.error !== undefined) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ document: result.document }, { status: 201 });
+  } catch (error) {
+    console.error('Error adding document:', error);
+    return NextResponse.json(
+      { error: 'Failed to add document' },
+      { status: 500 }
+    );
+  }
+}
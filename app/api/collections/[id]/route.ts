@@ -0,0 +1,185 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import {
+  deleteDocuments,
+  toCollectionDocument,
+  toCollectionSummary,
+  validateCollectionInput,
+} from '@/lib/knowledgeBase';
+
+/**
+ * GET /api/collections/[id]
+ * Get a knowledge base collection with its documents
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth();
+
+    if (!session || !session.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const collection = await prisma.collection.findFirst({
+      where: {
+        id: params.id,
+        userId: session.user.id,
+      },
+      include: {
+        _count: { select: { documents: true } },
+        documents: {
+          include: { _count: { select: { chunks: true } } },
+          orderBy: { createdAt: 'desc' },
+        },
+      },
+    });
+
+    if (!collection) {
+      return NextResponse.json(
+        { error: 'Collection not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      collection: toCollectionSummary(collection),
+      documents: collection.documents.map(toCollectionDocument),
+    });
+  } catch (error) {
+    console.error('Error fetching collection:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch collection' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/collections/[id]
+ * Rename a knowledge base collection or change its description
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth();
+
+    if (!session || !session.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { data, error } = validateCollectionInput(body, true);
+
+    if (error !== undefined) {
+      return NextResponse.json(
+        { error },
+        { status: 400 }
+      );
+    }
+
+    // Verify collection belongs to user
+    const collection = await prisma.collection.findFirst({
+      where: {
+        id: params.id,
+        userId: session.user.id,
+      },
+    });
+
+    if (!collection) {
+      return NextResponse.json(
+        { error: 'Collection not found' },
+        { status: 404 }
+      );
+    }
+
+    if (data.name && data.name !== collection.name) {
+      const existing = await prisma.collection.findFirst({
+        where: {
+          userId: session.user.id,
+          name: data.name,
+        },
+      });
+
+      if (existing) {
+        return NextResponse.json(
+          { error: 'A collection with this name already exists' },
+          { status: 409 }
+        );
+      }
+    }
+
+    const updatedCollection = await prisma.collection.update({
+      where: { id: collection.id },
+      data,
+      include: { _count: { select: { documents: true } } },
+    });
+
+    return NextResponse.json({ collection: toCollectionSummary(updatedCollection) });
+  } catch (error) {
+    console.error('Error updating collection:', error);
+    return NextResponse.json(
+      { error: 'Failed to update collection' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/collections/[id]
+ * Delete a knowledge base collection with all its documents
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth();
+
+    if (!session || !session.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Verify collection belongs to user
+    const collection = await prisma.collection.findFirst({
+      where: {
+        id: params.id,
+        userId: session.user.id,
+      },
+      include: { documents: { select: { id: true } } },
+    });
+
+    if (!collection) {
+      return NextResponse.json(
+        { error: 'Collection not found' },
+        { status: 404 }
+      );
+    }
+
+    await deleteDocuments(collection.documents.map((document) => document.id));
+    await prisma.collection.delete({
+      where: { id: collection.id },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting collection:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete collection' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { toCollectionSummary, validateCollectionInput } from '@/lib/knowledgeBase';
+
+/**
+ * GET /api/collections
+ * Get all knowledge base collections for the authenticated user
+ */
+export async function GET() {
+  try {
+    const session = await auth();
+
+    if (!session || !session.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const collections = await prisma.collection.findMany({
+      where: {
+        userId: session.user.id,
+      },
+      include: { _count: { select: { documents: true } } },
+      orderBy: {
+        name: 'asc',
+      },
+    });
+
+    return NextResponse.json({ collections: collections.map(toCollectionSummary) });
+  } catch (error) {
+    console.error('Error fetching collections:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch collections' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/collections
+ * Create a new knowledge base collection for the authenticated user
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session || !session.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { data, error } = validateCollectionInput(body);
+
+    if (error !== undefined) {
+      return NextResponse.json(
+        { error },
+        { status: 400 }
+      );
+    }
+
+    const existing = await prisma.collection.findFirst({
+      where: {
+        userId: session.user.id,
+        name: data.name,
+      },
+    });
+
+    if (existing) {
+      return NextResponse.json(
+        { error: 'A collection with this name already exists' },
+        { status: 409 }
+      );
+    }
+
+    const collection = await prisma.collection.create({
+      data: {
+        userId: session.user.id,
+        name: data.name!,
+        description: data.description ?? null,
+      },
+      include: { _count: { select: { documents: true } } },
+    });
+
+    return NextResponse.json({ collection: toCollectionSummary(collection) }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating collection:', error);
+    return NextResponse.json(
+      { error: 'Failed to create collection' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,15 +1,61 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { randomUUID } from 'crypto';
 import { auth } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
 
+import { Attachment, Chat, Prisma, Prompt } from '@prisma/client';
+
 import { openRouter, getOpenRouterHeaders, ChatMessage } from '@/lib/openrouter';
+import { encodeSSEEvent } from '@/lib/sse';
+import { toGenerationParams } from '@/lib/chatSettings';
+import { addUsage, calculateCost, recordUsage } from '@/lib/usage';
+import { checkBudget, estimatePromptTokens } from '@/lib/budget';
+import { ensureMessageTree } from '@/lib/messageTree';
+import { supportsInputModality, supportsParameter } from '@/lib/modelCatalog';
+import {
+  MAX_ATTACHMENTS_PER_MESSAGE,
+  getUserAttachments,
+  isImageType,
+  linkAttachments,
+  toContentParts,
+} from '@/lib/attachments';
+import { buildSourcesPrompt, getChatCollectionIds, retrieveSources } from '@/lib/knowledgeBase';
+import {
+  JsonSchema,
+  MAX_REPAIR_ATTEMPTS,
+  buildRepairPrompt,
+  buildSchemaPrompt,
+  checkStructuredReply,
+  isJsonObject,
+  toResponseFormat,
+} from '@/lib/structuredOutput';
+import { MAX_TOOL_STEPS, getToolDefinitions, runToolCall, toOpenRouterToolCalls } from '@/lib/tools';
+import { accessiblePromptsWhere, ensurePromptVersion } from '@/lib/promptLibrary';
+import { Citation, Message, TokenUsage, ToolCall } from '@/types/chat';
+
+// A message as sent in the request body
+type RequestMessage = Pick<Message, 'role' | 'content' | 'toolCalls' | 'toolCallId'> & { attachmentIds?: string[] };
 
 /**
  * POST /api/completions
  * Handles chat message requests and forwards them to OpenRouter API
- * Also saves messages to database if chatId is provided
+ * Streams the response back as Server-Sent Events (see CompletionStreamEvent)
+ * Also saves messages to database if chatId is provided. The user message replies to
+ * parentId when given (e.g. when an earlier message was edited), otherwise to the end
+ * of the chat's active branch. With regenerate, no user message is saved and the new
+ * assistant message becomes an alternate reply to parentId. User messages can list
+ * attachmentIds (see POST /api/attachments), which are sent as multimodal content parts.
+ * When the chat has knowledge base collections, the most relevant chunks are given to the
+ * model as context and sent to the client in a sources event.
+ * Models that support tools can call the tools in lib/tools.ts: each step that requests tool
+ * calls is saved as an assistant message, followed by a tool message per result, and the
+ * results are sent back to the model until it answers (at most MAX_TOOL_STEPS requests).
+ * When the chat, or the prompt given as promptId, has a response schema, the reply is asked
+ * for as JSON matching it and validated; a reply that doesn't match is sent back to the model
+ * with the errors to be repaired (at most MAX_REPAIR_ATTEMPTS times, see the retry event).
+ * Replies generated side by side by several models (compare mode) pass the same comparisonId
  */
-export async function POST(request: NextRequest): Promise<NextResponse> {
+export async function POST(request: NextRequest): Promise<Response> {
   try {
     // Check if API key is set
     if (!process.env.OPENROUTER_API_KEY) {
@@ -21,8 +67,17 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
     }
 
     const session = await auth();
+
+    if (!session || !session.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
     const body = await request.json();
-    const { messages, model, chatId } = body;
+    const { messages, model, chatId, parentId, regenerate, promptId, comparisonId } = body;
+    const modelId: string = model || 'openai/gpt-4o';
 
     // Validate request body structure
     if (!messages || !Array.isArray(messages)) {
@@ -34,9 +89,9 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
 
     // Validate message structure
     for (const msg of messages) {
-      if (!msg.role || !['user', 'assistant', 'system'].includes(msg.role)) {
+      if (!msg.role || !['user', 'assistant', 'system', 'tool'].includes(msg.role)) {
         return NextResponse.json(
-          { error: 'Invalid message role. Must be "user", "assistant", or "system"' },
+          { error: 'Invalid message role. Must be "user", "assistant", "system", or "tool"' },
           { status: 400 }
         );
       }
@@ -46,112 +101,566 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
           { status: 400 }
         );
       }
+      if (msg.role === 'tool' && typeof msg.toolCallId !== 'string') {
+        return NextResponse.json(
+          { error: 'Tool messages must have a toolCallId' },
+          { status: 400 }
+        );
+      }
+      if (msg.toolCalls !== undefined && msg.toolCalls !== null) {
+        if (
+          msg.role !== 'assistant' ||
+          !Array.isArray(msg.toolCalls) ||
+          !msg.toolCalls.every((call: ToolCall) =>
+            typeof call?.id === 'string' && typeof call.name === 'string' && typeof call.arguments === 'string'
+          )
+        ) {
+          return NextResponse.json(
+            { error: 'toolCalls must be an array of tool calls on an assistant message' },
+            { status: 400 }
+          );
+        }
+      }
+      if (msg.attachmentIds !== undefined) {
+        if (
+          msg.role !== 'user' ||
+          !Array.isArray(msg.attachmentIds) ||
+          !msg.attachmentIds.every((id: unknown) => typeof id === 'string')
+        ) {
+          return NextResponse.json(
+            { error: 'attachmentIds must be an array of attachment ids on a user message' },
+            { status: 400 }
+          );
+        }
+        if (msg.attachmentIds.length > MAX_ATTACHMENTS_PER_MESSAGE) {
+          return NextResponse.json(
+            { error: `A message can have at most ${MAX_ATTACHMENTS_PER_MESSAGE} attachments` },
+            { status: 400 }
+          );
+        }
+      }
     }
 
-    console.log('Sending request to OpenRouter:', { model: model || 'openai/gpt-4o', messageCount: messages.length });
+    if (parentId !== undefined && parentId !== null && typeof parentId !== 'string') {
+      return NextResponse.json(
+        { error: 'parentId must be a string or null' },
+        { status: 400 }
+      );
+    }
 
-    const completion = await openRouter.chat.send(
-      {
-        model: model || 'openai/gpt-4o',
-        messages: messages as ChatMessage[],
-        stream: false,
-      },
-      {
-        headers: getOpenRouterHeaders(),
+    if (promptId !== undefined && promptId !== null && typeof promptId !== 'string') {
+      return NextResponse.json(
+        { error: 'promptId must be a string or null' },
+        { status: 400 }
+      );
+    }
+
+    if (comparisonId !== undefined && (typeof comparisonId !== 'string' || comparisonId.length === 0 || comparisonId.length > 100)) {
+      return NextResponse.json(
+        { error: 'comparisonId must be a non-empty string of at most 100 characters' },
+        { status: 400 }
+      );
+    }
+
+    if (regenerate && (!parentId || typeof parentId !== 'string')) {
+      return NextResponse.json(
+        { error: 'parentId is required when regenerating' },
+        { status: 400 }
+      );
+    }
+
+    // Load the attachments of every message, checking they belong to the user
+    const messageAttachments: Attachment[][] = [];
+    for (const msg of messages) {
+      const attachments = await getUserAttachments(session.user.id, msg.attachmentIds ?? []);
+      if (!attachments) {
+        return NextResponse.json(
+          { error: 'Attachment not found' },
+          { status: 404 }
+        );
       }
+      messageAttachments.push(attachments);
+    }
+
+    const hasImages = messageAttachments.some((attachments) =>
+      attachments.some((attachment) => isImageType(attachment.mimeType))
     );
+    if (hasImages && !(await supportsInputModality(modelId, 'image'))) {
+      return NextResponse.json(
+        { error: `Model ${modelId} does not support image input` },
+        { status: 400 }
+      );
+    }
 
-    console.log('OpenRouter response:', JSON.stringify(completion, null, 2));
+    // Reject requests that would take the user over their monthly budget
+    const estimatedPromptTokens = estimatePromptTokens(messages);
+    const budgetCheck = await checkBudget(session.user.id, {
+      promptTokens: estimatedPromptTokens,
+      completionTokens: 0,
+      cost: await calculateCost(modelId, estimatedPromptTokens, 0),
+    });
 
-    // Check if response has the expected structure
-    if (!completion || !completion.choices || !completion.choices[0] || !completion.choices[0].message) {
-      console.error('Unexpected response structure:', completion);
+    if (budgetCheck.error) {
       return NextResponse.json(
-        { error: 'Unexpected response structure from OpenRouter' },
-        { status: 500 }
+        { error: budgetCheck.error, code: 'budget_exceeded', budget: budgetCheck.status },
+        { status: 402 }
       );
     }
 
-    const assistantMessage = completion.choices[0].message;
+    let chat: Chat | null = null;
+    if (chatId) {
+      // Verify chat belongs to user
+      chat = await prisma.chat.findFirst({
+        where: {
+          id: chatId,
+          userId: session.user.id,
+          deletedAt: null,
+        },
+      });
+    }
+
+    if (chat && parentId) {
+      const parent = await prisma.message.findFirst({
+        where: { id: parentId, chatId: chat.id },
+      });
 
-    // Helper function to convert message content to string
-    const getContentAsString = (content: unknown): string => {
-      if (typeof content === 'string') {
-        return content;
+      if (!parent) {
+        return NextResponse.json(
+          { error: 'Parent message not found' },
+          { status: 404 }
+        );
       }
-      if (Array.isArray(content)) {
-        // Extract text from content array items
-        return content
-          .map((item) => {
-            if (typeof item === 'object' && item !== null) {
-              if ('type' in item && item.type === 'text' && 'text' in item) {
-                return typeof item.text === 'string' ? item.text : '';
-              }
-            }
-            return '';
-          })
-          .filter(Boolean)
-          .join(' ');
+    }
+
+    let prompt: Prompt | null = null;
+    let promptVersionId: string | undefined;
+    if (promptId) {
+      // Verify the user can use the prompt: their own, shared with them or in the catalog
+      prompt = await prisma.prompt.findFirst({
+        where: {
+          id: promptId,
+          ...accessiblePromptsWhere(session.user.id),
+        },
+      });
+
+      if (!prompt) {
+        return NextResponse.json(
+          { error: 'Prompt not found' },
+          { status: 404 }
+        );
       }
-      return '';
-    };
 
-    const assistantContent = getContentAsString(assistantMessage.content);
+      // The message is sent with the prompt as it is now, which is its latest version
+      promptVersionId = (await ensurePromptVersion(prompt)).id;
+    }
 
-    // Save messages to database if chatId is provided and user is authenticated
-    if (chatId && session?.user?.id) {
+    // A prompt's response schema takes precedence over the chat's
+    const storedSchema = prompt?.responseSchema ?? chat?.responseSchema;
+    const responseSchema: JsonSchema | null = isJsonObject(storedSchema) ? storedSchema : null;
+
+    // Send messages with attachments as multimodal content parts, and earlier tool calls with their results
+    const conversation: ChatMessage[] = await Promise.all(
+      messages.map(async (msg: RequestMessage, index: number): Promise<ChatMessage> => {
+        if (messageAttachments[index].length > 0) {
+          return { role: 'user', content: await toContentParts(msg.content, messageAttachments[index]) };
+        }
+        if (msg.role === 'tool') {
+          return { role: 'tool', content: msg.content, toolCallId: msg.toolCallId! };
+        }
+        if (msg.role === 'assistant' && msg.toolCalls?.length) {
+          return { role: 'assistant', content: msg.content, toolCalls: toOpenRouterToolCalls(msg.toolCalls) };
+        }
+        return { role: msg.role, content: msg.content };
+      })
+    );
+
+    // Give the model the knowledge base chunks that are most relevant to the new message,
+    // right before that message
+    let sources: Citation[] = [];
+    const lastMessage = messages[messages.length - 1];
+    if (chat && lastMessage?.role === 'user') {
       try {
-        // Verify chat belongs to user
-        const chat = await prisma.chat.findFirst({
-          where: {
-            id: chatId,
-            userId: session.user.id,
-          },
-        });
-
-        if (chat) {
-          // Get the last user message (the one just sent)
-          const lastUserMessage = messages[messages.length - 1];
-          
-          // Save user message if it's not already saved
-          if (lastUserMessage && lastUserMessage.role === 'user') {
-            await prisma.message.create({
-              data: {
-                chatId,
-                role: 'user',
-                content: lastUserMessage.content,
-              },
-            });
+        sources = await retrieveSources(await getChatCollectionIds(chat.id), lastMessage.content);
+      } catch (retrievalError) {
+        // Answer without the knowledge base rather than failing the request
+        console.error('Error retrieving knowledge base sources:', retrievalError);
+      }
+    }
 
-            // Update chat title if it's the first message
-            if (!chat.title) {
-              const title = lastUserMessage.content.length > 50 
-                ? lastUserMessage.content.substring(0, 50) + '...' 
-                : lastUserMessage.content;
-              await prisma.chat.update({
-                where: { id: chatId },
-                data: { title },
-              });
-            }
+    const contextMessages: ChatMessage[] = sources.length > 0
+      ? [
+          ...conversation.slice(0, -1),
+          { role: 'system', content: buildSourcesPrompt(sources) },
+          conversation[conversation.length - 1],
+        ]
+      : conversation;
+
+    // Apply the chat's system prompt, response schema and generation parameters
+    const systemMessages: ChatMessage[] = [];
+    if (chat?.systemPrompt) {
+      systemMessages.push({ role: 'system', content: chat.systemPrompt });
+    }
+    if (responseSchema) {
+      systemMessages.push({ role: 'system', content: buildSchemaPrompt(responseSchema) });
+    }
+    const requestMessages: ChatMessage[] = [...systemMessages, ...contextMessages];
+    const generationParams = chat ? toGenerationParams(chat) : {};
+
+    // Models without response_format support only get the schema in the system message
+    const responseFormat = responseSchema && (await supportsParameter(modelId, 'response_format'))
+      ? toResponseFormat(responseSchema, await supportsParameter(modelId, 'structured_outputs'))
+      : undefined;
+
+    console.log('Sending request to OpenRouter:', { model: modelId, messageCount: requestMessages.length, ...generationParams });
+
+    // Abort the upstream OpenRouter request when the client disconnects or stops
+    const upstreamController = new AbortController();
+    request.signal.addEventListener('abort', () => upstreamController.abort());
+
+    // Only offer tools to models that support them, OpenRouter rejects the request otherwise
+    const useTools = await supportsParameter(modelId, 'tools');
+    const sendCompletion = (stepMessages: ChatMessage[], withTools: boolean) =>
+      openRouter.chat.send(
+        {
+          model: modelId,
+          messages: stepMessages,
+          ...generationParams,
+          ...(withTools && { tools: getToolDefinitions() }),
+          ...(responseFormat && { responseFormat }),
+          stream: true,
+          // Ask OpenRouter to send token usage in the final chunk
+          streamOptions: { includeUsage: true },
+        },
+        {
+          headers: getOpenRouterHeaders(),
+          signal: upstreamController.signal,
+        }
+      );
+
+    let completionStream = await sendCompletion(requestMessages, useTools && MAX_TOOL_STEPS > 1);
+
+    // Save the user message once OpenRouter has accepted the request, so it is kept when the stream
+    // fails later on, but a rejected request (e.g. an invalid API key) leaves the chat unchanged
+    let userMessageId: string | undefined;
+    let assistantParentId: string | null = null;
+    if (chat) {
+      try {
+        const activeLeafId = await ensureMessageTree(chat);
+        assistantParentId = parentId !== undefined ? parentId : activeLeafId;
+
+        // Get the last user message (the one just sent)
+        const lastUserMessage = messages[messages.length - 1];
+
+        // Save user message if it's not already saved
+        if (lastUserMessage && lastUserMessage.role === 'user' && !regenerate) {
+          const savedUserMessage = await prisma.message.create({
+            data: {
+              chatId: chat.id,
+              parentId: assistantParentId,
+              role: 'user',
+              content: lastUserMessage.content,
+              promptId: prompt?.id,
+              promptVersionId,
+            },
+          });
+          userMessageId = savedUserMessage.id;
+          assistantParentId = savedUserMessage.id;
+
+          const lastAttachments = messageAttachments[messageAttachments.length - 1];
+          if (lastAttachments.length > 0) {
+            await linkAttachments(lastAttachments, savedUserMessage.id);
           }
 
-          // Save assistant response
-          await prisma.message.create({
+          // Make the new message the end of the active branch,
+          // and update chat title if it's the first message
+          const titleText: string = lastUserMessage.content || lastAttachments[0]?.fileName || '';
+          await prisma.chat.update({
+            where: { id: chat.id },
             data: {
-              chatId,
-              role: 'assistant',
-              content: assistantContent,
+              activeLeafId: savedUserMessage.id,
+              ...(!chat.title && titleText && {
+                title: titleText.length > 50
+                  ? titleText.substring(0, 50) + '...'
+                  : titleText,
+              }),
             },
           });
         }
       } catch (dbError) {
         // Log error but don't fail the request
-        console.error('Error saving messages to database:', dbError);
+        console.error('Error saving user message to database:', dbError);
       }
     }
 
-    return NextResponse.json({
-      message: assistantMessage,
+    const encoder = new TextEncoder();
+
+    // Generated up front so the client knows the id even when it stops the stream early
+    const assistantMessageId = chat ? randomUUID() : undefined;
+
+    const toolContext = { userId: session.user.id, chatId: chat?.id ?? null };
+
+    // Pass the OpenRouter stream through to the client as Server-Sent Events
+    const sseStream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        let assistantContent = '';
+        let streamError: string | null = null;
+        let usage: TokenUsage | undefined;
+        // Usage of replies that were sent back to be repaired, added to the final reply
+        let repairUsage: TokenUsage | undefined;
+        let repairAttempts = 0;
+        let schemaValid: boolean | undefined;
+        // Tool call steps are saved as they finish, each step replies to the previous one
+        let stepParentId = assistantParentId;
+        const stepMessages = [...requestMessages];
+
+        /**
+         * Save a message of this completion and make it the end of the active branch
+         * @returns Whether the message was saved
+         */
+        const saveMessage = async (data: Omit<Prisma.MessageUncheckedCreateInput, 'chatId'>, messageUsage?: TokenUsage) => {
+          if (!chat) {
+            return false;
+          }
+
+          try {
+            const savedMessage = await prisma.message.create({
+              data: { ...data, chatId: chat.id },
+            });
+
+            await prisma.chat.update({
+              where: { id: chat.id },
+              data: { activeLeafId: savedMessage.id },
+            });
+
+            if (messageUsage) {
+              await recordUsage(chat.id, chat.userId, data.model ?? null, messageUsage);
+            }
+            return true;
+          } catch (dbError) {
+            console.error(`Error saving ${data.role} message to database:`, dbError);
+            return false;
+          }
+        };
+
+        controller.enqueue(
+          encoder.encode(encodeSSEEvent({ type: 'start', userMessageId, assistantMessageId }))
+        );
+        if (sources.length > 0) {
+          controller.enqueue(encoder.encode(encodeSSEEvent({ type: 'sources', sources })));
+        }
+
+        for (let step = 1; ; step++) {
+          assistantContent = '';
+          usage = undefined;
+          // Tool calls are streamed in pieces, identified by their index
+          const toolCalls: ToolCall[] = [];
+
+          try {
+            for await (const chunk of completionStream) {
+              if (chunk.error) {
+                throw new Error(chunk.error.message);
+              }
+
+              if (chunk.usage) {
+                usage = {
+                  promptTokens: chunk.usage.promptTokens,
+                  completionTokens: chunk.usage.completionTokens,
+                  cost: await calculateCost(modelId, chunk.usage.promptTokens, chunk.usage.completionTokens),
+                };
+              }
+
+              const delta = chunk.choices[0]?.delta?.content;
+              if (delta) {
+                assistantContent += delta;
+                if (!upstreamController.signal.aborted) {
+                  controller.enqueue(encoder.encode(encodeSSEEvent({ type: 'delta', content: delta })));
+                }
+              }
+
+              for (const toolCallDelta of chunk.choices[0]?.delta?.toolCalls ?? []) {
+                const toolCall = toolCalls[toolCallDelta.index] ??= { id: '', name: '', arguments: '' };
+                toolCall.id ||= toolCallDelta.id ?? '';
+                toolCall.name += toolCallDelta.function?.name ?? '';
+                toolCall.arguments += toolCallDelta.function?.arguments ?? '';
+              }
+            }
+          } catch (error: unknown) {
+            if (!upstreamController.signal.aborted) {
+              console.error('OpenRouter stream error:', error);
+              streamError = error instanceof Error ? error.message : 'Stream interrupted';
+            }
+          }
+
+          const requestedCalls = toolCalls.filter((toolCall) => toolCall?.name);
+          if (streamError || upstreamController.signal.aborted) {
+            break;
+          }
+
+          if (requestedCalls.length === 0) {
+            if (!responseSchema) {
+              break;
+            }
+
+            const schemaErrors = checkStructuredReply(assistantContent, responseSchema);
+            schemaValid = schemaErrors.length === 0;
+            if (schemaValid || repairAttempts >= MAX_REPAIR_ATTEMPTS) {
+              break;
+            }
+
+            // Send the reply back with the validation errors, the repaired reply replaces it
+            repairAttempts++;
+            repairUsage = addUsage(repairUsage, usage);
+            controller.enqueue(encoder.encode(encodeSSEEvent({ type: 'retry', errors: schemaErrors })));
+            stepMessages.push(
+              { role: 'assistant', content: assistantContent },
+              { role: 'user', content: buildRepairPrompt(schemaErrors) }
+            );
+          } else if (step >= MAX_TOOL_STEPS) {
+            // The last step is sent without tools, tool calls the model makes anyway are not run
+            if (!assistantContent) {
+              streamError = `The model kept requesting tools after ${MAX_TOOL_STEPS} steps`;
+            }
+            break;
+          } else {
+            // Save the step that requested the tools, then run them one by one
+            requestedCalls.forEach((toolCall, index) => {
+              toolCall.id ||= `call_${step}_${index}`;
+            });
+            const toolCallMessageId = randomUUID();
+            await saveMessage({
+              id: toolCallMessageId,
+              parentId: stepParentId,
+              role: 'assistant',
+              content: assistantContent,
+              model: modelId,
+              toolCalls: requestedCalls as unknown as Prisma.InputJsonArray,
+              promptTokens: usage?.promptTokens,
+              completionTokens: usage?.completionTokens,
+              cost: usage?.cost,
+            }, usage);
+            stepParentId = toolCallMessageId;
+            if (!upstreamController.signal.aborted) {
+              controller.enqueue(encoder.encode(encodeSSEEvent({
+                type: 'tool_call',
+                messageId: toolCallMessageId,
+                content: assistantContent,
+                toolCalls: requestedCalls,
+                usage,
+              })));
+            }
+            stepMessages.push({ role: 'assistant', content: assistantContent, toolCalls: toOpenRouterToolCalls(requestedCalls) });
+
+            for (const toolCall of requestedCalls) {
+              const result = await runToolCall(toolCall, toolContext);
+              const toolMessageId = randomUUID();
+              await saveMessage({
+                id: toolMessageId,
+                parentId: stepParentId,
+                role: 'tool',
+                content: result,
+                toolCallId: toolCall.id,
+                toolName: toolCall.name,
+              });
+              stepParentId = toolMessageId;
+              if (!upstreamController.signal.aborted) {
+                controller.enqueue(encoder.encode(encodeSSEEvent({
+                  type: 'tool_result',
+                  messageId: toolMessageId,
+                  toolCallId: toolCall.id,
+                  toolName: toolCall.name,
+                  content: result,
+                })));
+              }
+              stepMessages.push({ role: 'tool', content: result, toolCallId: toolCall.id });
+            }
+
+            if (upstreamController.signal.aborted) {
+              assistantContent = '';
+              break;
+            }
+          }
+
+          // Tool steps and repairs can use a lot of tokens, so the budget is checked before every request.
+          // Repaired replies are only recorded with the final reply, so they are counted here
+          const stepPromptTokens = estimatedPromptTokens + estimatePromptTokens(
+            stepMessages
+              .slice(requestMessages.length)
+              .map((message) => ({ content: typeof message.content === 'string' ? message.content : '' }))
+          );
+          const stepBudgetCheck = await checkBudget(toolContext.userId, addUsage(repairUsage, {
+            promptTokens: stepPromptTokens,
+            completionTokens: 0,
+            cost: await calculateCost(modelId, stepPromptTokens, 0),
+          })!);
+          if (stepBudgetCheck.error) {
+            assistantContent = '';
+            streamError = stepBudgetCheck.error;
+            break;
+          }
+
+          // The last step is sent without tools, so the model has to answer with the results it has
+          try {
+            completionStream = await sendCompletion(stepMessages, useTools && step + 1 < MAX_TOOL_STEPS);
+          } catch (error: unknown) {
+            assistantContent = '';
+            if (!upstreamController.signal.aborted) {
+              console.error('OpenRouter API error:', error);
+              streamError = error instanceof Error ? error.message : 'Failed to get completion';
+            }
+            break;
+          }
+        }
+
+        const truncated = upstreamController.signal.aborted;
+        usage = addUsage(repairUsage, usage);
+
+        // Save the assistant response once the stream has finished,
+        // including partial output when the stream failed halfway or was stopped
+        const saved = assistantContent
+          ? await saveMessage({
+              id: assistantMessageId,
+              parentId: stepParentId,
+              role: 'assistant',
+              content: assistantContent,
+              model: modelId,
+              truncated,
+              schemaValid,
+              comparisonId,
+              sources: sources.length > 0 ? (sources as unknown as Prisma.InputJsonArray) : undefined,
+              promptTokens: usage?.promptTokens,
+              completionTokens: usage?.completionTokens,
+              cost: usage?.cost,
+            }, usage)
+          : false;
+        const messageId = saved ? assistantMessageId : undefined;
+
+        // The client is gone when the generation was stopped, so there is nobody left to notify
+        if (truncated) {
+          return;
+        }
+
+        controller.enqueue(
+          encoder.encode(
+            encodeSSEEvent(
+              streamError
+                ? { type: 'error', error: streamError }
+                : { type: 'done', messageId, usage, schemaValid }
+            )
+          )
+        );
+        controller.close();
+      },
+      cancel() {
+        upstreamController.abort();
+      },
+    });
+
+    return new Response(sseStream, {
+      headers: {
+        'Content-Type': 'text/event-stream; charset=utf-8',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+      },
     });
   } catch (error: unknown) {
     console.error('OpenRouter API error:', error);
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { purgeExpiredItems } from '@/lib/trash';
+
+/**
+ * GET /api/cron/purge-trash
+ * Delete the chats and prompts of all users that expired in the trash for good
+ * Meant to be called by a scheduler (Vercel Cron, see vercel.json, or any cron job) with an
+ * Authorization: Bearer <CRON_SECRET> header; without CRON_SECRET set the job is disabled
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const secret = process.env.CRON_SECRET;
+
+    if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { chatCount, promptCount } = await purgeExpiredItems();
+
+    return NextResponse.json({ success: true, chatCount, promptCount });
+  } catch (error) {
+    console.error('Error purging trash:', error);
+    return NextResponse.json(
+      { error: 'Failed to purge trash' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { FOLDER_SUMMARY_INCLUDE, toChatFolderSummary, validateFolderName } from '@/lib/chatFolders';
+
+/**
+ * PATCH /api/folders/[id]
+ * Rename a chat folder
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth();
+
+    if (!session || !session.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { value: name, error } = validateFolderName(body.name);
+
+    if (error !== undefined) {
+      return NextResponse.json(
+        { error },
+        { status: 400 }
+      );
+    }
+
+    // Verify folder belongs to user
+    const folder = await prisma.chatFolder.findFirst({
+      where: {
+        id: params.id,
+        userId: session.user.id,
+      },
+    });
+
+    if (!folder) {
+      return NextResponse.json(
+        { error: 'Folder not found' },
+        { status: 404 }
+      );
+    }
+
+    if (name !== folder.name) {
+      const existing = await prisma.chatFolder.findFirst({
+        where: {
+          userId: session.user.id,
+          name,
+        },
+      });
+
+      if (existing) {
+        return NextResponse.json(
+          { error: 'A folder with this name already exists' },
+          { status: 409 }
+        );
+      }
+    }
+
+    const updatedFolder = await prisma.chatFolder.update({
+      where: { id: folder.id },
+      data: { name },
+      include: FOLDER_SUMMARY_INCLUDE,
+    });
+
+    return NextResponse.json({ folder: toChatFolderSummary(updatedFolder) });
+  } catch (error) {
+    console.error('Error updating folder:', error);
+    return NextResponse.json(
+      { error: 'Failed to update folder' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/folders/[id]
+ * Delete a chat folder; its chats are kept and moved out of the folder
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth();
+
+    if (!session || !session.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Verify folder belongs to user
+    const folder = await prisma.chatFolder.findFirst({
+      where: {
+        id: params.id,
+        userId: session.user.id,
+      },
+    });
+
+    if (!folder) {
+      return NextResponse.json(
+        { error: 'Folder not found' },
+        { status: 404 }
+      );
+    }
+
+    // The relation sets folderId of the folder's chats to null
+    await prisma.chatFolder.delete({
+      where: { id: folder.id },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting folder:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete folder' },
+      { status: 500 }
+    );
+  }
+}
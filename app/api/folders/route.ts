@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { FOLDER_SUMMARY_INCLUDE, toChatFolderSummary, validateFolderName } from '@/lib/chatFolders';
+
+/**
+ * GET /api/folders
+ * Get all chat folders for the authenticated user, with the number of chats in each
+ */
+export async function GET() {
+  try {
+    const session = await auth();
+
+    if (!session || !session.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const folders = await prisma.chatFolder.findMany({
+      where: {
+        userId: session.user.id,
+      },
+      include: FOLDER_SUMMARY_INCLUDE,
+      orderBy: {
+        name: 'asc',
+      },
+    });
+
+    return NextResponse.json({ folders: folders.map(toChatFolderSummary) });
+  } catch (error) {
+    console.error('Error fetching folders:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch folders' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/folders
+ * Create a new chat folder for the authenticated user
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session || !session.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { value: name, error } = validateFolderName(body.name);
+
+    if (error !== undefined) {
+      return NextResponse.json(
+        { error },
+        { status: 400 }
+      );
+    }
+
+    const existing = await prisma.chatFolder.findFirst({
+      where: {
+        userId: session.user.id,
+        name,
+      },
+    });
+
+    if (existing) {
+      return NextResponse.json(
+        { error: 'A folder with this name already exists' },
+        { status: 409 }
+      );
+    }
+
+    const folder = await prisma.chatFolder.create({
+      data: {
+        userId: session.user.id,
+        name,
+      },
+      include: FOLDER_SUMMARY_INCLUDE,
+    });
+
+    return NextResponse.json({ folder: toChatFolderSummary(folder) }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating folder:', error);
+    return NextResponse.json(
+      { error: 'Failed to create folder' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { IMPORT_SOURCES, importChats, parseImportFile } from '@/lib/chatImport';
+import { ImportSource } from '@/types/chat';
+
+/**
+ * POST /api/import?source=chatgpt|claude&dryRun=1
+ * Import conversations from a ChatGPT or Claude.ai conversations.json export (sent as the request body)
+ * The source is detected from the file when omitted. With dryRun nothing is saved,
+ * the response only previews what would be imported and what would be skipped
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session || !session.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const sourceParam = request.nextUrl.searchParams.get('source');
+    const dryRunParam = request.nextUrl.searchParams.get('dryRun');
+    const dryRun = dryRunParam === '1' || dryRunParam === 'true';
+
+    if (sourceParam && !IMPORT_SOURCES.includes(sourceParam as ImportSource)) {
+      return NextResponse.json(
+        { error: `Source must be one of: ${IMPORT_SOURCES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    let data: unknown;
+    try {
+      data = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Import file is not valid JSON' },
+        { status: 400 }
+      );
+    }
+
+    const { parsed, error } = parseImportFile(data, (sourceParam as ImportSource) || undefined);
+
+    if (error !== undefined) {
+      return NextResponse.json(
+        { error },
+        { status: 400 }
+      );
+    }
+
+    const report = await importChats(session.user.id, parsed, dryRun);
+
+    return NextResponse.json(report, { status: dryRun ? 200 : 201 });
+  } catch (error) {
+    console.error('Error importing chats:', error);
+    return NextResponse.json(
+      { error: 'Failed to import chats' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { getModelCatalog } from '@/lib/modelCatalog';
+
+/**
+ * GET /api/models
+ * Get the OpenRouter model catalog (cached on the server)
+ * Pass ?refresh=1 to bypass the cache
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session || !session.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const forceRefresh = request.nextUrl.searchParams.get('refresh') === '1';
+    const models = await getModelCatalog(forceRefresh);
+
+    return NextResponse.json({ models });
+  } catch (error) {
+    console.error('Error fetching models:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch models' },
+      { status: 502 }
+    );
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { Prisma } from '@prisma/client';
+import { accessiblePromptsWhere, PROMPT_SUMMARY_INCLUDE, toPromptSummary } from '@/lib/promptLibrary';
+
+/**
+ * POST /api/prompts/[id]/copy
+ * Copy a prompt the authenticated user can use (their own, shared with them or in the
+ * catalog) into a new private prompt they own
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth();
+
+    if (!session || !session.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const userId = session.user.id;
+
+    // Verify the user can see the prompt
+    const prompt = await prisma.prompt.findFirst({
+      where: {
+        id: params.id,
+        ...accessiblePromptsWhere(userId),
+      },
+    });
+
+    if (!prompt) {
+      return NextResponse.json(
+        { error: 'Prompt not found' },
+        { status: 404 }
+      );
+    }
+
+    const versionData = {
+      title: prompt.title,
+      content: prompt.content,
+      responseSchema: (prompt.responseSchema as Prisma.InputJsonObject | null) ?? Prisma.DbNull,
+    };
+    const copy = await prisma.prompt.create({
+      data: {
+        userId,
+        ...versionData,
+        tags: prompt.tags,
+        copiedFromId: prompt.id,
+        versions: { create: { version: 1, ...versionData } },
+      },
+      include: PROMPT_SUMMARY_INCLUDE,
+    });
+
+    return NextResponse.json({ prompt: toPromptSummary(copy, userId, false) }, { status: 201 });
+  } catch (error) {
+    console.error('Error copying prompt:', error);
+    return NextResponse.json(
+      { error: 'Failed to copy prompt' },
+      { status: 500 }
+    );
+  }
+}
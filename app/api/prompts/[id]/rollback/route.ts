@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { Prisma } from '@prisma/client';
+import { toPromptSummary, updatePromptWithVersion } from '@/lib/promptLibrary';
+
+/**
+ * POST /api/prompts/[id]/rollback
+ * Restore the title, content and responseSchema of an earlier version of a prompt owned by the
+ * authenticated user. Versions are never changed: the restored values are saved as a new version
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth();
+
+    if (!session || !session.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const userId = session.user.id;
+    const body = await request.json();
+    const { versionId } = body;
+
+    if (!versionId || typeof versionId !== 'string') {
+      return NextResponse.json(
+        { error: 'versionId is required and must be a string' },
+        { status: 400 }
+      );
+    }
+
+    // Verify prompt belongs to user
+    const prompt = await prisma.prompt.findFirst({
+      where: {
+        id: params.id,
+        userId,
+        deletedAt: null,
+      },
+    });
+
+    if (!prompt) {
+      return NextResponse.json(
+        { error: 'Prompt not found' },
+        { status: 404 }
+      );
+    }
+
+    const version = await prisma.promptVersion.findFirst({
+      where: { id: versionId, promptId: prompt.id },
+    });
+
+    if (!version) {
+      return NextResponse.json(
+        { error: 'Version not found' },
+        { status: 404 }
+      );
+    }
+
+    const updatedPrompt = await updatePromptWithVersion(prompt.id, {
+      title: version.title,
+      content: version.content,
+      responseSchema: (version.responseSchema as Prisma.InputJsonObject | null) ?? Prisma.DbNull,
+    });
+
+    const star = await prisma.promptStar.findUnique({
+      where: { promptId_userId: { promptId: prompt.id, userId } },
+    });
+
+    return NextResponse.json({ prompt: toPromptSummary(updatedPrompt, userId, star !== null) });
+  } catch (error) {
+    console.error('Error rolling back prompt:', error);
+    return NextResponse.json(
+      { error: 'Failed to roll back prompt' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,10 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
+import { Prisma } from '@prisma/client';
+import { validateResponseSchema } from '@/lib/structuredOutput';
+import { parseTemplate } from '@/lib/promptTemplate';
+import { validateTags } from '@/lib/tags';
+import {
+  toPromptSummary,
+  updatePromptWithVersion,
+  validatePromptSharing,
+} from '@/lib/promptLibrary';
 
 /**
  * DELETE /api/prompts/[id]
- * Delete a single prompt for the authenticated user
+ * Move a single prompt of the authenticated user to the trash, from where it can be restored
+ * with POST /api/trash/restore until it is purged. While it is in the trash nobody can use it
  */
 export async function DELETE(
   request: NextRequest,
@@ -27,6 +37,7 @@ export async function DELETE(
       where: {
         id: promptId,
         userId: session.user.id,
+        deletedAt: null,
       },
     });
 
@@ -37,9 +48,10 @@ export async function DELETE(
       );
     }
 
-    // Delete prompt
-    await prisma.prompt.delete({
+    // The prompt keeps its versions, shares and stars in the trash
+    await prisma.prompt.update({
       where: { id: promptId },
+      data: { deletedAt: new Date() },
     });
 
     return NextResponse.json({ success: true });
@@ -54,7 +66,11 @@ export async function DELETE(
 
 /**
  * PATCH /api/prompts/[id]
- * Update prompt title or content for the authenticated user
+ * Update prompt title, content, responseSchema, tags or sharing (visibility and sharedWith) for the
+ * authenticated user; only the owner can update a prompt. sharedWith replaces the current list
+ * archived archives the prompt (see libraryPromptsWhere) or unarchives it
+ * Changing the title, content or responseSchema records a new version of the prompt
+ * Template variables in the content ({{name}}, see lib/promptTemplate.ts) are validated
  */
 export async function PATCH(
   request: NextRequest,
@@ -72,13 +88,15 @@ export async function PATCH(
 
     const promptId = params.id;
     const body = await request.json();
-    const { title, content } = body;
+    const { title, content, responseSchema, tags, archived } = body;
+    const userId = session.user.id;
 
     // Verify prompt belongs to user
     const prompt = await prisma.prompt.findFirst({
       where: {
         id: promptId,
-        userId: session.user.id,
+        userId,
+        deletedAt: null,
       },
     });
 
@@ -90,7 +108,7 @@ export async function PATCH(
     }
 
     // Validate input
-    const updateData: { title?: string; content?: string } = {};
+    const updateData: Prisma.PromptUpdateInput = {};
     
     if (title !== undefined) {
       if (typeof title !== 'string' || title.trim().length === 0) {
@@ -109,23 +127,82 @@ export async function PATCH(
           { status: 400 }
         );
       }
+      const templateResult = parseTemplate(content);
+      if (templateResult.error !== undefined) {
+        return NextResponse.json(
+          { error: templateResult.error },
+          { status: 400 }
+        );
+      }
       updateData.content = content.trim();
     }
 
+    if (responseSchema !== undefined) {
+      const schemaResult = validateResponseSchema(responseSchema);
+      if (schemaResult.error !== undefined) {
+        return NextResponse.json(
+          { error: schemaResult.error },
+          { status: 400 }
+        );
+      }
+      updateData.responseSchema = (schemaResult.value as Prisma.InputJsonObject | null) ?? Prisma.DbNull;
+    }
+
+    if (tags !== undefined) {
+      const tagsResult = validateTags(tags);
+      if (tagsResult.error !== undefined) {
+        return NextResponse.json(
+          { error: tagsResult.error },
+          { status: 400 }
+        );
+      }
+      updateData.tags = tagsResult.value;
+    }
+
+    if (archived !== undefined) {
+      if (typeof archived !== 'boolean') {
+        return NextResponse.json(
+          { error: 'archived must be a boolean' },
+          { status: 400 }
+        );
+      }
+      updateData.archivedAt = archived ? prompt.archivedAt ?? new Date() : null;
+    }
+
+    const sharingResult = await validatePromptSharing(body, userId);
+    if (sharingResult.error !== undefined) {
+      return NextResponse.json(
+        { error: sharingResult.error },
+        { status: 400 }
+      );
+    }
+
+    const { visibility, userIds } = sharingResult.value;
+    if (visibility !== undefined) {
+      updateData.visibility = visibility;
+    }
+    if (userIds !== undefined) {
+      updateData.shares = {
+        deleteMany: {},
+        create: userIds.map((shareUserId) => ({ userId: shareUserId })),
+      };
+    }
+
     if (Object.keys(updateData).length === 0) {
       return NextResponse.json(
-        { error: 'At least one field (title or content) must be provided' },
+        { error: 'At least one field (title, content, responseSchema, tags, archived, visibility or sharedWith) must be provided' },
         { status: 400 }
       );
     }
 
     // Update prompt
-    const updatedPrompt = await prisma.prompt.update({
-      where: { id: promptId },
-      data: updateData,
+    const updatedPrompt = await updatePromptWithVersion(promptId, updateData);
+
+    const star = await prisma.promptStar.findUnique({
+      where: { promptId_userId: { promptId, userId } },
     });
 
-    return NextResponse.json({ prompt: updatedPrompt });
+    return NextResponse.json({ prompt: toPromptSummary(updatedPrompt, userId, star !== null) });
   } catch (error) {
     console.error('Error updating prompt:', error);
     return NextResponse.json(
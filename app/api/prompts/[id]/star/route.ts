@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+
+/**
+ * PUT /api/prompts/[id]/star
+ * Star a prompt in the organization catalog, adding it to the authenticated user's prompt library
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth();
+
+    if (!session || !session.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const userId = session.user.id;
+
+    // Only catalog prompts can be starred
+    const prompt = await prisma.prompt.findFirst({
+      where: {
+        id: params.id,
+        visibility: 'org',
+        archivedAt: null,
+        deletedAt: null,
+      },
+    });
+
+    if (!prompt) {
+      return NextResponse.json(
+        { error: 'Prompt not found' },
+        { status: 404 }
+      );
+    }
+
+    await prisma.promptStar.upsert({
+      where: { promptId_userId: { promptId: prompt.id, userId } },
+      create: { promptId: prompt.id, userId },
+      update: {},
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error starring prompt:', error);
+    return NextResponse.json(
+      { error: 'Failed to star prompt' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/prompts/[id]/star
+ * Remove the authenticated user's star from a prompt
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth();
+
+    if (!session || !session.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    await prisma.promptStar.deleteMany({
+      where: {
+        promptId: params.id,
+        userId: session.user.id,
+      },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error unstarring prompt:', error);
+    return NextResponse.json(
+      { error: 'Failed to unstar prompt' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { ensurePromptVersion, toPromptVersionSummary } from '@/lib/promptLibrary';
+
+/**
+ * GET /api/prompts/[id]/versions
+ * Get the versions of a prompt owned by the authenticated user, newest first
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth();
+
+    if (!session || !session.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Verify prompt belongs to user
+    const prompt = await prisma.prompt.findFirst({
+      where: {
+        id: params.id,
+        userId: session.user.id,
+        deletedAt: null,
+      },
+    });
+
+    if (!prompt) {
+      return NextResponse.json(
+        { error: 'Prompt not found' },
+        { status: 404 }
+      );
+    }
+
+    await ensurePromptVersion(prompt);
+    const versions = await prisma.promptVersion.findMany({
+      where: { promptId: prompt.id },
+      orderBy: { version: 'desc' },
+    });
+
+    return NextResponse.json({ versions: versions.map(toPromptVersionSummary) });
+  } catch (error) {
+    console.error('Error fetching prompt versions:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch prompt versions' },
+      { status: 500 }
+    );
+  }
+}
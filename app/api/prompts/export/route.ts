@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import {
+  exportPromptFile,
+  getPromptFileContentType,
+  isPromptFileFormat,
+  PROMPT_FILE_FORMATS,
+} from '@/lib/promptExport';
+
+/**
+ * GET /api/prompts/export?format=json|yaml
+ * Download the prompts of the authenticated user as a prompt file, which can be imported again
+ * with POST /api/prompts/import. Prompts shared with the user or starred in the catalog are left out
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session || !session.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const format = request.nextUrl.searchParams.get('format') || 'yaml';
+
+    if (!isPromptFileFormat(format)) {
+      return NextResponse.json(
+        { error: `Format must be one of: ${PROMPT_FILE_FORMATS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const prompts = await prisma.prompt.findMany({
+      where: {
+        userId: session.user.id,
+        deletedAt: null,
+      },
+      orderBy: {
+        title: 'asc',
+      },
+    });
+
+    const date = new Date().toISOString().substring(0, 10);
+
+    return new NextResponse(exportPromptFile(prompts, format), {
+      headers: {
+        'Content-Type': getPromptFileContentType(format),
+        'Content-Disposition': `attachment; filename="prompts-${date}.${format}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting prompts:', error);
+    return NextResponse.json(
+      { error: 'Failed to export prompts' },
+      { status: 500 }
+    );
+  }
+}
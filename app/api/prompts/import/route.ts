@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { importPrompts, parsePromptFile, PROMPT_IMPORT_MODES } from '@/lib/promptImport';
+import { PromptImportMode } from '@/types/chat';
+
+/**
+ * POST /api/prompts/import?mode=skip|overwrite|rename&dryRun=1
+ * Import prompts from a JSON or YAML prompt file (sent as the request body), as written by
+ * GET /api/prompts/export. mode decides what happens to prompts whose title is already used
+ * by one of the user's prompts (default skip). The response reports the outcome per prompt,
+ * including validation errors; with dryRun nothing is saved
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session || !session.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const mode = request.nextUrl.searchParams.get('mode') || 'skip';
+    const dryRunParam = request.nextUrl.searchParams.get('dryRun');
+    const dryRun = dryRunParam === '1' || dryRunParam === 'true';
+
+    if (!PROMPT_IMPORT_MODES.includes(mode as PromptImportMode)) {
+      return NextResponse.json(
+        { error: `Mode must be one of: ${PROMPT_IMPORT_MODES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const { value: entries, error } = parsePromptFile(await request.text());
+
+    if (error !== undefined) {
+      return NextResponse.json(
+        { error },
+        { status: 400 }
+      );
+    }
+
+    const report = await importPrompts(session.user.id, entries, mode as PromptImportMode, dryRun);
+
+    return NextResponse.json(report, { status: dryRun ? 200 : 201 });
+  } catch (error) {
+    console.error('Error importing prompts:', error);
+    return NextResponse.json(
+      { error: 'Failed to import prompts' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,10 +1,25 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
+import { Prisma } from '@prisma/client';
+import { validateResponseSchema } from '@/lib/structuredOutput';
+import { parseTemplate } from '@/lib/promptTemplate';
+import { validateTags } from '@/lib/tags';
+import {
+  findPromptSummaries,
+  libraryPromptsWhere,
+  PROMPT_SUMMARY_INCLUDE,
+  toPromptSummary,
+  validatePromptSharing,
+} from '@/lib/promptLibrary';
 
 /**
  * GET /api/prompts
- * Get all prompts for the authenticated user
+ * Get the prompt library of the authenticated user: their own prompts (first), prompts shared
+ * with them and catalog prompts they starred
+ * With ?scope=catalog, get the organization catalog instead, most starred first, optionally
+ * filtered with ?q= on title, content and tags
+ * With ?scope=archive, get the user's own archived prompts
  */
 export async function GET(request: NextRequest) {
   try {
@@ -17,16 +32,55 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    const prompts = await prisma.prompt.findMany({
-      where: {
-        userId: session.user.id,
-      },
-      orderBy: {
-        updatedAt: 'desc',
-      },
-    });
+    const userId = session.user.id;
+    const { searchParams } = new URL(request.url);
+    const scope = searchParams.get('scope') || 'library';
+
+    if (scope !== 'library' && scope !== 'catalog' && scope !== 'archive') {
+      return NextResponse.json(
+        { error: 'scope must be library, catalog or archive' },
+        { status: 400 }
+      );
+    }
+
+    if (scope === 'catalog') {
+      const query = searchParams.get('q')?.trim();
+      const prompts = await findPromptSummaries(
+        userId,
+        {
+          visibility: 'org',
+          archivedAt: null,
+          deletedAt: null,
+          ...(query && {
+            OR: [
+              { title: { contains: query, mode: 'insensitive' } },
+              { content: { contains: query, mode: 'insensitive' } },
+              { tags: { has: query.toLowerCase() } },
+            ],
+          }),
+        },
+        [{ stars: { _count: 'desc' } }, { updatedAt: 'desc' }]
+      );
+
+      return NextResponse.json({ prompts });
+    }
+
+    if (scope === 'archive') {
+      const prompts = await findPromptSummaries(userId, {
+        userId,
+        archivedAt: { not: null },
+        deletedAt: null,
+      });
+
+      return NextResponse.json({ prompts });
+    }
 
-    return NextResponse.json({ prompts });
+    const prompts = await findPromptSummaries(userId, libraryPromptsWhere(userId));
+
+    // Own prompts first, so they win when /title matches a shared prompt with the same title
+    return NextResponse.json({
+      prompts: [...prompts.filter((prompt) => prompt.isOwner), ...prompts.filter((prompt) => !prompt.isOwner)],
+    });
   } catch (error) {
     console.error('Error fetching prompts:', error);
     return NextResponse.json(
@@ -38,7 +92,12 @@ export async function GET(request: NextRequest) {
 
 /**
  * POST /api/prompts
- * Create a new prompt for the authenticated user
+ * Create a new prompt for the authenticated user, optionally with a responseSchema
+ * (a JSON Schema that replies to the prompt must match)
+ * Template variables in the content ({{name}}, see lib/promptTemplate.ts) are validated
+ * tags is an optional list of labels
+ * visibility (private, shared or org) and sharedWith (a list of emails) control who can use it
+ * The prompt starts out with version 1
  */
 export async function POST(request: NextRequest) {
   try {
@@ -52,7 +111,7 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { title, content } = body;
+    const { title, content, responseSchema, tags } = body;
 
     if (!title || typeof title !== 'string' || title.trim().length === 0) {
       return NextResponse.json(
@@ -68,15 +127,61 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const templateResult = parseTemplate(content);
+
+    if (templateResult.error !== undefined) {
+      return NextResponse.json(
+        { error: templateResult.error },
+        { status: 400 }
+      );
+    }
+
+    const schemaResult = validateResponseSchema(responseSchema ?? null);
+
+    if (schemaResult.error !== undefined) {
+      return NextResponse.json(
+        { error: schemaResult.error },
+        { status: 400 }
+      );
+    }
+
+    const tagsResult = validateTags(tags ?? []);
+
+    if (tagsResult.error !== undefined) {
+      return NextResponse.json(
+        { error: tagsResult.error },
+        { status: 400 }
+      );
+    }
+
+    const sharingResult = await validatePromptSharing(body, session.user.id);
+
+    if (sharingResult.error !== undefined) {
+      return NextResponse.json(
+        { error: sharingResult.error },
+        { status: 400 }
+      );
+    }
+
+    const { visibility, userIds = [] } = sharingResult.value;
+    const versionData = {
+      title: title.trim(),
+      content: content.trim(),
+      responseSchema: (schemaResult.value as Prisma.InputJsonObject | null) ?? Prisma.DbNull,
+    };
     const prompt = await prisma.prompt.create({
       data: {
         userId: session.user.id,
-        title: title.trim(),
-        content: content.trim(),
+        ...versionData,
+        tags: tagsResult.value,
+        visibility,
+        shares: { create: userIds.map((userId) => ({ userId })) },
+        versions: { create: { version: 1, ...versionData } },
       },
+      include: PROMPT_SUMMARY_INCLUDE,
     });
 
-    return NextResponse.json({ prompt }, { status: 201 });
+    return NextResponse.json({ prompt: toPromptSummary(prompt, session.user.id, false) }, { status: 201 });
   } catch (error) {
     console.error('Error creating prompt:', error);
     return NextResponse.json(
@@ -88,7 +193,7 @@ export async function POST(request: NextRequest) {
 
 /**
  * DELETE /api/prompts
- * Delete all prompts for the authenticated user
+ * Move all prompts of the authenticated user to the trash, archived prompts included
  */
 export async function DELETE(request: NextRequest) {
   try {
@@ -101,11 +206,13 @@ export async function DELETE(request: NextRequest) {
       );
     }
 
-    // Delete all prompts for the user
-    const result = await prisma.prompt.deleteMany({
+    // Prompts are kept in the trash until they are purged, see lib/trash.ts
+    const result = await prisma.prompt.updateMany({
       where: {
         userId: session.user.id,
+        deletedAt: null,
       },
+      data: { deletedAt: new Date() },
     });
 
     return NextResponse.json({ 
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { searchChats, MAX_SEARCH_QUERY_LENGTH } from '@/lib/search';
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 50;
+
+/**
+ * GET /api/search?q=query&limit=20
+ * Full-text search over the authenticated user's messages and chat titles
+ * Returns ranked results with highlighted snippets
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session || !session.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const query = request.nextUrl.searchParams.get('q')?.trim() || '';
+
+    if (!query) {
+      return NextResponse.json(
+        { error: 'Query parameter q is required' },
+        { status: 400 }
+      );
+    }
+
+    if (query.length > MAX_SEARCH_QUERY_LENGTH) {
+      return NextResponse.json(
+        { error: `Query must be at most ${MAX_SEARCH_QUERY_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const limitParam = request.nextUrl.searchParams.get('limit');
+    const limit = limitParam ? parseInt(limitParam, 10) : DEFAULT_LIMIT;
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+      return NextResponse.json(
+        { error: `Limit must be an integer between 1 and ${MAX_LIMIT}` },
+        { status: 400 }
+      );
+    }
+
+    const results = await searchChats(session.user.id, query, limit);
+
+    return NextResponse.json({ results });
+  } catch (error) {
+    console.error('Error searching chats:', error);
+    return NextResponse.json(
+      { error: 'Failed to search chats' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { TRASH_ITEM_TYPES, trashWhere } from '@/lib/trash';
+import { TrashItemType } from '@/types/chat';
+
+/**
+ * POST /api/trash/restore
+ * Restore a deleted chat or prompt of the authenticated user from the trash
+ * Body: { type, id } where type is chat or prompt. Expired items can't be restored
+ * Restored items come back as they were, archived or not; chats whose folder was deleted
+ * in the meantime come back outside folders
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session || !session.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { type, id } = body;
+
+    if (!TRASH_ITEM_TYPES.includes(type as TrashItemType)) {
+      return NextResponse.json(
+        { error: `type must be one of ${TRASH_ITEM_TYPES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (typeof id !== 'string' || id.length === 0) {
+      return NextResponse.json(
+        { error: 'id is required and must be a string' },
+        { status: 400 }
+      );
+    }
+
+    // Verify item is in the user's trash
+    const where = { ...trashWhere(session.user.id), id };
+    const result =
+      type === 'chat'
+        ? await prisma.chat.updateMany({ where, data: { deletedAt: null } })
+        : await prisma.prompt.updateMany({ where, data: { deletedAt: null } });
+
+    if (result.count === 0) {
+      return NextResponse.json(
+        { error: 'Item not found in trash' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error restoring item:', error);
+    return NextResponse.json(
+      { error: 'Failed to restore item' },
+      { status: 500 }
+    );
+  }
+}
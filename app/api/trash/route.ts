@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { deleteItemsForGood, getTrashRetentionDays, toTrashItem, TRASH_ITEM_TYPES, trashWhere } from '@/lib/trash';
+import { TrashItemType } from '@/types/chat';
+
+/**
+ * GET /api/trash
+ * Get the deleted chats and prompts of the authenticated user that can still be restored,
+ * most recently deleted first, with the number of days items are kept
+ */
+export async function GET() {
+  try {
+    const session = await auth();
+
+    if (!session || !session.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const where = trashWhere(session.user.id);
+    const [chats, prompts] = await Promise.all([
+      prisma.chat.findMany({
+        where,
+        select: { id: true, title: true, deletedAt: true },
+      }),
+      prisma.prompt.findMany({
+        where,
+        select: { id: true, title: true, deletedAt: true },
+      }),
+    ]);
+
+    const items = [
+      ...chats.map((chat) => toTrashItem(chat, 'chat')),
+      ...prompts.map((prompt) => toTrashItem(prompt, 'prompt')),
+    ].sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+
+    return NextResponse.json({ items, retentionDays: getTrashRetentionDays() });
+  } catch (error) {
+    console.error('Error fetching trash:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch trash' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/trash
+ * Empty the trash of the authenticated user, deleting its chats and prompts for good
+ * With ?type=chat|prompt&id=, only delete that item for good
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session || !session.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const type = searchParams.get('type');
+    const id = searchParams.get('id');
+
+    if ((type === null) !== (id === null)) {
+      return NextResponse.json(
+        { error: 'type and id must be given together' },
+        { status: 400 }
+      );
+    }
+
+    if (type !== null && !TRASH_ITEM_TYPES.includes(type as TrashItemType)) {
+      return NextResponse.json(
+        { error: `type must be one of ${TRASH_ITEM_TYPES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    // Only items in the trash can be deleted for good; expired items are included
+    const where = {
+      userId: session.user.id,
+      deletedAt: { not: null },
+      ...(id !== null && { id }),
+    };
+
+    if (type !== null) {
+      const { chatCount, promptCount } =
+        type === 'chat' ? await deleteItemsForGood(where, null) : await deleteItemsForGood(null, where);
+
+      if (chatCount + promptCount === 0) {
+        return NextResponse.json(
+          { error: 'Item not found in trash' },
+          { status: 404 }
+        );
+      }
+
+      return NextResponse.json({ success: true, deletedCount: chatCount + promptCount });
+    }
+
+    const { chatCount, promptCount } = await deleteItemsForGood(where, where);
+
+    return NextResponse.json({
+      success: true,
+      deletedCount: chatCount + promptCount,
+    });
+  } catch (error) {
+    console.error('Error emptying trash:', error);
+    return NextResponse.json(
+      { error: 'Failed to empty trash' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { getUsageReport } from '@/lib/usage';
+
+const MAX_DAYS = 365;
+
+/**
+ * GET /api/usage?days=30
+ * Get token usage and cost for the authenticated user,
+ * broken down per day and per model
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session || !session.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const daysParam = request.nextUrl.searchParams.get('days');
+    const days = daysParam ? parseInt(daysParam, 10) : 30;
+
+    if (!Number.isInteger(days) || days < 1 || days > MAX_DAYS) {
+      return NextResponse.json(
+        { error: `Days must be an integer between 1 and ${MAX_DAYS}` },
+        { status: 400 }
+      );
+    }
+
+    const report = await getUsageReport(session.user.id, days);
+
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error('Error fetching usage:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch usage' },
+      { status: 500 }
+    );
+  }
+}
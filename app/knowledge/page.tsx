@@ -0,0 +1,18 @@
+import { redirect } from 'next/navigation';
+import { auth } from '@/lib/auth';
+import { KnowledgeBase } from '@/components/Knowledge/KnowledgeBase/KnowledgeBase';
+
+export default async function KnowledgePage() {
+  const session = await auth();
+
+  // Redirect to login if not authenticated
+  if (!session || !session.user) {
+    redirect('/login');
+  }
+
+  return (
+    <main>
+      <KnowledgeBase />
+    </main>
+  );
+}
@@ -0,0 +1,18 @@
+import { redirect } from 'next/navigation';
+import { auth } from '@/lib/auth';
+import { UsageDashboard } from '@/components/Usage/UsageDashboard/UsageDashboard';
+
+export default async function UsagePage() {
+  const session = await auth();
+
+  // Redirect to login if not authenticated
+  if (!session || !session.user) {
+    redirect('/login');
+  }
+
+  return (
+    <main>
+      <UsageDashboard />
+    </main>
+  );
+}
@@ -0,0 +1,205 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+
+import { PromptSummary } from '@/types/chat';
+
+import styles from './ArchiveDialog.module.css';
+
+interface ArchivedChat {
+  id: string;
+  title: string | null;
+  archivedAt: string;
+}
+
+interface ArchiveDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onChanged: () => void;
+  onChatSelect: (chatId: string) => void;
+}
+
+/**
+ * ArchiveDialog component - modal listing the archived chats and prompts of the user
+ * Archived chats can still be opened; both can be unarchived or moved to the trash
+ * @param isOpen - Whether the modal is open
+ * @param onClose - Callback when modal should be closed
+ * @param onChanged - Callback after an item was unarchived or deleted, so the chat list can reload
+ * @param onChatSelect - Callback to open an archived chat
+ */
+export function ArchiveDialog({ isOpen, onClose, onChanged, onChatSelect }: ArchiveDialogProps) {
+  const [chats, setChats] = useState<ArchivedChat[]>([]);
+  const [prompts, setPrompts] = useState<PromptSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load the archive every time the dialog is opened
+  useEffect(() => {
+    if (isOpen) {
+      setError(null);
+      loadArchive();
+    }
+  }, [isOpen]);
+
+  /**
+   * Load the archived chats and prompts
+   */
+  const loadArchive = async () => {
+    try {
+      setIsLoading(true);
+      const [chatsResponse, promptsResponse] = await Promise.all([
+        fetch('/api/chats?archived=1'),
+        fetch('/api/prompts?scope=archive'),
+      ]);
+
+      if (!chatsResponse.ok || !promptsResponse.ok) {
+        throw new Error('Failed to load archive');
+      }
+
+      const chatsData = await chatsResponse.json();
+      const promptsData = await promptsResponse.json();
+      setChats(chatsData.chats || []);
+      setPrompts(promptsData.prompts || []);
+    } catch (err) {
+      console.error('Error loading archive:', err);
+      setError('Archief laden mislukt');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  /**
+   * Unarchive a chat or prompt, or move it to the trash
+   * @param url - The API url of the chat or prompt
+   * @param remove - Whether to move it to the trash instead of unarchiving it
+   */
+  const updateItem = async (url: string, remove: boolean) => {
+    try {
+      const response = await fetch(url, remove
+        ? { method: 'DELETE' }
+        : {
+            method: 'PATCH',
+            headers: {
+              'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({ archived: false }),
+          });
+
+      if (!response.ok) {
+        throw new Error('Failed to update archived item');
+      }
+
+      await loadArchive();
+      onChanged();
+    } catch (err) {
+      console.error('Error updating archived item:', err);
+      setError(remove ? 'Verwijderen mislukt' : 'Terugzetten uit het archief mislukt');
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const isEmpty = chats.length === 0 && prompts.length === 0;
+
+  return (
+    <div className={styles.overlay} onClick={onClose}>
+      <div className={styles.modal} onClick={(e) => e.stopPropagation()}>
+        <div className={styles.header}>
+          <h2 className={styles.title}>Archief</h2>
+          <button
+            className={styles.closeButton}
+            onClick={onClose}
+            aria-label="Sluiten"
+          >
+            ×
+          </button>
+        </div>
+        <p className={styles.hint}>
+          Gearchiveerde chats staan niet in de chatlijst maar kun je nog openen. Gearchiveerde prompts zijn niet te gebruiken met /titel.
+        </p>
+        {error && <div className={styles.error}>{error}</div>}
+        {isLoading && isEmpty ? (
+          <div className={styles.hint}>Laden...</div>
+        ) : isEmpty ? (
+          <div className={styles.hint}>Het archief is leeg</div>
+        ) : (
+          <>
+            {chats.length > 0 && (
+              <>
+                <h3 className={styles.sectionTitle}>Chats</h3>
+                <ul className={styles.list}>
+                  {chats.map((chat) => (
+                    <li key={chat.id} className={styles.item}>
+                      <div className={styles.itemHeader}>
+                        <span className={styles.itemTitle}>{chat.title || 'Nieuwe chat'}</span>
+                        <span className={styles.hint}>
+                          Gearchiveerd op {new Date(chat.archivedAt).toLocaleDateString('nl-NL', { day: 'numeric', month: 'short' })}
+                        </span>
+                      </div>
+                      <div className={styles.itemActions}>
+                        <button
+                          type="button"
+                          className={styles.actionButton}
+                          onClick={() => {
+                            onChatSelect(chat.id);
+                            onClose();
+                          }}
+                        >
+                          Openen
+                        </button>
+                        <button
+                          type="button"
+                          className={styles.actionButton}
+                          onClick={() => updateItem(`/api/chats/${chat.id}`, false)}
+                        >
+                          Uit archief halen
+                        </button>
+                        <button
+                          type="button"
+                          className={styles.actionButton}
+                          onClick={() => updateItem(`/api/chats/${chat.id}`, true)}
+                        >
+                          Verwijderen
+                        </button>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </>
+            )}
+            {prompts.length > 0 && (
+              <>
+                <h3 className={styles.sectionTitle}>Prompts</h3>
+                <ul className={styles.list}>
+                  {prompts.map((prompt) => (
+                    <li key={prompt.id} className={styles.item}>
+                      <div className={styles.itemHeader}>
+                        <span className={styles.itemTitle}>/{prompt.title}</span>
+                      </div>
+                      <div className={styles.itemActions}>
+                        <button
+                          type="button"
+                          className={styles.actionButton}
+                          onClick={() => updateItem(`/api/prompts/${prompt.id}`, false)}
+                        >
+                          Uit archief halen
+                        </button>
+                        <button
+                          type="button"
+                          className={styles.actionButton}
+                          onClick={() => updateItem(`/api/prompts/${prompt.id}`, true)}
+                        >
+                          Verwijderen
+                        </button>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
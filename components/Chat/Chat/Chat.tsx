@@ -1,10 +1,14 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 
-import { Message } from '@/types/chat';
+import { AttachmentInfo, BudgetStatus, Citation, Message, TokenUsage } from '@/types/chat';
+import { readSSEStream } from '@/lib/sse';
+import { parsePromptCommand, renderTemplate } from '@/lib/promptTemplate';
 import { Message as MessageComponent } from '@/components/Chat/Message/Message';
 import { ChatInput } from '@/components/Chat/ChatInput/ChatInput';
+import { ChatSettings } from '@/components/Chat/ChatSettings/ChatSettings';
+import { CompareView, ComparisonColumn } from '@/components/Chat/CompareView/CompareView';
 
 import styles from './Chat.module.css';
 
@@ -12,38 +16,199 @@ interface ChatProps {
   userName: string;
   chatId: string | null;
   onChatCreated?: (chatId: string) => void;
+  focusMessage?: { chatId: string; messageId: string | null } | null;
 }
 
-export function Chat({ userName, chatId, onChatCreated }: ChatProps) {
+/**
+ * A message as returned by the messages API (timestamps are ISO strings)
+ */
+type ApiMessage = Omit<Message, 'timestamp'> & { timestamp: string };
+
+/**
+ * Convert messages from the messages API into chat messages
+ */
+const parseMessages = (apiMessages: ApiMessage[]): Message[] =>
+  apiMessages.map((msg) => ({
+    id: msg.id,
+    role: msg.role,
+    content: msg.content,
+    timestamp: new Date(msg.timestamp),
+    model: msg.model,
+    truncated: msg.truncated,
+    promptTokens: msg.promptTokens,
+    completionTokens: msg.completionTokens,
+    cost: msg.cost,
+    parentId: msg.parentId,
+    siblingIds: msg.siblingIds,
+    attachments: msg.attachments,
+    sources: msg.sources,
+    toolCalls: msg.toolCalls,
+    toolCallId: msg.toolCallId,
+    toolName: msg.toolName,
+    promptId: msg.promptId,
+    promptVersionId: msg.promptVersionId,
+    schemaValid: msg.schemaValid,
+    comparisonId: msg.comparisonId,
+    comparisonWinner: msg.comparisonWinner,
+  }));
+
+/**
+ * Convert chat messages into the messages sent to /api/completions
+ */
+const toRequestMessages = (messages: Message[]) =>
+  messages.map(({ role, content, attachments, toolCalls, toolCallId }) => ({
+    role,
+    content,
+    ...(attachments && attachments.length > 0 && {
+      attachmentIds: attachments.map((attachment) => attachment.id),
+    }),
+    ...(toolCalls && toolCalls.length > 0 && { toolCalls }),
+    ...(toolCallId && { toolCallId }),
+  }));
+
+export function Chat({ userName, chatId, onChatCreated, focusMessage }: ChatProps) {
   const [messages, setMessages] = useState<Message[]>([]);
   const [selectedModel, setSelectedModel] = useState<string>('anthropic/claude-3.5-sonnet');
   const [isLoading, setIsLoading] = useState(false);
   const [streamingMessage, setStreamingMessage] = useState<string>('');
   const [isLoadingMessages, setIsLoadingMessages] = useState(false);
   const [currentChatId, setCurrentChatId] = useState<string | null>(chatId);
+  const [showSettings, setShowSettings] = useState(false);
+  const [budget, setBudget] = useState<BudgetStatus | null>(null);
+  // Models the next message is sent to side by side, null outside compare mode
+  const [compareModels, setCompareModels] = useState<string[] | null>(null);
+  // The replies of the last comparison, until one of them is picked
+  const [comparison, setComparison] = useState<ComparisonColumn[] | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const reloadedFocusRef = useRef<ChatProps['focusMessage']>(null);
+  const scrolledFocusRef = useRef<ChatProps['focusMessage']>(null);
 
   // Update currentChatId when prop changes
   useEffect(() => {
     setCurrentChatId(chatId);
   }, [chatId]);
 
+  // Load the budget status on mount
+  useEffect(() => {
+    loadBudget();
+  }, []);
+
+  /**
+   * Load the user's budget status for the current month
+   */
+  const loadBudget = async () => {
+    try {
+      const response = await fetch('/api/budget');
+
+      if (!response.ok) {
+        throw new Error('Failed to load budget');
+      }
+
+      const data = await response.json();
+      setBudget(data.budget);
+    } catch (error) {
+      console.error('Error loading budget:', error);
+    }
+  };
+
   /**
-   * Load messages for the current chat
+   * Load messages and the selected model for the current chat
    */
   useEffect(() => {
+    setComparison(null);
     if (currentChatId) {
+      loadChatModel(currentChatId);
       loadMessages(currentChatId);
     } else {
       setMessages([]);
     }
   }, [currentChatId]);
 
+  // Reload the open chat when a search result in it is selected, its active branch may have changed.
+  // Results in another chat are loaded by the effect above once currentChatId follows the chatId prop
+  useEffect(() => {
+    if (!focusMessage || reloadedFocusRef.current === focusMessage) {
+      return;
+    }
+
+    reloadedFocusRef.current = focusMessage;
+    if (focusMessage.chatId === currentChatId) {
+      loadMessages(currentChatId);
+    }
+  }, [focusMessage, currentChatId]);
+
+  // Scroll to the focused message once it has been loaded
+  useEffect(() => {
+    const messageId = focusMessage?.messageId;
+    if (!messageId || scrolledFocusRef.current === focusMessage) {
+      return;
+    }
+
+    const element = document.getElementById(`message-${messageId}`);
+    if (element) {
+      element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+      scrolledFocusRef.current = focusMessage;
+    }
+  }, [messages, focusMessage]);
+
+  /**
+   * Restore the model that was last selected for a specific chat
+   */
+  const loadChatModel = async (chatIdToLoad: string) => {
+    try {
+      const response = await fetch(`/api/chats/${chatIdToLoad}`);
+
+      if (!response.ok) {
+        throw new Error('Failed to load chat');
+      }
+
+      const data = await response.json();
+      if (data.chat?.model) {
+        setSelectedModel(data.chat.model);
+      }
+    } catch (error) {
+      console.error('Error loading chat model:', error);
+    }
+  };
+
+  /**
+   * Change the selected model and persist it on the current chat
+   * @param model - The newly selected model ID
+   */
+  const handleModelChange = async (model: string) => {
+    setSelectedModel(model);
+
+    if (!currentChatId) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/chats/${currentChatId}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ model }),
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to update chat model');
+      }
+    } catch (error) {
+      console.error('Error saving chat model:', error);
+    }
+  };
+
   /**
-   * Load messages from database for a specific chat
+   * Load messages on the active branch from database for a specific chat
+   * @param chatIdToLoad - The chat to load
+   * @param showLoading - Whether to show the loading state (off when refreshing after a reply)
    */
-  const loadMessages = async (chatIdToLoad: string) => {
+  const loadMessages = async (chatIdToLoad: string, showLoading = true) => {
     try {
-      setIsLoadingMessages(true);
+      if (showLoading) {
+        setIsLoadingMessages(true);
+      }
       const response = await fetch(`/api/chats/${chatIdToLoad}/messages`);
       
       if (!response.ok) {
@@ -51,14 +216,7 @@ export function Chat({ userName, chatId, onChatCreated }: ChatProps) {
       }
 
       const data = await response.json();
-      const loadedMessages: Message[] = (data.messages || []).map((msg: any) => ({
-        id: msg.id,
-        role: msg.role,
-        content: msg.content,
-        timestamp: new Date(msg.timestamp),
-      }));
-      
-      setMessages(loadedMessages);
+      setMessages(parseMessages(data.messages || []));
     } catch (error) {
       console.error('Error loading messages:', error);
     } finally {
@@ -67,37 +225,76 @@ export function Chat({ userName, chatId, onChatCreated }: ChatProps) {
   };
 
   /**
-   * Resolve prompt syntax: "/titel tekst" -> "[prompt content] tekst"
-   * @param content - The message content that may contain prompt syntax
-   * @returns The resolved content with prompt replaced but rest of text preserved
+   * Show another branch of the conversation
+   * @param messageId - The sibling message whose branch should become active
    */
-  const resolvePromptSyntax = async (content: string): Promise<string> => {
-    // Check if content starts with "/"
-    if (!content.trim().startsWith('/')) {
-      return content;
+  const switchBranch = async (messageId: string) => {
+    if (!currentChatId) {
+      return;
     }
 
-    // Extract prompt title and remaining text
-    // Match "/titel" followed by optional space and remaining text
-    const match = content.match(/^\/(\S+)(?:\s+(.*))?$/);
-    if (!match) {
-      return content;
+    try {
+      const response = await fetch(`/api/chats/${currentChatId}/branch`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ messageId }),
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to switch branch');
+      }
+
+      const data = await response.json();
+      setMessages(parseMessages(data.messages || []));
+    } catch (error) {
+      console.error('Error switching branch:', error);
     }
+  };
 
-    const promptTitle = match[1].trim();
-    const remainingText = match[2] || '';
-    
-    if (!promptTitle) {
-      return content;
+  /**
+   * Continue the conversation from an earlier message: the next message
+   * is sent as a reply to it, starting a new branch next to the existing replies
+   * @param messageId - The message to continue from
+   */
+  const forkFromMessage = (messageId: string) => {
+    setMessages((prev) => {
+      const index = prev.findIndex((message) => message.id === messageId);
+      return index === -1 ? prev : prev.slice(0, index + 1);
+    });
+  };
+
+  /**
+   * Resolve prompt syntax: "/titel tekst" -> "[prompt content] tekst"
+   * Template variables in the prompt are filled in with the given values or their defaults
+   * @param content - The message content that may contain prompt syntax
+   * @param templateValues - Values for the prompt's template variables, by name
+   * @returns The resolved content with prompt replaced but rest of text preserved,
+   * and the id of the prompt that was used
+   */
+  const resolvePromptSyntax = async (
+    content: string,
+    templateValues: Record<string, string> = {}
+  ): Promise<{ content: string; promptId: string | null }> => {
+    const unresolved = { content, promptId: null };
+
+    // Extract prompt title and remaining text from "/titel ..."
+    const command = parsePromptCommand(content);
+    if (!command) {
+      return unresolved;
     }
 
+    const promptTitle = command.title;
+    const remainingText = command.text;
+
     try {
-      // Fetch all prompts for the user
+      // Fetch the user's prompt library: own prompts first, then shared and starred ones
       const response = await fetch('/api/prompts');
       
       if (!response.ok) {
         console.error('Failed to fetch prompts');
-        return content;
+        return unresolved;
       }
 
       const data = await response.json();
@@ -110,10 +307,11 @@ export function Chat({ userName, chatId, onChatCreated }: ChatProps) {
 
       if (prompt) {
         // Replace "/titel" with prompt content, keep remaining text
+        const promptContent = renderTemplate(prompt.content, templateValues);
         const resolvedContent = remainingText.trim() 
-          ? `${prompt.content} ${remainingText.trim()}`
-          : prompt.content;
-        return resolvedContent;
+          ? `${promptContent} ${remainingText.trim()}`
+          : promptContent;
+        return { content: resolvedContent, promptId: prompt.id };
       } else {
         // Prompt not found, show error message
         const errorMessage: Message = {
@@ -121,26 +319,39 @@ export function Chat({ userName, chatId, onChatCreated }: ChatProps) {
           role: 'assistant',
           content: `Prompt "${promptTitle}" niet gevonden. Controleer de titel en probeer het opnieuw.`,
           timestamp: new Date(),
+          local: true,
         };
         setMessages((prev) => [...prev, errorMessage]);
-        return ''; // Don't send the message
+        return { content: '', promptId: null }; // Don't send the message
       }
     } catch (error) {
       console.error('Error resolving prompt:', error);
-      return content;
+      return unresolved;
     }
   };
 
   /**
-   * Sends a message to the chat API and handles the streaming response with typewriter effect
+   * Sends a message to the chat API, creating the chat first when needed
    * @param content - The message content to send
+   * @param attachments - Files uploaded for this message
+   * @param templateValues - Values for the variables of the prompt template used in the message
    */
-  const sendMessage = async (content: string): Promise<void> => {
+  const sendMessage = async (
+    content: string,
+    attachments: AttachmentInfo[] = [],
+    templateValues?: Record<string, string>
+  ): Promise<void> => {
     // Resolve prompt syntax if present
-    const resolvedContent = await resolvePromptSyntax(content);
-    
+    const { content: resolvedContent, promptId } = content
+      ? await resolvePromptSyntax(content, templateValues)
+      : { content: '', promptId: null };
+
     // If resolved content is empty (prompt not found), don't send
-    if (!resolvedContent.trim()) {
+    if (content && !resolvedContent.trim()) {
+      return;
+    }
+
+    if (!resolvedContent.trim() && attachments.length === 0) {
       return;
     }
 
@@ -164,7 +375,7 @@ export function Chat({ userName, chatId, onChatCreated }: ChatProps) {
         }
 
         const data = await response.json();
-        chatIdToUse = data.chat.id;
+        chatIdToUse = data.chat.id as string;
         
         // Update local state
         setCurrentChatId(chatIdToUse);
@@ -178,17 +389,99 @@ export function Chat({ userName, chatId, onChatCreated }: ChatProps) {
         return;
       }
     }
-    const userMessage: Message = {
+    if (compareModels) {
+      await streamComparison(chatIdToUse, messages, resolvedContent, attachments, compareModels, promptId);
+    } else {
+      await streamCompletion(chatIdToUse, messages, resolvedContent, attachments, selectedModel, promptId);
+    }
+  };
+
+  /**
+   * Edit an earlier user message and regenerate the conversation from that point
+   * The old continuation is kept on the server as an alternate branch, the attachments are kept
+   * @param messageId - The user message being edited
+   * @param content - The new message content
+   */
+  const editMessage = async (messageId: string, content: string): Promise<void> => {
+    const index = messages.findIndex((message) => message.id === messageId);
+    if (index === -1 || !currentChatId) {
+      return;
+    }
+
+    const attachments = messages[index].attachments ?? [];
+    const { content: resolvedContent, promptId } = content
+      ? await resolvePromptSyntax(content)
+      : { content: '', promptId: null };
+    if (content && !resolvedContent.trim()) {
+      return;
+    }
+
+    await streamCompletion(currentChatId, messages.slice(0, index), resolvedContent, attachments, selectedModel, promptId);
+  };
+
+  /**
+   * Generate an alternate reply for an assistant message, keeping the existing one as a branch
+   * @param messageId - The assistant message to regenerate
+   * @param model - The model to use, defaults to the selected model
+   */
+  const regenerateMessage = async (messageId: string, model?: string): Promise<void> => {
+    const index = messages.findIndex((message) => message.id === messageId);
+    if (index === -1 || !currentChatId) {
+      return;
+    }
+
+    await streamCompletion(currentChatId, messages.slice(0, index), null, [], model);
+  };
+
+  /**
+   * Send a user message after the given history and render the streamed response as tokens arrive
+   * @param chatIdToUse - The chat the messages belong to
+   * @param history - The messages before the new user message
+   * @param content - The user message content, or null to regenerate the reply to the last message in history
+   * @param attachments - Files attached to the new user message
+   * @param model - The model to use, defaults to the selected model
+   * @param promptId - The saved prompt the new user message was written with; when regenerating,
+   * the prompt of the last user message in history is used
+   */
+  const streamCompletion = async (
+    chatIdToUse: string,
+    history: Message[],
+    content: string | null,
+    attachments: AttachmentInfo[] = [],
+    model: string = selectedModel,
+    promptId: string | null = null
+  ): Promise<void> => {
+    // Messages that only exist in the browser are not part of the conversation
+    const savedHistory = history.filter((message) => !message.local);
+    const parentId = savedHistory.length > 0 ? savedHistory[savedHistory.length - 1].id : null;
+    const regenerate = content === null;
+    const requestPromptId = regenerate
+      ? savedHistory.findLast((message) => message.role === 'user')?.promptId ?? null
+      : promptId;
+
+    if (regenerate && !parentId) {
+      return;
+    }
+
+    const userMessage: Message | null = regenerate ? null : {
       id: Date.now().toString(),
       role: 'user',
-      content: resolvedContent,
+      content,
       timestamp: new Date(),
+      parentId,
+      attachments,
+      promptId,
     };
 
-    setMessages((prev) => [...prev, userMessage]);
+    setMessages(userMessage ? [...history, userMessage] : history);
     setIsLoading(true);
     setStreamingMessage('');
 
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    let fullText = '';
+    let assistantMessageId = (Date.now() + 1).toString();
+
     try {
       const response = await fetch('/api/completions', {
         method: 'POST',
@@ -196,13 +489,14 @@ export function Chat({ userName, chatId, onChatCreated }: ChatProps) {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          messages: [...messages, userMessage].map(({ role, content }) => ({
-            role,
-            content,
-          })),
-          model: selectedModel,
+          messages: toRequestMessages(userMessage ? [...savedHistory, userMessage] : savedHistory),
+          model,
           chatId: chatIdToUse,
+          parentId,
+          regenerate,
+          promptId: requestPromptId,
         }),
+        signal: abortController.signal,
       });
 
       if (!response.ok) {
@@ -210,38 +504,112 @@ export function Chat({ userName, chatId, onChatCreated }: ChatProps) {
         throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
       }
 
-      const data = await response.json();
-      
-      // Check if response has the expected structure
-      if (!data.message || !data.message.content) {
-        console.error('Unexpected response structure:', data);
+      if (!response.body) {
         throw new Error('Invalid response from server');
       }
 
-      // Typewriter effect: simulate streaming by adding words one by one
-      // This creates a more engaging user experience than showing the full message at once
-      const fullText = data.message.content;
-      const words = fullText.split(' ');
-      let currentText = '';
-
-      // Display words with 20ms delay between each word for smooth animation
-      for (let i = 0; i < words.length; i++) {
-        await new Promise((resolve) => setTimeout(resolve, 20));
-        currentText += (i > 0 ? ' ' : '') + words[i];
-        setStreamingMessage(currentText);
+      // Render tokens as they arrive from the server
+      let streamError: string | null = null;
+      let usage: TokenUsage | undefined;
+      let sources: Citation[] | undefined;
+      let schemaValid: boolean | undefined;
+
+      for await (const event of readSSEStream(response.body)) {
+        if (event.type === 'start') {
+          // Switch to the saved ids so later edits and replies can refer to them
+          const { userMessageId } = event;
+          if (userMessage && userMessageId) {
+            setMessages((prev) =>
+              prev.map((message) =>
+                message.id === userMessage.id ? { ...message, id: userMessageId } : message
+              )
+            );
+          }
+          if (event.assistantMessageId) {
+            assistantMessageId = event.assistantMessageId;
+          }
+        } else if (event.type === 'sources') {
+          sources = event.sources;
+        } else if (event.type === 'delta') {
+          fullText += event.content;
+          setStreamingMessage(fullText);
+        } else if (event.type === 'tool_call') {
+          // The text streamed so far belongs to the step that requested the tools
+          const toolCallMessage: Message = {
+            id: event.messageId,
+            role: 'assistant',
+            content: event.content,
+            timestamp: new Date(),
+            model,
+            toolCalls: event.toolCalls,
+            ...event.usage,
+          };
+          setMessages((prev) => [...prev, toolCallMessage]);
+          fullText = '';
+          setStreamingMessage('');
+        } else if (event.type === 'tool_result') {
+          const toolMessage: Message = {
+            id: event.messageId,
+            role: 'tool',
+            content: event.content,
+            timestamp: new Date(),
+            toolCallId: event.toolCallId,
+            toolName: event.toolName,
+          };
+          setMessages((prev) => [...prev, toolMessage]);
+        } else if (event.type === 'retry') {
+          // The reply didn't match the response schema, the server asks the model to repair it
+          fullText = '';
+          setStreamingMessage('');
+        } else if (event.type === 'done') {
+          usage = event.usage;
+          schemaValid = event.schemaValid;
+        } else if (event.type === 'error') {
+          streamError = event.error;
+        }
       }
 
-      // Add final message after typewriter completes
-      const assistantMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        role: 'assistant',
-        content: fullText,
-        timestamp: new Date(),
-      };
+      // Keep whatever was produced, even if the stream failed halfway
+      if (fullText) {
+        const assistantMessage: Message = {
+          id: assistantMessageId,
+          role: 'assistant',
+          content: fullText,
+          timestamp: new Date(),
+          model,
+          sources,
+          schemaValid,
+          ...usage,
+        };
 
-      setMessages((prev) => [...prev, assistantMessage]);
+        setMessages((prev) => [...prev, assistantMessage]);
+      }
       setStreamingMessage('');
+
+      if (streamError) {
+        throw new Error(streamError);
+      }
+
+      // Reload the active branch so sibling counts include the new messages
+      loadMessages(chatIdToUse, false);
     } catch (error: unknown) {
+      // Stopped by the user: keep the partial answer, the server saves it as truncated
+      if (abortController.signal.aborted) {
+        if (fullText) {
+          const truncatedMessage: Message = {
+            id: assistantMessageId,
+            role: 'assistant',
+            content: fullText,
+            timestamp: new Date(),
+            model,
+            truncated: true,
+          };
+          setMessages((prev) => [...prev, truncatedMessage]);
+        }
+        setStreamingMessage('');
+        return;
+      }
+
       console.error('Error sending message:', error);
       const errorMessageText = error instanceof Error 
         ? error.message 
@@ -252,14 +620,221 @@ export function Chat({ userName, chatId, onChatCreated }: ChatProps) {
         role: 'assistant',
         content: `Error: ${errorMessageText}`,
         timestamp: new Date(),
+        local: true,
       };
       setMessages((prev) => [...prev, errorMessage]);
       setStreamingMessage('');
     } finally {
+      abortControllerRef.current = null;
       setIsLoading(false);
+      loadBudget();
     }
   };
 
+  /**
+   * Send a user message to several models at once and stream their replies side by side
+   * The first request saves the user message; the other models reply to the saved message as
+   * regenerations, so every reply becomes a sibling branch with the same comparisonId
+   * @param chatIdToUse - The chat the messages belong to
+   * @param history - The messages before the new user message
+   * @param content - The user message content
+   * @param attachments - Files attached to the new user message
+   * @param models - The models to compare
+   * @param promptId - The saved prompt the new user message was written with
+   */
+  const streamComparison = async (
+    chatIdToUse: string,
+    history: Message[],
+    content: string,
+    attachments: AttachmentInfo[],
+    models: string[],
+    promptId: string | null
+  ): Promise<void> => {
+    const savedHistory = history.filter((message) => !message.local);
+    const parentId = savedHistory.length > 0 ? savedHistory[savedHistory.length - 1].id : null;
+    const comparisonId = crypto.randomUUID();
+
+    const userMessage: Message = {
+      id: Date.now().toString(),
+      role: 'user',
+      content,
+      timestamp: new Date(),
+      parentId,
+      attachments,
+      promptId,
+    };
+
+    setMessages([...history, userMessage]);
+    setComparison(models.map((model) => ({ model, content: '', status: 'streaming' })));
+    setIsLoading(true);
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    const requestMessages = toRequestMessages([...savedHistory, userMessage]);
+
+    const updateColumn = (index: number, update: Partial<ComparisonColumn>) => {
+      setComparison((prev) => prev && prev.map((column, i) => (i === index ? { ...column, ...update } : column)));
+    };
+
+    // Resolved with the id of the saved user message once the first request has created it
+    let resolveUserMessageId: (id: string | null) => void = () => {};
+    const savedUserMessageId = new Promise<string | null>((resolve) => {
+      resolveUserMessageId = resolve;
+    });
+
+    const streamColumn = async (model: string, index: number): Promise<void> => {
+      let fullText = '';
+
+      try {
+        const replyToId = index === 0 ? parentId : await savedUserMessageId;
+        if (index > 0 && !replyToId) {
+          throw new Error('Het bericht kon niet worden opgeslagen');
+        }
+        // Timed from here, so waiting for the first request to save the user message doesn't count
+        const startedAt = performance.now();
+
+        const response = await fetch('/api/completions', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            messages: requestMessages,
+            model,
+            chatId: chatIdToUse,
+            parentId: replyToId,
+            regenerate: index > 0,
+            promptId,
+            comparisonId,
+          }),
+          signal: abortController.signal,
+        });
+
+        if (!response.ok) {
+          const errorData = await response.json();
+          throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+        }
+
+        if (!response.body) {
+          throw new Error('Invalid response from server');
+        }
+
+        let streamError: string | null = null;
+
+        for await (const event of readSSEStream(response.body)) {
+          if (event.type === 'start') {
+            if (index === 0 && event.userMessageId) {
+              const { userMessageId } = event;
+              setMessages((prev) =>
+                prev.map((message) =>
+                  message.id === userMessage.id ? { ...message, id: userMessageId } : message
+                )
+              );
+              resolveUserMessageId(userMessageId);
+            }
+            updateColumn(index, { messageId: event.assistantMessageId });
+          } else if (event.type === 'delta') {
+            if (!fullText) {
+              updateColumn(index, { firstTokenMs: performance.now() - startedAt });
+            }
+            fullText += event.content;
+            updateColumn(index, { content: fullText });
+          } else if (event.type === 'tool_call' || event.type === 'retry') {
+            // Only the final reply is compared, tool steps and rejected replies are not
+            fullText = '';
+            updateColumn(index, { content: '' });
+          } else if (event.type === 'done') {
+            updateColumn(index, { usage: event.usage });
+          } else if (event.type === 'error') {
+            streamError = event.error;
+          }
+        }
+
+        updateColumn(index, {
+          status: streamError ? 'error' : 'done',
+          error: streamError ?? undefined,
+          latencyMs: performance.now() - startedAt,
+        });
+      } catch (error: unknown) {
+        if (!abortController.signal.aborted) {
+          console.error(`Error comparing ${model}:`, error);
+        }
+        updateColumn(index, {
+          status: 'error',
+          error: abortController.signal.aborted
+            ? 'Gestopt'
+            : error instanceof Error ? error.message : 'Het antwoord kon niet worden gegenereerd',
+        });
+      } finally {
+        // Don't keep the other models waiting when the first request failed
+        if (index === 0) {
+          resolveUserMessageId(null);
+        }
+      }
+    };
+
+    try {
+      await Promise.all(models.map(streamColumn));
+    } finally {
+      abortControllerRef.current = null;
+      setIsLoading(false);
+      loadBudget();
+    }
+  };
+
+  /**
+   * Continue the chat with one of the compared replies: its branch becomes the active
+   * branch and its model the chat's model
+   * @param column - The picked reply
+   */
+  const pickComparisonWinner = async (column: ComparisonColumn) => {
+    if (!currentChatId || !column.messageId) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/chats/${currentChatId}/compare`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ messageId: column.messageId }),
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to pick comparison winner');
+      }
+
+      const data = await response.json();
+      setMessages(parseMessages(data.messages || []));
+      setSelectedModel(data.model || column.model);
+      setComparison(null);
+      setCompareModels(null);
+    } catch (error) {
+      console.error('Error picking comparison winner:', error);
+    }
+  };
+
+  /**
+   * Close the comparison without picking a reply, showing the branch that is active on the server
+   */
+  const dismissComparison = () => {
+    setComparison(null);
+    if (currentChatId) {
+      loadMessages(currentChatId, false);
+    }
+  };
+
+  /**
+   * Stop the in-flight generation, aborting the request to /api/completions
+   */
+  const stopGeneration = (): void => {
+    abortControllerRef.current?.abort();
+  };
+
+  // No new messages, edits or branch switches until the user has picked a compared reply
+  const isBusy = isLoading || comparison !== null;
+
   /**
    * Get greeting based on time of day
    * @returns Greeting string ('Morning', 'Afternoon', or 'Evening')
@@ -291,11 +866,30 @@ export function Chat({ userName, chatId, onChatCreated }: ChatProps) {
               </div>
             ) : (
               messages.map((message) => (
-                <MessageComponent key={message.id} message={message} />
+                <MessageComponent
+                  key={message.id}
+                  message={message}
+                  isHighlighted={message.id === focusMessage?.messageId}
+                  onEdit={isBusy ? undefined : (content) => editMessage(message.id, content)}
+                  onSwitchBranch={isBusy ? undefined : switchBranch}
+                  onRegenerate={isBusy ? undefined : (model) => regenerateMessage(message.id, model)}
+                  onFork={
+                    isBusy || message.id === messages[messages.length - 1].id
+                      ? undefined
+                      : () => forkFromMessage(message.id)
+                  }
+                />
               ))
             )}
           </>
         )}
+        {comparison && (
+          <CompareView
+            columns={comparison}
+            onPick={isLoading ? undefined : pickComparisonWinner}
+            onDismiss={dismissComparison}
+          />
+        )}
         {streamingMessage && (
           <MessageComponent
             message={{
@@ -306,21 +900,49 @@ export function Chat({ userName, chatId, onChatCreated }: ChatProps) {
             }}
           />
         )}
-        {isLoading && !streamingMessage && (
+        {isLoading && !streamingMessage && !comparison && (
           <div className={styles.loading}>
             <span className={styles.thinking}>Thinking</span>
           </div>
         )}
       </div>
 
+      {budget?.warning && (
+        <div className={styles.budgetWarning}>
+          {budget.exceeded
+            ? 'Je maandbudget is op. Neem contact op met een beheerder om je limiet te verhogen.'
+            : `Je hebt ${Math.floor(budget.usedRatio * 100)}% van je maandbudget gebruikt.`}
+        </div>
+      )}
+
       <div className={styles.inputSection}>
         <ChatInput 
           onSend={sendMessage} 
-          disabled={isLoading}
+          onStop={stopGeneration}
+          disabled={isBusy || (compareModels !== null && compareModels.length < 2)}
+          isGenerating={isLoading}
           selectedModel={selectedModel}
-          onModelChange={setSelectedModel}
+          onModelChange={handleModelChange}
+          onOpenSettings={currentChatId ? () => setShowSettings(true) : undefined}
+          compareModels={compareModels}
+          onCompareModelsChange={setCompareModels}
+          notice={
+            comparison && !isLoading
+              ? 'Kies een van de antwoorden om het gesprek voort te zetten.'
+              : compareModels && compareModels.length < 2
+                ? 'Kies minstens 2 modellen om te vergelijken.'
+                : null
+          }
         />
       </div>
+
+      {currentChatId && (
+        <ChatSettings
+          chatId={currentChatId}
+          isOpen={showSettings}
+          onClose={() => setShowSettings(false)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,110 @@
+'use client';
+
+import { useState } from 'react';
+
+import { ChatFolderSummary } from '@/types/chat';
+
+import styles from './ChatBulkBar.module.css';
+
+interface ChatBulkBarProps {
+  selectedCount: number;
+  folders: ChatFolderSummary[];
+  onMove: (folderId: string | null) => void;
+  onPin: (pinned: boolean) => void;
+  onArchive: () => void;
+  onTag: (tag: string, remove: boolean) => void;
+  onDelete: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * ChatBulkBar component with the actions for the chats selected in the chat list
+ * @param selectedCount - Number of selected chats; the actions are disabled without a selection
+ * @param folders - Folders the chats can be moved to
+ * @param onMove - Callback with the folder to move the chats to, or null to move them out of their folder
+ * @param onPin - Callback to pin or unpin the chats
+ * @param onArchive - Callback to archive the chats
+ * @param onTag - Callback with a tag to add to the chats, or to remove from them
+ * @param onDelete - Callback to delete the chats
+ * @param onCancel - Callback to stop selecting
+ */
+export function ChatBulkBar({
+  selectedCount,
+  folders,
+  onMove,
+  onPin,
+  onArchive,
+  onTag,
+  onDelete,
+  onCancel,
+}: ChatBulkBarProps) {
+  const [tag, setTag] = useState('');
+  const disabled = selectedCount === 0;
+
+  const handleTag = (remove: boolean) => {
+    if (!tag.trim()) return;
+    onTag(tag.trim(), remove);
+    setTag('');
+  };
+
+  return (
+    <div className={styles.bulkBar}>
+      <div className={styles.row}>
+        <span className={styles.count}>{selectedCount} geselecteerd</span>
+        <button className={styles.button} onClick={onCancel}>
+          Klaar
+        </button>
+      </div>
+      <div className={styles.row}>
+        <select
+          className={styles.select}
+          value=""
+          onChange={(e) => onMove(e.target.value === 'none' ? null : e.target.value)}
+          disabled={disabled}
+          aria-label="Verplaatsen naar map"
+        >
+          <option value="" disabled>
+            Verplaatsen naar...
+          </option>
+          <option value="none">Geen map</option>
+          {folders.map((folder) => (
+            <option key={folder.id} value={folder.id}>
+              {folder.name}
+            </option>
+          ))}
+        </select>
+        <button className={styles.button} onClick={() => onPin(true)} disabled={disabled}>
+          Vastzetten
+        </button>
+        <button className={styles.button} onClick={() => onPin(false)} disabled={disabled}>
+          Losmaken
+        </button>
+      </div>
+      <div className={styles.row}>
+        <input
+          type="text"
+          className={styles.input}
+          value={tag}
+          onChange={(e) => setTag(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleTag(false)}
+          placeholder="Tag"
+          disabled={disabled}
+        />
+        <button className={styles.button} onClick={() => handleTag(false)} disabled={disabled || !tag.trim()}>
+          Toevoegen
+        </button>
+        <button className={styles.button} onClick={() => handleTag(true)} disabled={disabled || !tag.trim()}>
+          Weghalen
+        </button>
+      </div>
+      <div className={styles.row}>
+        <button className={styles.button} onClick={onArchive} disabled={disabled}>
+          Archiveren
+        </button>
+        <button className={`${styles.button} ${styles.danger}`} onClick={onDelete} disabled={disabled}>
+          Verwijderen
+        </button>
+      </div>
+    </div>
+  );
+}
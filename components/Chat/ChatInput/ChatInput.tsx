@@ -3,6 +3,10 @@
 import { useState, useEffect, useRef } from 'react';
 
 import { ModelSelector } from '@/components/ModelSelector/ModelSelector/ModelSelector';
+import { PromptVariablesForm } from '@/components/Chat/PromptVariablesForm/PromptVariablesForm';
+import { AttachmentInfo } from '@/types/chat';
+import { formatFileSize } from '@/lib/format';
+import { getTemplateVariables, parsePromptCommand, TemplateVariable } from '@/lib/promptTemplate';
 
 import styles from './ChatInput.module.css';
 
@@ -13,25 +17,55 @@ interface Prompt {
 }
 
 interface ChatInputProps {
-  onSend: (message: string) => void;
+  onSend: (message: string, attachments: AttachmentInfo[], templateValues?: Record<string, string>) => void;
+  onStop?: () => void;
   disabled?: boolean;
+  isGenerating?: boolean;
   selectedModel: string;
   onModelChange: (model: string) => void;
+  onOpenSettings?: () => void;
+  compareModels?: string[] | null;
+  onCompareModelsChange?: (models: string[] | null) => void;
+  notice?: string | null;
 }
 
 /**
  * ChatInput component that handles user message input and submission
- * @param onSend - Callback function called when message is submitted
+ * @param onSend - Callback function called with the message, its uploaded attachments and, for a
+ * prompt template, the filled in variables when submitted
+ * @param onStop - Callback function called when the in-flight generation should be stopped
  * @param disabled - Whether the input is disabled
+ * @param isGenerating - Whether a response is currently being generated
  * @param selectedModel - Currently selected AI model
  * @param onModelChange - Callback function called when model is changed
+ * @param onOpenSettings - Callback function called when the chat settings should be opened
+ * @param compareModels - Models the next message is sent to side by side, or null outside compare mode
+ * @param onCompareModelsChange - Callback function called when compare mode or its models change
+ * @param notice - Short explanation shown above the input, e.g. why sending is disabled
  */
-export function ChatInput({ onSend, disabled, selectedModel, onModelChange }: ChatInputProps) {
+export function ChatInput({
+  onSend,
+  onStop,
+  disabled,
+  isGenerating,
+  selectedModel,
+  onModelChange,
+  onOpenSettings,
+  compareModels,
+  onCompareModelsChange,
+  notice,
+}: ChatInputProps) {
   const [input, setInput] = useState('');
   const [prompts, setPrompts] = useState<Prompt[]>([]);
   const [suggestion, setSuggestion] = useState<string>('');
   const [showSuggestion, setShowSuggestion] = useState(false);
-  const inputRef = useRef<HTMLInputElement>(null);
+  const [attachments, setAttachments] = useState<AttachmentInfo[]>([]);
+  const [uploadingCount, setUploadingCount] = useState(0);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  // The prompt template whose variables are being filled in before the message is sent
+  const [templatePrompt, setTemplatePrompt] = useState<{ title: string; variables: TemplateVariable[] } | null>(null);
+  const inputRef = useRef<HTMLTextAreaElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
   // Load prompts on mount
   useEffect(() => {
@@ -50,9 +84,65 @@ export function ChatInput({ onSend, disabled, selectedModel, onModelChange }: Ch
     }
   };
 
-  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  // Grow the textarea with its content, up to the max height set in CSS
+  useEffect(() => {
+    const textarea = inputRef.current;
+    if (textarea) {
+      textarea.style.height = 'auto';
+      textarea.style.height = `${textarea.scrollHeight}px`;
+    }
+  }, [input]);
+
+  /**
+   * Upload the selected files so they can be sent with the next message
+   */
+  const handleFilesSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    setUploadError(null);
+
+    await Promise.all(files.map(async (file) => {
+      setUploadingCount((count) => count + 1);
+      try {
+        const formData = new FormData();
+        formData.append('file', file);
+        const response = await fetch('/api/attachments', {
+          method: 'POST',
+          body: formData,
+        });
+
+        const data = await response.json();
+        if (!response.ok) {
+          setUploadError(`${file.name}: ${data.error || 'Uploaden mislukt'}`);
+          return;
+        }
+
+        setAttachments((prev) => [...prev, data.attachment]);
+      } catch (error) {
+        console.error('Error uploading attachment:', error);
+        setUploadError(`${file.name}: Uploaden mislukt`);
+      } finally {
+        setUploadingCount((count) => count - 1);
+      }
+    }));
+  };
+
+  /**
+   * Remove an uploaded attachment before the message is sent
+   */
+  const removeAttachment = async (attachmentId: string) => {
+    setAttachments((prev) => prev.filter((attachment) => attachment.id !== attachmentId));
+    try {
+      await fetch(`/api/attachments/${attachmentId}`, { method: 'DELETE' });
+    } catch (error) {
+      console.error('Error deleting attachment:', error);
+    }
+  };
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
     const value = e.target.value;
     setInput(value);
+    setTemplatePrompt(null);
 
     // Check if input starts with "/"
     if (value.startsWith('/')) {
@@ -94,7 +184,14 @@ export function ChatInput({ onSend, disabled, selectedModel, onModelChange }: Ch
     }
   };
 
-  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    // Enter sends the message, Shift+Enter starts a new line
+    if (e.key === 'Enter' && !e.shiftKey && !e.nativeEvent.isComposing) {
+      e.preventDefault();
+      e.currentTarget.form?.requestSubmit();
+      return;
+    }
+
     // Tab key to complete suggestion
     if (e.key === 'Tab' && showSuggestion && suggestion) {
       e.preventDefault();
@@ -117,78 +214,218 @@ export function ChatInput({ onSend, disabled, selectedModel, onModelChange }: Ch
     }
   };
 
+  const canSend = (input.trim() !== '' || attachments.length > 0) && uploadingCount === 0;
+
+  /**
+   * Send the message and clear the input
+   */
+  const send = (templateValues?: Record<string, string>) => {
+    onSend(input.trim(), attachments, templateValues);
+    setInput('');
+    setAttachments([]);
+    setUploadError(null);
+    setSuggestion('');
+    setShowSuggestion(false);
+    setTemplatePrompt(null);
+  };
+
   const handleSubmit = (e: React.FormEvent<HTMLFormElement>): void => {
     e.preventDefault();
-    if (input.trim() && !disabled) {
-      onSend(input.trim());
-      setInput('');
-      setSuggestion('');
-      setShowSuggestion(false);
+    if (!canSend || disabled) {
+      return;
     }
+
+    // A prompt template ("/title") asks for its variables first
+    const promptTitle = parsePromptCommand(input)?.title.toLowerCase();
+    const prompt = promptTitle ? prompts.find((p) => p.title.toLowerCase() === promptTitle) : undefined;
+    const variables = prompt ? getTemplateVariables(prompt.content) : [];
+    if (prompt && variables.length > 0) {
+      setTemplatePrompt({ title: prompt.title, variables });
+      return;
+    }
+
+    send();
   };
 
   return (
-    <form onSubmit={handleSubmit} className={styles.form} suppressHydrationWarning>
-      <div className={styles.inputWrapper}>
-        <div className={styles.inputContainer}>
-          <input
-            ref={inputRef}
-            type="text"
-            value={input}
-            onChange={handleInputChange}
-            onKeyDown={handleKeyDown}
-            placeholder="What do you want to know?"
-            disabled={disabled}
-            className={styles.input}
-            suppressHydrationWarning
-          />
-          {showSuggestion && suggestion && (
-            <span className={styles.suggestion}>
-              {suggestion}
-            </span>
+    <>
+      {templatePrompt && (
+        <PromptVariablesForm
+          key={templatePrompt.title}
+          promptTitle={templatePrompt.title}
+          variables={templatePrompt.variables}
+          onSubmit={send}
+          onCancel={() => {
+            setTemplatePrompt(null);
+            inputRef.current?.focus();
+          }}
+        />
+      )}
+      <form onSubmit={handleSubmit} className={styles.form} suppressHydrationWarning>
+        {(attachments.length > 0 || uploadingCount > 0 || uploadError) && (
+          <div className={styles.attachments}>
+            {attachments.map((attachment) => (
+              <div key={attachment.id} className={styles.attachment}>
+                <span className={styles.attachmentName}>{attachment.fileName}</span>
+                <span className={styles.attachmentSize}>{formatFileSize(attachment.size)}</span>
+                <button
+                  type="button"
+                  className={styles.removeAttachment}
+                  onClick={() => removeAttachment(attachment.id)}
+                  aria-label={`${attachment.fileName} verwijderen`}
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+            {uploadingCount > 0 && <span className={styles.attachmentSize}>Uploaden...</span>}
+            {uploadError && <span className={styles.uploadError}>{uploadError}</span>}
+          </div>
+        )}
+        {notice && <div className={styles.notice}>{notice}</div>}
+        <div className={styles.inputWrapper}>
+          <div className={styles.inputContainer}>
+            <textarea
+              ref={inputRef}
+              rows={1}
+              value={input}
+              onChange={handleInputChange}
+              onKeyDown={handleKeyDown}
+              placeholder="What do you want to know?"
+              disabled={disabled}
+              className={styles.input}
+              suppressHydrationWarning
+            />
+            {showSuggestion && suggestion && (
+              <span className={styles.suggestion}>
+                {suggestion}
+              </span>
+            )}
+          </div>
+
+          {isGenerating && onStop ? (
+            <button
+              type="button"
+              onClick={onStop}
+              className={styles.sendButton}
+              title="Stop generating"
+              suppressHydrationWarning
+            >
+              <svg
+                viewBox="0 0 24 24"
+                fill="currentColor"
+                stroke="none"
+              >
+                <rect x="6" y="6" width="12" height="12" rx="2"></rect>
+              </svg>
+            </button>
+          ) : (
+            <button
+              type="submit"
+              disabled={disabled || !canSend}
+              className={styles.sendButton}
+              title="Send message"
+              suppressHydrationWarning
+            >
+              <svg
+                viewBox="0 0 24 24"
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="2"
+                strokeLinecap="round"
+                strokeLinejoin="round"
+              >
+                <line x1="22" y1="2" x2="11" y2="13"></line>
+                <polygon points="22 2 15 22 11 13 2 9 22 2"></polygon>
+              </svg>
+            </button>
           )}
         </div>
-
-        <button
-            type="submit"
-            disabled={disabled || !input.trim()}
-            className={styles.sendButton}
-            title="Send message"
-            suppressHydrationWarning
-          >
-            <svg
-              viewBox="0 0 24 24"
-              fill="none"
-              stroke="currentColor"
-              strokeWidth="2"
-              strokeLinecap="round"
-              strokeLinejoin="round"
+        
+        <div className={styles.controls}>
+          <div className={styles.leftControls}>
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              accept="image/png,image/jpeg,image/gif,image/webp,application/pdf,text/plain,text/markdown,text/csv,application/json,.md,.txt,.csv,.json"
+              className={styles.fileInput}
+              onChange={handleFilesSelected}
+            />
+            <button
+              type="button"
+              className={styles.iconButton}
+              disabled={disabled}
+              onClick={() => fileInputRef.current?.click()}
+              title="Add attachment"
+              suppressHydrationWarning
             >
-              <line x1="22" y1="2" x2="11" y2="13"></line>
-              <polygon points="22 2 15 22 11 13 2 9 22 2"></polygon>
-            </svg>
-          </button>
-      </div>
-      
-      <div className={styles.controls}>
-        <div className={styles.leftControls}>
-          <button
-            type="button"
-            className={styles.iconButton}
-            disabled={disabled}
-            title="Add attachment"
-            suppressHydrationWarning
-          >
-            +
-          </button>
-          <div className={styles.modelSelector}>
-            <ModelSelector selectedModel={selectedModel} onModelChange={onModelChange} />
+              +
+            </button>
+            {onCompareModelsChange && (
+              <button
+                type="button"
+                className={`${styles.iconButton} ${compareModels ? styles.iconButtonActive : ''}`}
+                disabled={isGenerating}
+                onClick={() => onCompareModelsChange(compareModels ? null : [selectedModel])}
+                title={compareModels ? 'Vergelijken uitzetten' : 'Modellen vergelijken'}
+                aria-pressed={Boolean(compareModels)}
+                suppressHydrationWarning
+              >
+                <svg
+                  viewBox="0 0 24 24"
+                  width="16"
+                  height="16"
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth="1.5"
+                  strokeLinejoin="round"
+                >
+                  <rect x="3" y="4" width="7" height="16" rx="1"></rect>
+                  <rect x="14" y="4" width="7" height="16" rx="1"></rect>
+                </svg>
+              </button>
+            )}
+            <div className={styles.modelSelector}>
+              <ModelSelector
+                selectedModel={selectedModel}
+                onModelChange={onModelChange}
+                compareModels={compareModels}
+                onCompareModelsChange={onCompareModelsChange}
+              />
+            </div>
           </div>
-        </div>
-        <div className={styles.rightControls}>
+          <div className={styles.rightControls}>
+            {onOpenSettings && (
+              <button
+                type="button"
+                className={styles.iconButton}
+                onClick={onOpenSettings}
+                title="Chat instellingen"
+                suppressHydrationWarning
+              >
+                <svg
+                  viewBox="0 0 24 24"
+                  width="16"
+                  height="16"
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth="1.5"
+                  strokeLinecap="round"
+                >
+                  <line x1="4" y1="6" x2="20" y2="6"></line>
+                  <line x1="4" y1="12" x2="20" y2="12"></line>
+                  <line x1="4" y1="18" x2="20" y2="18"></line>
+                  <circle cx="9" cy="6" r="2" fill="var(--background)"></circle>
+                  <circle cx="15" cy="12" r="2" fill="var(--background)"></circle>
+                  <circle cx="7" cy="18" r="2" fill="var(--background)"></circle>
+                </svg>
+              </button>
+            )}
           </div>
-        
-      </div>
-    </form>
+          
+        </div>
+      </form>
+    </>
   );
 }
@@ -3,6 +3,7 @@
 import { useState, useCallback } from 'react';
 import { signOut } from 'next-auth/react';
 import { useRouter } from 'next/navigation';
+import Link from 'next/link';
 import { ChatList } from '@/components/Chat/ChatList/ChatList';
 import { Chat } from '@/components/Chat/Chat/Chat';
 import styles from './ChatLayout.module.css';
@@ -18,6 +19,7 @@ interface ChatLayoutProps {
 export function ChatLayout({ userName }: ChatLayoutProps) {
   const router = useRouter();
   const [selectedChatId, setSelectedChatId] = useState<string | null>(null);
+  const [focusMessage, setFocusMessage] = useState<{ chatId: string; messageId: string | null } | null>(null);
   const [chatListKey, setChatListKey] = useState(0);
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
 
@@ -37,6 +39,34 @@ export function ChatLayout({ userName }: ChatLayoutProps) {
    */
   const handleChatSelect = useCallback((chatId: string | null) => {
     setSelectedChatId(chatId);
+    setFocusMessage(null);
+  }, []);
+
+  /**
+   * Handle search result selection: open the chat on the branch that
+   * contains the matching message and scroll to it
+   */
+  const handleSearchResultSelect = useCallback(async (chatId: string, messageId: string | null) => {
+    if (messageId) {
+      try {
+        const response = await fetch(`/api/chats/${chatId}/branch`, {
+          method: 'PUT',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ messageId }),
+        });
+
+        if (!response.ok) {
+          throw new Error('Failed to switch branch');
+        }
+      } catch (error) {
+        console.error('Error opening search result:', error);
+      }
+    }
+
+    setSelectedChatId(chatId);
+    setFocusMessage({ chatId, messageId });
   }, []);
 
   /**
@@ -102,6 +132,7 @@ export function ChatLayout({ userName }: ChatLayoutProps) {
           selectedChatId={selectedChatId} 
           onChatSelect={handleChatSelect}
           onNewChat={handleNewChat}
+          onSearchResultSelect={handleSearchResultSelect}
           isExpanded={isSidebarOpen}
         />
       </div>
@@ -119,15 +150,24 @@ export function ChatLayout({ userName }: ChatLayoutProps) {
               </svg>
             </button>
           )}
-          <button className={styles.logoutButton} onClick={handleLogout}>
-            Uitloggen
-          </button>
+          <div className={styles.headerActions}>
+            <Link href="/knowledge" className={styles.logoutButton}>
+              Kennisbanken
+            </Link>
+            <Link href="/usage" className={styles.logoutButton}>
+              Verbruik
+            </Link>
+            <button className={styles.logoutButton} onClick={handleLogout}>
+              Uitloggen
+            </button>
+          </div>
         </div>
         <div className={styles.chatArea}>
           <Chat 
             userName={userName} 
             chatId={selectedChatId}
             onChatCreated={handleChatCreated}
+            focusMessage={focusMessage}
           />
         </div>
       </div>
@@ -4,7 +4,15 @@ import { useEffect, useState, useRef } from 'react';
 import styles from './ChatList.module.css';
 import { NewChatButton } from '@/components/Chat/NewChatButton/NewChatButton';
 import { NewPromptButton } from '@/components/Chat/NewPromptButton/NewPromptButton';
-import { PromptEditor } from '@/components/Chat/PromptEditor/PromptEditor';
+import { PromptEditor, PromptSharing } from '@/components/Chat/PromptEditor/PromptEditor';
+import { PromptCatalog } from '@/components/Chat/PromptCatalog/PromptCatalog';
+import { ChatSearch } from '@/components/Chat/ChatSearch/ChatSearch';
+import { ImportDialog } from '@/components/Chat/ImportDialog/ImportDialog';
+import { PromptImportDialog } from '@/components/Chat/PromptImportDialog/PromptImportDialog';
+import { ChatBulkBar } from '@/components/Chat/ChatBulkBar/ChatBulkBar';
+import { ArchiveDialog } from '@/components/Chat/ArchiveDialog/ArchiveDialog';
+import { TrashDialog } from '@/components/Chat/TrashDialog/TrashDialog';
+import { ChatBulkAction, ChatFolderSummary, PromptSummary } from '@/types/chat';
 
 
 interface Chat {
@@ -13,23 +21,26 @@ interface Chat {
   model: string;
   createdAt: string;
   updatedAt: string;
+  folderId: string | null;
+  tags: string[];
+  pinned: boolean;
   _count?: {
     messages: number;
   };
 }
 
-interface Prompt {
-  id: string;
-  title: string;
-  content: string;
-  createdAt: string;
-  updatedAt: string;
-}
+// Formats offered in the per-chat export menu
+const exportFormats = [
+  { format: 'md', label: 'Markdown' },
+  { format: 'json', label: 'JSON' },
+  { format: 'html', label: 'HTML' },
+];
 
 interface ChatListProps {
   selectedChatId: string | null;
   onChatSelect: (chatId: string | null) => void;
   onNewChat?: () => void;
+  onSearchResultSelect?: (chatId: string, messageId: string | null) => void;
   isExpanded?: boolean;
 }
 
@@ -38,30 +49,50 @@ interface ChatListProps {
  * @param selectedChatId - The currently selected chat ID
  * @param onChatSelect - Callback when a chat is selected
  * @param onNewChat - Callback when new chat button is clicked
+ * @param onSearchResultSelect - Callback when a search result is clicked
  * @param isExpanded - Whether the sidebar is expanded to show titles
  */
-export function ChatList({ selectedChatId, onChatSelect, onNewChat, isExpanded = false }: ChatListProps) {
+export function ChatList({ selectedChatId, onChatSelect, onNewChat, onSearchResultSelect, isExpanded = false }: ChatListProps) {
   const [chats, setChats] = useState<Chat[]>([]);
-  const [prompts, setPrompts] = useState<Prompt[]>([]);
+  const [prompts, setPrompts] = useState<PromptSummary[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [hoveredChatId, setHoveredChatId] = useState<string | null>(null);
   const [menuOpenChatId, setMenuOpenChatId] = useState<string | null>(null);
   const [editingChatId, setEditingChatId] = useState<string | null>(null);
-  const [editTitleValue, setEditTitleValue] = useState<string>('');
+  const [editValue, setEditValue] = useState<string>('');
+  // Whether the chat being edited gets a new title or new tags
+  const [editField, setEditField] = useState<'title' | 'tags'>('title');
+  const [folders, setFolders] = useState<ChatFolderSummary[]>([]);
+  const [collapsedFolderIds, setCollapsedFolderIds] = useState<string[]>([]);
+  const [newFolderName, setNewFolderName] = useState<string | null>(null);
+  const [editingFolderId, setEditingFolderId] = useState<string | null>(null);
+  const [editFolderName, setEditFolderName] = useState('');
+  // The folder id a chat is dragged over, or 'none' for the chats outside folders
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedChatIds, setSelectedChatIds] = useState<string[]>([]);
+  const [showBulkDeleteConfirm, setShowBulkDeleteConfirm] = useState(false);
   const [hoveredPromptId, setHoveredPromptId] = useState<string | null>(null);
   const [menuOpenPromptId, setMenuOpenPromptId] = useState<string | null>(null);
   const [editingPromptId, setEditingPromptId] = useState<string | null>(null);
-  const [editingPrompt, setEditingPrompt] = useState<Prompt | null>(null);
+  const [editingPrompt, setEditingPrompt] = useState<PromptSummary | null>(null);
   const [showDeleteAllConfirm, setShowDeleteAllConfirm] = useState(false);
   const [showDeleteAllPromptsConfirm, setShowDeleteAllPromptsConfirm] = useState(false);
   const [showDeleteAllEverythingConfirm, setShowDeleteAllEverythingConfirm] = useState(false);
   const [showPromptEditor, setShowPromptEditor] = useState(false);
+  const [showImportDialog, setShowImportDialog] = useState(false);
+  const [showPromptImportDialog, setShowPromptImportDialog] = useState(false);
+  const [showPromptCatalog, setShowPromptCatalog] = useState(false);
+  const [showArchiveDialog, setShowArchiveDialog] = useState(false);
+  const [showTrashDialog, setShowTrashDialog] = useState(false);
   const menuRef = useRef<HTMLDivElement>(null);
   const promptMenuRef = useRef<HTMLDivElement>(null);
   const editInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
     loadChats();
+    loadFolders();
     loadPrompts();
   }, []);
 
@@ -121,7 +152,25 @@ export function ChatList({ selectedChatId, onChatSelect, onNewChat, isExpanded =
   };
 
   /**
-   * Load all prompts for the current user
+   * Load the chat folders of the current user
+   */
+  const loadFolders = async () => {
+    try {
+      const response = await fetch('/api/folders');
+
+      if (!response.ok) {
+        throw new Error('Failed to load folders');
+      }
+
+      const data = await response.json();
+      setFolders(data.folders || []);
+    } catch (error) {
+      console.error('Error loading folders:', error);
+    }
+  };
+
+  /**
+   * Load the prompt library of the current user: own prompts, shared prompts and starred catalog prompts
    */
   const loadPrompts = async () => {
     try {
@@ -195,6 +244,40 @@ export function ChatList({ selectedChatId, onChatSelect, onNewChat, isExpanded =
     }
   };
 
+  /**
+   * Download a file from an export endpoint (sent as an attachment, so the page stays open)
+   */
+  const downloadExport = (url: string) => {
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = '';
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+  };
+
+  /**
+   * Handle exporting a single chat
+   */
+  const handleExportChat = (chatId: string, format: string) => {
+    downloadExport(`/api/chats/${chatId}/export?format=${format}`);
+    setMenuOpenChatId(null);
+  };
+
+  /**
+   * Handle exporting all chats as a zip archive
+   */
+  const handleExportAllChats = () => {
+    downloadExport('/api/chats/export?format=md');
+  };
+
+  /**
+   * Handle exporting the user's own prompts as a YAML prompt file
+   */
+  const handleExportPrompts = () => {
+    downloadExport('/api/prompts/export?format=yaml');
+  };
+
   /**
    * Handle deleting all chats
    */
@@ -225,12 +308,23 @@ export function ChatList({ selectedChatId, onChatSelect, onNewChat, isExpanded =
    */
   const handleStartEdit = (chat: Chat) => {
     setEditingChatId(chat.id);
-    setEditTitleValue(chat.title || '');
+    setEditField('title');
+    setEditValue(chat.title || '');
+    setMenuOpenChatId(null);
+  };
+
+  /**
+   * Start editing chat tags, as a comma-separated list
+   */
+  const handleStartEditTags = (chat: Chat) => {
+    setEditingChatId(chat.id);
+    setEditField('tags');
+    setEditValue(chat.tags.join(', '));
     setMenuOpenChatId(null);
   };
 
   /**
-   * Save edited chat title
+   * Save edited chat title or tags
    */
   const handleSaveEdit = async (chatId: string) => {
     try {
@@ -239,22 +333,24 @@ export function ChatList({ selectedChatId, onChatSelect, onNewChat, isExpanded =
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({
-          title: editTitleValue.trim() || null,
-        }),
+        body: JSON.stringify(
+          editField === 'tags'
+            ? { tags: editValue.split(',').map((tag) => tag.trim()).filter((tag) => tag.length > 0) }
+            : { title: editValue.trim() || null }
+        ),
       });
 
       if (!response.ok) {
-        throw new Error('Failed to update chat title');
+        throw new Error('Failed to update chat');
       }
 
       // Reload chats
       await loadChats();
 
       setEditingChatId(null);
-      setEditTitleValue('');
+      setEditValue('');
     } catch (error) {
-      console.error('Error updating chat title:', error);
+      console.error('Error updating chat:', error);
     }
   };
 
@@ -263,7 +359,7 @@ export function ChatList({ selectedChatId, onChatSelect, onNewChat, isExpanded =
    */
   const handleCancelEdit = () => {
     setEditingChatId(null);
-    setEditTitleValue('');
+    setEditValue('');
   };
 
   /**
@@ -277,10 +373,214 @@ export function ChatList({ selectedChatId, onChatSelect, onNewChat, isExpanded =
     }
   };
 
+  /**
+   * Update the folder, tags, pinned or archived state of a chat
+   */
+  const updateChat = async (
+    chatId: string,
+    data: { folderId?: string | null; tags?: string[]; pinned?: boolean; archived?: boolean }
+  ) => {
+    setMenuOpenChatId(null);
+    try {
+      const response = await fetch(`/api/chats/${chatId}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(data),
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to update chat');
+      }
+
+      await loadChats();
+    } catch (error) {
+      console.error('Error updating chat:', error);
+    }
+  };
+
+  /**
+   * Apply an action to the selected chats
+   */
+  const handleBulkAction = async (action: ChatBulkAction, data: { folderId?: string | null; tags?: string[] } = {}) => {
+    try {
+      const response = await fetch('/api/chats/bulk', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ chatIds: selectedChatIds, action, ...data }),
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to update chats');
+      }
+
+      await loadChats();
+
+      if (action === 'delete') {
+        // Deselect if the selected chat was deleted
+        if (selectedChatId && selectedChatIds.includes(selectedChatId)) {
+          onChatSelect(null);
+        }
+        setSelectedChatIds([]);
+        setShowBulkDeleteConfirm(false);
+      } else if (action === 'archive') {
+        // Archived chats leave the list, so they can't stay selected
+        setSelectedChatIds([]);
+      }
+    } catch (error) {
+      console.error('Error updating chats:', error);
+    }
+  };
+
+  /**
+   * Add a chat to the selection, or remove it
+   */
+  const toggleChatSelected = (chatId: string) => {
+    setSelectedChatIds((current) =>
+      current.includes(chatId) ? current.filter((id) => id !== chatId) : [...current, chatId]
+    );
+  };
+
+  /**
+   * Stop selecting chats
+   */
+  const handleStopSelecting = () => {
+    setIsSelecting(false);
+    setSelectedChatIds([]);
+  };
+
+  /**
+   * Create a folder with the name typed in the chat list
+   */
+  const handleCreateFolder = async () => {
+    const name = newFolderName?.trim();
+    setNewFolderName(null);
+    if (!name) return;
+
+    try {
+      const response = await fetch('/api/folders', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ name }),
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to create folder');
+      }
+
+      await loadFolders();
+    } catch (error) {
+      console.error('Error creating folder:', error);
+    }
+  };
+
+  /**
+   * Rename a folder to the name typed in its header
+   */
+  const handleRenameFolder = async (folderId: string) => {
+    const name = editFolderName.trim();
+    setEditingFolderId(null);
+    if (!name || name === folders.find((folder) => folder.id === folderId)?.name) return;
+
+    try {
+      const response = await fetch(`/api/folders/${folderId}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ name }),
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to rename folder');
+      }
+
+      await loadFolders();
+    } catch (error) {
+      console.error('Error renaming folder:', error);
+    }
+  };
+
+  /**
+   * Delete a folder; its chats are moved out of it
+   */
+  const handleDeleteFolder = async (folderId: string) => {
+    try {
+      const response = await fetch(`/api/folders/${folderId}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to delete folder');
+      }
+
+      await Promise.all([loadFolders(), loadChats()]);
+    } catch (error) {
+      console.error('Error deleting folder:', error);
+    }
+  };
+
+  /**
+   * Show or hide the chats in a folder
+   */
+  const toggleFolderCollapsed = (folderId: string) => {
+    setCollapsedFolderIds((current) =>
+      current.includes(folderId) ? current.filter((id) => id !== folderId) : [...current, folderId]
+    );
+  };
+
+  /**
+   * Start dragging a chat to a folder
+   */
+  const handleDragStart = (e: React.DragEvent, chatId: string) => {
+    e.dataTransfer.setData('text/plain', chatId);
+    e.dataTransfer.effectAllowed = 'move';
+  };
+
+  /**
+   * Allow dropping a chat on a folder and highlight it
+   * @param target - The folder id, or 'none' for the chats outside folders
+   */
+  const handleDragOver = (e: React.DragEvent, target: string) => {
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+    setDropTarget(target);
+  };
+
+  /**
+   * Move a dropped chat into a folder, together with the other selected chats when it is one of them
+   * @param folderId - The folder, or null to move the chat out of its folder
+   */
+  const handleDrop = (e: React.DragEvent, folderId: string | null) => {
+    e.preventDefault();
+    setDropTarget(null);
+    const chatId = e.dataTransfer.getData('text/plain');
+
+    if (selectedChatIds.includes(chatId)) {
+      handleBulkAction('move', { folderId });
+    } else {
+      const chat = chats.find((candidate) => candidate.id === chatId);
+      if (chat && chat.folderId !== folderId) {
+        updateChat(chat.id, { folderId });
+      }
+    }
+  };
+
   /**
    * Handle saving a new prompt
    */
-  const handleSavePrompt = async (title: string, content: string) => {
+  const handleSavePrompt = async (
+    title: string,
+    content: string,
+    responseSchema: unknown,
+    sharing: PromptSharing,
+    tags: string[]
+  ) => {
     try {
       const response = await fetch('/api/prompts', {
         method: 'POST',
@@ -290,11 +590,15 @@ export function ChatList({ selectedChatId, onChatSelect, onNewChat, isExpanded =
         body: JSON.stringify({
           title,
           content,
+          responseSchema,
+          tags,
+          ...sharing,
         }),
       });
 
       if (!response.ok) {
-        throw new Error('Failed to create prompt');
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to create prompt');
       }
 
       // Reload prompts
@@ -327,6 +631,30 @@ export function ChatList({ selectedChatId, onChatSelect, onNewChat, isExpanded =
     }
   };
 
+  /**
+   * Archive one of the user's own prompts, which takes it out of the library
+   */
+  const handleArchivePrompt = async (promptId: string) => {
+    try {
+      const response = await fetch(`/api/prompts/${promptId}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ archived: true }),
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to archive prompt');
+      }
+
+      await loadPrompts();
+      setMenuOpenPromptId(null);
+    } catch (error) {
+      console.error('Error archiving prompt:', error);
+    }
+  };
+
   /**
    * Handle deleting all prompts
    */
@@ -377,10 +705,50 @@ export function ChatList({ selectedChatId, onChatSelect, onNewChat, isExpanded =
     }
   };
 
+  /**
+   * Copy a prompt shared with the user into a private prompt of their own
+   */
+  const handleCopyPrompt = async (promptId: string) => {
+    try {
+      const response = await fetch(`/api/prompts/${promptId}/copy`, {
+        method: 'POST',
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to copy prompt');
+      }
+
+      await loadPrompts();
+      setMenuOpenPromptId(null);
+    } catch (error) {
+      console.error('Error copying prompt:', error);
+    }
+  };
+
+  /**
+   * Remove a starred catalog prompt from the user's library
+   */
+  const handleUnstarPrompt = async (promptId: string) => {
+    try {
+      const response = await fetch(`/api/prompts/${promptId}/star`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to unstar prompt');
+      }
+
+      await loadPrompts();
+      setMenuOpenPromptId(null);
+    } catch (error) {
+      console.error('Error unstarring prompt:', error);
+    }
+  };
+
   /**
    * Start editing prompt
    */
-  const handleStartEditPrompt = (prompt: Prompt) => {
+  const handleStartEditPrompt = (prompt: PromptSummary) => {
     setEditingPrompt(prompt);
     setShowPromptEditor(true);
     setMenuOpenPromptId(null);
@@ -389,7 +757,13 @@ export function ChatList({ selectedChatId, onChatSelect, onNewChat, isExpanded =
   /**
    * Handle updating prompt in editor
    */
-  const handleUpdatePrompt = async (title: string, content: string) => {
+  const handleUpdatePrompt = async (
+    title: string,
+    content: string,
+    responseSchema: unknown,
+    sharing: PromptSharing,
+    tags: string[]
+  ) => {
     if (!editingPrompt) return;
 
     try {
@@ -401,11 +775,15 @@ export function ChatList({ selectedChatId, onChatSelect, onNewChat, isExpanded =
         body: JSON.stringify({
           title,
           content,
+          responseSchema,
+          tags,
+          ...sharing,
         }),
       });
 
       if (!response.ok) {
-        throw new Error('Failed to update prompt');
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to update prompt');
       }
 
       // Reload prompts
@@ -418,6 +796,182 @@ export function ChatList({ selectedChatId, onChatSelect, onNewChat, isExpanded =
     }
   };
 
+  /**
+   * Render a chat in the list
+   */
+  const renderChatItem = (chat: Chat) => (
+    <div
+      key={chat.id}
+      className={`${styles.chatItemWrapper} ${selectedChatId === chat.id ? styles.active : ''}`}
+      onMouseEnter={() => isExpanded && setHoveredChatId(chat.id)}
+      onMouseLeave={() => setHoveredChatId(null)}
+      draggable={isExpanded && editingChatId !== chat.id}
+      onDragStart={(e) => handleDragStart(e, chat.id)}
+    >
+      <button
+        className={`${styles.chatItem} ${selectedChatId === chat.id ? styles.active : ''}`}
+        onClick={() => (isSelecting ? toggleChatSelected(chat.id) : onChatSelect(chat.id))}
+        title={isExpanded ? undefined : getChatTitle(chat)}
+        aria-label={getChatTitle(chat)}
+        aria-pressed={isSelecting ? selectedChatIds.includes(chat.id) : undefined}
+      >
+        {isSelecting && isExpanded && (
+          <span className={styles.selectBox}>{selectedChatIds.includes(chat.id) ? '✓' : ''}</span>
+        )}
+        <svg 
+          className={styles.chatIcon} 
+          viewBox="0 0 18 18" 
+          width="18" 
+          height="18"
+          fill="none" 
+          stroke="currentColor" 
+          strokeWidth="1"
+        >
+          <path d="M15.75 11.25a1.5 1.5 0 0 1-1.5 1.5H5.25l-3 3V3.75a1.5 1.5 0 0 1 1.5-1.5h10.5a1.5 1.5 0 0 1 1.5 1.5z"></path>
+        </svg>
+        {isExpanded && (
+          <div className={styles.chatItemContent}>
+            {editingChatId === chat.id ? (
+              <input
+                ref={editInputRef}
+                type="text"
+                className={styles.editInput}
+                value={editValue}
+                onChange={(e) => setEditValue(e.target.value)}
+                placeholder={editField === 'tags' ? 'tag, nog een tag' : undefined}
+                onBlur={() => handleSaveEdit(chat.id)}
+                onKeyDown={(e) => handleEditKeyPress(e, chat.id)}
+                onClick={(e) => e.stopPropagation()}
+              />
+            ) : (
+              <div className={styles.chatItemTitle}>{getChatTitle(chat)}</div>
+            )}
+            <div className={styles.chatItemMeta}>
+              {formatDate(chat.updatedAt)}
+              {chat.tags.length > 0 && ` · ${chat.tags.map((tag) => `#${tag}`).join(' ')}`}
+            </div>
+          </div>
+        )}
+      </button>
+      {isExpanded && !isSelecting && hoveredChatId === chat.id && editingChatId !== chat.id && (
+        <div className={styles.chatItemActions} ref={menuRef}>
+          <button
+            className={styles.menuButton}
+            onClick={(e) => {
+              e.stopPropagation();
+              setMenuOpenChatId(menuOpenChatId === chat.id ? null : chat.id);
+            }}
+            aria-label="Chat opties"
+          >
+            <svg
+              viewBox="0 0 24 24"
+              width="16"
+              height="16"
+              fill="currentColor"
+            >
+              <circle cx="12" cy="5" r="1.5" />
+              <circle cx="12" cy="12" r="1.5" />
+              <circle cx="12" cy="19" r="1.5" />
+            </svg>
+          </button>
+          {menuOpenChatId === chat.id && (
+            <div className={styles.menuDropdown}>
+              <button
+                className={styles.menuItem}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  handleStartEdit(chat);
+                }}
+              >
+                Naam veranderen
+              </button>
+              <button
+                className={styles.menuItem}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  updateChat(chat.id, { pinned: !chat.pinned });
+                }}
+              >
+                {chat.pinned ? 'Losmaken' : 'Vastzetten'}
+              </button>
+              <button
+                className={styles.menuItem}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  updateChat(chat.id, { archived: true });
+                }}
+              >
+                Archiveren
+              </button>
+              <button
+                className={styles.menuItem}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  handleStartEditTags(chat);
+                }}
+              >
+                Tags bewerken
+              </button>
+              {folders
+                .filter((folder) => folder.id !== chat.folderId)
+                .map((folder) => (
+                  <button
+                    key={folder.id}
+                    className={styles.menuItem}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      updateChat(chat.id, { folderId: folder.id });
+                    }}
+                  >
+                    Naar {folder.name}
+                  </button>
+                ))}
+              {chat.folderId && (
+                <button
+                  className={styles.menuItem}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    updateChat(chat.id, { folderId: null });
+                  }}
+                >
+                  Uit map halen
+                </button>
+              )}
+              {exportFormats.map(({ format, label }) => (
+                <button
+                  key={format}
+                  className={styles.menuItem}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleExportChat(chat.id, format);
+                  }}
+                >
+                  Exporteren als {label}
+                </button>
+              ))}
+              <button
+                className={styles.menuItem}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  handleDeleteChat(chat.id);
+                }}
+              >
+                Verwijderen
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+
+  // Chats with the selected tag, split into pinned chats and chats in folders or outside them
+  const allTags = [...new Set(chats.flatMap((chat) => chat.tags))].sort();
+  const activeTag = tagFilter && allTags.includes(tagFilter) ? tagFilter : null;
+  const visibleChats = activeTag ? chats.filter((chat) => chat.tags.includes(activeTag)) : chats;
+  const pinnedChats = visibleChats.filter((chat) => chat.pinned);
+  const unpinnedChats = visibleChats.filter((chat) => !chat.pinned);
+
   if (isLoading) {
     return (
       <div className={styles.chatList}>
@@ -434,101 +988,157 @@ export function ChatList({ selectedChatId, onChatSelect, onNewChat, isExpanded =
           <NewChatButton onClick={onNewChat} />
         </div>
       )}
+      {isExpanded && onSearchResultSelect && (
+        <ChatSearch onResultSelect={onSearchResultSelect} />
+      )}
+      {isExpanded && (
+        <div className={styles.chatToolbar}>
+          {newFolderName !== null ? (
+            <input
+              type="text"
+              className={styles.editInput}
+              value={newFolderName}
+              placeholder="Naam van de map"
+              autoFocus
+              onChange={(e) => setNewFolderName(e.target.value)}
+              onBlur={handleCreateFolder}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  handleCreateFolder();
+                } else if (e.key === 'Escape') {
+                  setNewFolderName(null);
+                }
+              }}
+            />
+          ) : (
+            <button className={styles.toolbarButton} onClick={() => setNewFolderName('')}>
+              Nieuwe map
+            </button>
+          )}
+          {!isSelecting && chats.length > 0 && (
+            <button className={styles.toolbarButton} onClick={() => setIsSelecting(true)}>
+              Selecteren
+            </button>
+          )}
+        </div>
+      )}
+      {isExpanded && allTags.length > 0 && (
+        <div className={styles.tagFilter}>
+          {allTags.map((tag) => (
+            <button
+              key={tag}
+              className={`${styles.tagChip} ${activeTag === tag ? styles.tagChipActive : ''}`}
+              onClick={() => setTagFilter(activeTag === tag ? null : tag)}
+              aria-pressed={activeTag === tag}
+            >
+              #{tag}
+            </button>
+          ))}
+        </div>
+      )}
+      {isExpanded && isSelecting && (
+        <ChatBulkBar
+          selectedCount={selectedChatIds.length}
+          folders={folders}
+          onMove={(folderId) => handleBulkAction('move', { folderId })}
+          onPin={(pinned) => handleBulkAction(pinned ? 'pin' : 'unpin')}
+          onArchive={() => handleBulkAction('archive')}
+          onTag={(tag, remove) => handleBulkAction(remove ? 'removeTags' : 'addTags', { tags: [tag] })}
+          onDelete={() => setShowBulkDeleteConfirm(true)}
+          onCancel={handleStopSelecting}
+        />
+      )}
       <div className={styles.chatItems}>
         {chats.length === 0 ? (
           <div className={styles.empty}>{isExpanded ? 'Geen chats gevonden' : 'Geen chats'}</div>
+        ) : !isExpanded ? (
+          visibleChats.map(renderChatItem)
         ) : (
-          chats.map((chat) => (
-            <div
-              key={chat.id}
-              className={`${styles.chatItemWrapper} ${selectedChatId === chat.id ? styles.active : ''}`}
-              onMouseEnter={() => isExpanded && setHoveredChatId(chat.id)}
-              onMouseLeave={() => setHoveredChatId(null)}
-            >
-              <button
-                className={`${styles.chatItem} ${selectedChatId === chat.id ? styles.active : ''}`}
-                onClick={() => onChatSelect(chat.id)}
-                title={isExpanded ? undefined : getChatTitle(chat)}
-                aria-label={getChatTitle(chat)}
-              >
-                <svg 
-                  className={styles.chatIcon} 
-                  viewBox="0 0 18 18" 
-                  width="18" 
-                  height="18"
-                  fill="none" 
-                  stroke="currentColor" 
-                  strokeWidth="1"
+          <>
+            {pinnedChats.length > 0 && (
+              <div className={styles.chatSection}>
+                <div className={styles.sectionHeader}>
+                  <span className={styles.sectionTitle}>Vastgezet</span>
+                </div>
+                {pinnedChats.map(renderChatItem)}
+              </div>
+            )}
+            {folders.map((folder) => {
+              const folderChats = unpinnedChats.filter((chat) => chat.folderId === folder.id);
+              const isCollapsed = collapsedFolderIds.includes(folder.id);
+
+              return (
+                <div
+                  key={folder.id}
+                  className={`${styles.chatSection} ${dropTarget === folder.id ? styles.dropTarget : ''}`}
+                  onDragOver={(e) => handleDragOver(e, folder.id)}
+                  onDragLeave={() => setDropTarget(null)}
+                  onDrop={(e) => handleDrop(e, folder.id)}
                 >
-                  <path d="M15.75 11.25a1.5 1.5 0 0 1-1.5 1.5H5.25l-3 3V3.75a1.5 1.5 0 0 1 1.5-1.5h10.5a1.5 1.5 0 0 1 1.5 1.5z"></path>
-                </svg>
-                {isExpanded && (
-                  <div className={styles.chatItemContent}>
-                    {editingChatId === chat.id ? (
+                  <div className={styles.sectionHeader}>
+                    {editingFolderId === folder.id ? (
                       <input
-                        ref={editInputRef}
                         type="text"
                         className={styles.editInput}
-                        value={editTitleValue}
-                        onChange={(e) => setEditTitleValue(e.target.value)}
-                        onBlur={() => handleSaveEdit(chat.id)}
-                        onKeyDown={(e) => handleEditKeyPress(e, chat.id)}
-                        onClick={(e) => e.stopPropagation()}
+                        value={editFolderName}
+                        autoFocus
+                        onChange={(e) => setEditFolderName(e.target.value)}
+                        onBlur={() => handleRenameFolder(folder.id)}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') {
+                            handleRenameFolder(folder.id);
+                          } else if (e.key === 'Escape') {
+                            setEditingFolderId(null);
+                          }
+                        }}
                       />
                     ) : (
-                      <div className={styles.chatItemTitle}>{getChatTitle(chat)}</div>
-                    )}
-                    <div className={styles.chatItemMeta}>{formatDate(chat.updatedAt)}</div>
-                  </div>
-                )}
-              </button>
-              {isExpanded && hoveredChatId === chat.id && editingChatId !== chat.id && (
-                <div className={styles.chatItemActions} ref={menuRef}>
-                  <button
-                    className={styles.menuButton}
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      setMenuOpenChatId(menuOpenChatId === chat.id ? null : chat.id);
-                    }}
-                    aria-label="Chat opties"
-                  >
-                    <svg
-                      viewBox="0 0 24 24"
-                      width="16"
-                      height="16"
-                      fill="currentColor"
-                    >
-                      <circle cx="12" cy="5" r="1.5" />
-                      <circle cx="12" cy="12" r="1.5" />
-                      <circle cx="12" cy="19" r="1.5" />
-                    </svg>
-                  </button>
-                  {menuOpenChatId === chat.id && (
-                    <div className={styles.menuDropdown}>
-                      <button
-                        className={styles.menuItem}
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          handleStartEdit(chat);
-                        }}
-                      >
-                        Naam veranderen
-                      </button>
                       <button
-                        className={styles.menuItem}
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          handleDeleteChat(chat.id);
-                        }}
+                        className={styles.sectionToggle}
+                        onClick={() => toggleFolderCollapsed(folder.id)}
+                        aria-expanded={!isCollapsed}
                       >
-                        Verwijderen
+                        <span>{isCollapsed ? '▸' : '▾'}</span>
+                        <span className={styles.sectionTitle}>{folder.name}</span>
+                        <span className={styles.sectionCount}>{folderChats.length}</span>
                       </button>
-                    </div>
-                  )}
+                    )}
+                    {editingFolderId !== folder.id && (
+                      <div className={styles.sectionActions}>
+                        <button
+                          className={styles.sectionAction}
+                          onClick={() => {
+                            setEditingFolderId(folder.id);
+                            setEditFolderName(folder.name);
+                          }}
+                        >
+                          Hernoemen
+                        </button>
+                        <button className={styles.sectionAction} onClick={() => handleDeleteFolder(folder.id)}>
+                          Verwijderen
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                  {!isCollapsed && folderChats.map(renderChatItem)}
+                </div>
+              );
+            })}
+            <div
+              className={`${styles.chatSection} ${dropTarget === 'none' ? styles.dropTarget : ''}`}
+              onDragOver={(e) => handleDragOver(e, 'none')}
+              onDragLeave={() => setDropTarget(null)}
+              onDrop={(e) => handleDrop(e, null)}
+            >
+              {folders.length > 0 && (
+                <div className={styles.sectionHeader}>
+                  <span className={styles.sectionTitle}>Overige chats</span>
                 </div>
               )}
+              {unpinnedChats.filter((chat) => !chat.folderId).map(renderChatItem)}
             </div>
-          ))
+            {visibleChats.length === 0 && <div className={styles.empty}>Geen chats met deze tag</div>}
+          </>
         )}
       </div>
       <div className={styles.promptButtonWrapper}>
@@ -562,6 +1172,11 @@ export function ChatList({ selectedChatId, onChatSelect, onNewChat, isExpanded =
                 {isExpanded && (
                   <div className={styles.promptItemContent}>
                     <div className={styles.promptItemTitle}>{prompt.title}</div>
+                    {!prompt.isOwner && (
+                      <div className={styles.promptItemOwner}>
+                        {prompt.starred ? '★ ' : 'Gedeeld door '}{prompt.ownerName}
+                      </div>
+                    )}
                   </div>
                 )}
               </div>
@@ -588,24 +1203,60 @@ export function ChatList({ selectedChatId, onChatSelect, onNewChat, isExpanded =
                   </button>
                   {menuOpenPromptId === prompt.id && (
                     <div className={styles.menuDropdown}>
-                      <button
-                        className={styles.menuItem}
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          handleStartEditPrompt(prompt);
-                        }}
-                      >
-                        Bewerken
-                      </button>
-                      <button
-                        className={styles.menuItem}
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          handleDeletePrompt(prompt.id);
-                        }}
-                      >
-                        Verwijderen
-                      </button>
+                      {prompt.isOwner ? (
+                        <>
+                          <button
+                            className={styles.menuItem}
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleStartEditPrompt(prompt);
+                            }}
+                          >
+                            Bewerken
+                          </button>
+                          <button
+                            className={styles.menuItem}
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleArchivePrompt(prompt.id);
+                            }}
+                          >
+                            Archiveren
+                          </button>
+                          <button
+                            className={styles.menuItem}
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleDeletePrompt(prompt.id);
+                            }}
+                          >
+                            Verwijderen
+                          </button>
+                        </>
+                      ) : (
+                        <>
+                          <button
+                            className={styles.menuItem}
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleCopyPrompt(prompt.id);
+                            }}
+                          >
+                            Kopiëren naar mijn prompts
+                          </button>
+                          {prompt.starred && (
+                            <button
+                              className={styles.menuItem}
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                handleUnstarPrompt(prompt.id);
+                              }}
+                            >
+                              Ster verwijderen
+                            </button>
+                          )}
+                        </>
+                      )}
                     </div>
                   )}
                 </div>
@@ -614,9 +1265,55 @@ export function ChatList({ selectedChatId, onChatSelect, onNewChat, isExpanded =
           ))
         )}
       </div>
-      {isExpanded && (prompts.length > 0 || chats.length > 0) && (
+      {isExpanded && (
         <div className={styles.deleteAllWrapper}>
-          {prompts.length > 0 && (
+          <button
+            className={styles.deleteAllButton}
+            onClick={() => setShowImportDialog(true)}
+          >
+            Chats importeren
+          </button>
+          <button
+            className={styles.deleteAllButton}
+            onClick={() => setShowPromptImportDialog(true)}
+          >
+            Prompts importeren
+          </button>
+          <button
+            className={styles.deleteAllButton}
+            onClick={() => setShowPromptCatalog(true)}
+          >
+            Promptcatalogus
+          </button>
+          <button
+            className={styles.deleteAllButton}
+            onClick={() => setShowArchiveDialog(true)}
+          >
+            Archief
+          </button>
+          <button
+            className={styles.deleteAllButton}
+            onClick={() => setShowTrashDialog(true)}
+          >
+            Prullenbak
+          </button>
+          {chats.length > 0 && (
+            <button
+              className={styles.deleteAllButton}
+              onClick={handleExportAllChats}
+            >
+              Exporteer alle chats
+            </button>
+          )}
+          {prompts.some((prompt) => prompt.isOwner) && (
+            <button
+              className={styles.deleteAllButton}
+              onClick={handleExportPrompts}
+            >
+              Exporteer prompts
+            </button>
+          )}
+          {prompts.some((prompt) => prompt.isOwner) && (
             <button
               className={styles.deleteAllButton}
               onClick={() => setShowDeleteAllPromptsConfirm(true)}
@@ -646,7 +1343,7 @@ export function ChatList({ selectedChatId, onChatSelect, onNewChat, isExpanded =
         <div className={styles.confirmDialogOverlay} onClick={() => setShowDeleteAllConfirm(false)}>
           <div className={styles.confirmDialog} onClick={(e) => e.stopPropagation()}>
             <h3>Weet je het zeker?</h3>
-            <p>Alle chats worden permanent verwijderd. Deze actie kan niet ongedaan worden gemaakt.</p>
+            <p>Alle chats, ook gearchiveerde, worden naar de prullenbak verplaatst. Je kunt ze nog terugzetten vanuit de prullenbak.</p>
             <div className={styles.confirmDialogActions}>
               <button
                 className={styles.confirmButton}
@@ -664,11 +1361,33 @@ export function ChatList({ selectedChatId, onChatSelect, onNewChat, isExpanded =
           </div>
         </div>
       )}
+      {showBulkDeleteConfirm && (
+        <div className={styles.confirmDialogOverlay} onClick={() => setShowBulkDeleteConfirm(false)}>
+          <div className={styles.confirmDialog} onClick={(e) => e.stopPropagation()}>
+            <h3>Weet je het zeker?</h3>
+            <p>{selectedChatIds.length} chat(s) worden naar de prullenbak verplaatst. Je kunt ze nog terugzetten vanuit de prullenbak.</p>
+            <div className={styles.confirmDialogActions}>
+              <button
+                className={styles.confirmButton}
+                onClick={() => handleBulkAction('delete')}
+              >
+                Verwijderen
+              </button>
+              <button
+                className={styles.cancelButton}
+                onClick={() => setShowBulkDeleteConfirm(false)}
+              >
+                Annuleren
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
       {showDeleteAllPromptsConfirm && (
         <div className={styles.confirmDialogOverlay} onClick={() => setShowDeleteAllPromptsConfirm(false)}>
           <div className={styles.confirmDialog} onClick={(e) => e.stopPropagation()}>
             <h3>Weet je het zeker?</h3>
-            <p>Alle prompts worden permanent verwijderd. Deze actie kan niet ongedaan worden gemaakt.</p>
+            <p>Alle prompts, ook gearchiveerde, worden naar de prullenbak verplaatst. Je kunt ze nog terugzetten vanuit de prullenbak.</p>
             <div className={styles.confirmDialogActions}>
               <button
                 className={styles.confirmButton}
@@ -690,7 +1409,7 @@ export function ChatList({ selectedChatId, onChatSelect, onNewChat, isExpanded =
         <div className={styles.confirmDialogOverlay} onClick={() => setShowDeleteAllEverythingConfirm(false)}>
           <div className={styles.confirmDialog} onClick={(e) => e.stopPropagation()}>
             <h3>Weet je het zeker?</h3>
-            <p>Alle chats en prompts worden permanent verwijderd. Deze actie kan niet ongedaan worden gemaakt.</p>
+            <p>Alle chats en prompts worden naar de prullenbak verplaatst. Je kunt ze nog terugzetten vanuit de prullenbak.</p>
             <div className={styles.confirmDialogActions}>
               <button
                 className={styles.confirmButton}
@@ -717,6 +1436,44 @@ export function ChatList({ selectedChatId, onChatSelect, onNewChat, isExpanded =
         onSave={editingPrompt ? handleUpdatePrompt : handleSavePrompt}
         initialTitle={editingPrompt?.title}
         initialContent={editingPrompt?.content}
+        initialResponseSchema={editingPrompt?.responseSchema}
+        initialVisibility={editingPrompt?.visibility}
+        initialSharedWith={editingPrompt?.sharedWith}
+        initialTags={editingPrompt?.tags}
+        promptId={editingPrompt?.isOwner ? editingPrompt.id : undefined}
+        onRestored={loadPrompts}
+      />
+      <PromptCatalog
+        isOpen={showPromptCatalog}
+        onClose={() => setShowPromptCatalog(false)}
+        onChanged={loadPrompts}
+      />
+      <ImportDialog
+        isOpen={showImportDialog}
+        onClose={() => setShowImportDialog(false)}
+        onImported={loadChats}
+      />
+      <PromptImportDialog
+        isOpen={showPromptImportDialog}
+        onClose={() => setShowPromptImportDialog(false)}
+        onImported={loadPrompts}
+      />
+      <ArchiveDialog
+        isOpen={showArchiveDialog}
+        onClose={() => setShowArchiveDialog(false)}
+        onChanged={() => {
+          loadChats();
+          loadPrompts();
+        }}
+        onChatSelect={onChatSelect}
+      />
+      <TrashDialog
+        isOpen={showTrashDialog}
+        onClose={() => setShowTrashDialog(false)}
+        onChanged={() => {
+          loadChats();
+          loadPrompts();
+        }}
       />
     </div>
   );
@@ -0,0 +1,128 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+
+import { SearchResult } from '@/types/chat';
+
+import styles from './ChatSearch.module.css';
+
+interface ChatSearchProps {
+  onResultSelect: (chatId: string, messageId: string | null) => void;
+}
+
+// Wait until the user stops typing before searching
+const SEARCH_DELAY_MS = 300;
+
+/**
+ * ChatSearch component - search box with full-text results across all chats
+ * @param onResultSelect - Callback when a result is clicked, with the matching message (null for title matches)
+ */
+export function ChatSearch({ onResultSelect }: ChatSearchProps) {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const trimmedQuery = query.trim();
+    if (!trimmedQuery) {
+      setResults([]);
+      setError(null);
+      return;
+    }
+
+    const abortController = new AbortController();
+    const timeout = setTimeout(() => search(trimmedQuery, abortController.signal), SEARCH_DELAY_MS);
+
+    return () => {
+      clearTimeout(timeout);
+      abortController.abort();
+    };
+  }, [query]);
+
+  /**
+   * Search messages and chat titles
+   */
+  const search = async (searchQuery: string, signal: AbortSignal) => {
+    try {
+      setIsSearching(true);
+      setError(null);
+      const response = await fetch(`/api/search?q=${encodeURIComponent(searchQuery)}`, { signal });
+
+      if (!response.ok) {
+        throw new Error('Failed to search');
+      }
+
+      const data = await response.json();
+      setResults(data.results || []);
+    } catch (err) {
+      if (signal.aborted) return;
+      console.error('Error searching chats:', err);
+      setError('Zoeken mislukt');
+    } finally {
+      if (!signal.aborted) {
+        setIsSearching(false);
+      }
+    }
+  };
+
+  const clearSearch = () => {
+    setQuery('');
+    setResults([]);
+  };
+
+  return (
+    <div className={styles.search}>
+      <input
+        type="search"
+        className={styles.input}
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Escape') {
+            clearSearch();
+          }
+        }}
+        placeholder="Zoeken in chats..."
+        aria-label="Zoeken in chats"
+      />
+      {query.trim() && (
+        <div className={styles.results}>
+          {isSearching && results.length === 0 ? (
+            <div className={styles.status}>Zoeken...</div>
+          ) : error ? (
+            <div className={styles.status}>{error}</div>
+          ) : results.length === 0 ? (
+            <div className={styles.status}>Geen resultaten</div>
+          ) : (
+            results.map((result) => (
+              <button
+                key={`${result.type}-${result.messageId ?? result.chatId}`}
+                type="button"
+                className={styles.result}
+                onClick={() => onResultSelect(result.chatId, result.messageId)}
+              >
+                <span className={styles.resultTitle}>
+                  {result.chatTitle || 'Nieuwe chat'}
+                  {result.role && (
+                    <span className={styles.resultRole}>
+                      {result.role === 'user' ? 'Jij' : 'Assistent'}
+                    </span>
+                  )}
+                </span>
+                <span className={styles.snippet}>
+                  {result.snippet.map((part, index) =>
+                    part.highlight ? <mark key={index}>{part.text}</mark> : <span key={index}>{part.text}</span>
+                  )}
+                </span>
+                <span className={styles.resultDate}>
+                  {new Date(result.timestamp).toLocaleDateString('nl-NL', { day: 'numeric', month: 'short', year: 'numeric' })}
+                </span>
+              </button>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,344 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+
+import { CollectionSummary } from '@/types/chat';
+
+import styles from './ChatSettings.module.css';
+
+interface ChatSettingsProps {
+  chatId: string;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+interface SettingsForm {
+  systemPrompt: string;
+  temperature: string;
+  topP: string;
+  maxTokens: string;
+  stopSequences: string;
+  seed: string;
+  responseSchema: string;
+}
+
+const emptyForm: SettingsForm = {
+  systemPrompt: '',
+  temperature: '',
+  topP: '',
+  maxTokens: '',
+  stopSequences: '',
+  seed: '',
+  responseSchema: '',
+};
+
+/**
+ * Convert a form field to a number, or null when left empty (model default)
+ */
+const toNumberOrNull = (value: string): number | null => {
+  return value.trim() === '' ? null : Number(value);
+};
+
+/**
+ * Parse the response schema field, or null when left empty (free-form replies)
+ * @throws SyntaxError when the field is not valid JSON
+ */
+const toSchemaOrNull = (value: string): unknown => {
+  return value.trim() === '' ? null : JSON.parse(value);
+};
+
+/**
+ * ChatSettings component - modal for editing the system prompt, generation parameters,
+ * response schema and knowledge base collections of a chat
+ * @param chatId - The chat whose settings are edited
+ * @param isOpen - Whether the modal is open
+ * @param onClose - Callback when modal should be closed
+ */
+export function ChatSettings({ chatId, isOpen, onClose }: ChatSettingsProps) {
+  const [form, setForm] = useState<SettingsForm>(emptyForm);
+  const [collections, setCollections] = useState<CollectionSummary[]>([]);
+  const [collectionIds, setCollectionIds] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load the current settings whenever the modal is opened
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const loadSettings = async () => {
+      try {
+        setIsLoading(true);
+        setError(null);
+        const [response, collectionsResponse] = await Promise.all([
+          fetch(`/api/chats/${chatId}`),
+          fetch('/api/collections'),
+        ]);
+
+        if (!response.ok || !collectionsResponse.ok) {
+          throw new Error('Failed to load chat settings');
+        }
+
+        const { chat } = await response.json();
+        const collectionsData = await collectionsResponse.json();
+        setCollections(collectionsData.collections || []);
+        setCollectionIds(chat.collectionIds ?? []);
+        setForm({
+          systemPrompt: chat.systemPrompt ?? '',
+          temperature: chat.temperature?.toString() ?? '',
+          topP: chat.topP?.toString() ?? '',
+          maxTokens: chat.maxTokens?.toString() ?? '',
+          stopSequences: (chat.stopSequences ?? []).join('\n'),
+          seed: chat.seed?.toString() ?? '',
+          responseSchema: chat.responseSchema ? JSON.stringify(chat.responseSchema, null, 2) : '',
+        });
+      } catch (err) {
+        console.error('Error loading chat settings:', err);
+        setError('Instellingen konden niet worden geladen');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadSettings();
+  }, [isOpen, chatId]);
+
+  if (!isOpen) return null;
+
+  const updateField = (field: keyof SettingsForm) => (
+    e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>
+  ) => {
+    setForm((prev) => ({ ...prev, [field]: e.target.value }));
+  };
+
+  const toggleCollection = (collectionId: string) => {
+    setCollectionIds((prev) =>
+      prev.includes(collectionId)
+        ? prev.filter((id) => id !== collectionId)
+        : [...prev, collectionId]
+    );
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    let responseSchema: unknown;
+    try {
+      responseSchema = toSchemaOrNull(form.responseSchema);
+    } catch {
+      setError('Het JSON-schema is geen geldige JSON');
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/chats/${chatId}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          systemPrompt: form.systemPrompt.trim() || null,
+          temperature: toNumberOrNull(form.temperature),
+          topP: toNumberOrNull(form.topP),
+          maxTokens: toNumberOrNull(form.maxTokens),
+          stopSequences: form.stopSequences.split('\n').filter((s) => s.length > 0),
+          seed: toNumberOrNull(form.seed),
+          responseSchema,
+          collectionIds,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        setError(errorData.error || 'Opslaan mislukt');
+        return;
+      }
+
+      onClose();
+    } catch (err) {
+      console.error('Error saving chat settings:', err);
+      setError('Opslaan mislukt');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const isDisabled = isLoading || isSaving;
+
+  return (
+    <div className={styles.overlay} onClick={onClose}>
+      <div className={styles.modal} onClick={(e) => e.stopPropagation()}>
+        <div className={styles.header}>
+          <h2 className={styles.title}>Chat instellingen</h2>
+          <button
+            className={styles.closeButton}
+            onClick={onClose}
+            aria-label="Sluiten"
+          >
+            ×
+          </button>
+        </div>
+        <form onSubmit={handleSubmit} className={styles.form}>
+          <div className={styles.field}>
+            <label htmlFor="chat-system-prompt" className={styles.label}>
+              Systeemprompt
+            </label>
+            <textarea
+              id="chat-system-prompt"
+              className={styles.textarea}
+              value={form.systemPrompt}
+              onChange={updateField('systemPrompt')}
+              placeholder="Bijvoorbeeld: Je bent een behulpzame assistent die kort antwoordt."
+              rows={5}
+              disabled={isDisabled}
+            />
+          </div>
+          <div className={styles.row}>
+            <div className={styles.field}>
+              <label htmlFor="chat-temperature" className={styles.label}>
+                Temperature
+              </label>
+              <input
+                id="chat-temperature"
+                type="number"
+                className={styles.input}
+                value={form.temperature}
+                onChange={updateField('temperature')}
+                min={0}
+                max={2}
+                step={0.1}
+                placeholder="Standaard"
+                disabled={isDisabled}
+              />
+            </div>
+            <div className={styles.field}>
+              <label htmlFor="chat-top-p" className={styles.label}>
+                Top P
+              </label>
+              <input
+                id="chat-top-p"
+                type="number"
+                className={styles.input}
+                value={form.topP}
+                onChange={updateField('topP')}
+                min={0}
+                max={1}
+                step={0.05}
+                placeholder="Standaard"
+                disabled={isDisabled}
+              />
+            </div>
+            <div className={styles.field}>
+              <label htmlFor="chat-max-tokens" className={styles.label}>
+                Max tokens
+              </label>
+              <input
+                id="chat-max-tokens"
+                type="number"
+                className={styles.input}
+                value={form.maxTokens}
+                onChange={updateField('maxTokens')}
+                min={1}
+                step={1}
+                placeholder="Standaard"
+                disabled={isDisabled}
+              />
+            </div>
+            <div className={styles.field}>
+              <label htmlFor="chat-seed" className={styles.label}>
+                Seed
+              </label>
+              <input
+                id="chat-seed"
+                type="number"
+                className={styles.input}
+                value={form.seed}
+                onChange={updateField('seed')}
+                step={1}
+                placeholder="Willekeurig"
+                disabled={isDisabled}
+              />
+            </div>
+          </div>
+          <div className={styles.field}>
+            <label htmlFor="chat-stop-sequences" className={styles.label}>
+              Stopsequenties
+            </label>
+            <textarea
+              id="chat-stop-sequences"
+              className={styles.textarea}
+              value={form.stopSequences}
+              onChange={updateField('stopSequences')}
+              rows={2}
+              disabled={isDisabled}
+            />
+            <span className={styles.hint}>Eén per regel, maximaal 4. Laat velden leeg voor de standaardwaarden van het model.</span>
+          </div>
+          <div className={styles.field}>
+            <label htmlFor="chat-response-schema" className={styles.label}>
+              JSON-schema voor antwoorden
+            </label>
+            <textarea
+              id="chat-response-schema"
+              className={`${styles.textarea} ${styles.code}`}
+              value={form.responseSchema}
+              onChange={updateField('responseSchema')}
+              placeholder={'{\n  "type": "object",\n  "properties": { "naam": { "type": "string" } },\n  "required": ["naam"]\n}'}
+              rows={5}
+              disabled={isDisabled}
+            />
+            <span className={styles.hint}>
+              Optioneel. Antwoorden worden als JSON gevraagd en gecontroleerd tegen dit schema; een prompt met een eigen schema gaat voor.
+            </span>
+          </div>
+          <div className={styles.field}>
+            <span className={styles.label}>Kennisbanken</span>
+            {collections.length === 0 ? (
+              <span className={styles.hint}>Nog geen kennisbanken.</span>
+            ) : (
+              <div className={styles.checkboxList}>
+                {collections.map((collection) => (
+                  <label key={collection.id} className={styles.checkbox}>
+                    <input
+                      type="checkbox"
+                      checked={collectionIds.includes(collection.id)}
+                      onChange={() => toggleCollection(collection.id)}
+                      disabled={isDisabled}
+                    />
+                    {collection.name}
+                    <span className={styles.hint}>({collection.documentCount} documenten)</span>
+                  </label>
+                ))}
+              </div>
+            )}
+            <span className={styles.hint}>
+              Relevante fragmenten uit de gekozen kennisbanken worden met bronvermelding aan het model gegeven.{' '}
+              <Link href="/knowledge">Kennisbanken beheren</Link>
+            </span>
+          </div>
+          {error && <div className={styles.error}>{error}</div>}
+          <div className={styles.actions}>
+            <button
+              type="button"
+              className={styles.cancelButton}
+              onClick={onClose}
+              disabled={isSaving}
+            >
+              Annuleren
+            </button>
+            <button
+              type="submit"
+              className={styles.saveButton}
+              disabled={isDisabled}
+            >
+              {isSaving ? 'Opslaan...' : 'Opslaan'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+'use client';
+
+import { useState, useRef } from 'react';
+
+import styles from './CodeBlock.module.css';
+
+interface CodeBlockProps {
+  children?: React.ReactNode;
+}
+
+/**
+ * CodeBlock component that renders a fenced code block with its language and a copy button
+ * @param children - The highlighted <code> element rendered by the markdown renderer
+ */
+export function CodeBlock({ children }: CodeBlockProps) {
+  const [copied, setCopied] = useState(false);
+  const preRef = useRef<HTMLPreElement>(null);
+
+  // The language comes from the "language-xyz" class on the <code> element
+  const codeClassName = (children as React.ReactElement<{ className?: string }> | undefined)?.props?.className || '';
+  const language = codeClassName.match(/language-(\S+)/)?.[1];
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(preRef.current?.textContent || '');
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Error copying code:', error);
+    }
+  };
+
+  return (
+    <div className={styles.codeBlock}>
+      <div className={styles.header}>
+        <span className={styles.language}>{language || 'code'}</span>
+        <button type="button" className={styles.copyButton} onClick={handleCopy}>
+          {copied ? 'Gekopieerd' : 'Kopiëren'}
+        </button>
+      </div>
+      <pre ref={preRef} className={styles.pre}>
+        {children}
+      </pre>
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+'use client';
+
+import { TokenUsage } from '@/types/chat';
+import { formatCost, formatTokens } from '@/lib/format';
+import { Markdown } from '@/components/Chat/Markdown/Markdown';
+
+import styles from './CompareView.module.css';
+
+/**
+ * The reply of one model in a comparison
+ */
+export interface ComparisonColumn {
+  model: string;
+  content: string;
+  status: 'streaming' | 'done' | 'error';
+  // Id of the saved reply, known once the server has started the stream
+  messageId?: string;
+  usage?: TokenUsage;
+  // Milliseconds until the first token and until the reply was complete, measured in the browser
+  firstTokenMs?: number;
+  latencyMs?: number;
+  error?: string;
+}
+
+interface CompareViewProps {
+  columns: ComparisonColumn[];
+  onPick?: (column: ComparisonColumn) => void;
+  onDismiss?: () => void;
+}
+
+/**
+ * Format a duration in milliseconds for display (e.g. 1530 -> "1.5 s")
+ */
+const formatDuration = (ms: number): string =>
+  ms < 1000 ? `${Math.round(ms)} ms` : `${(ms / 1000).toFixed(1)} s`;
+
+/**
+ * CompareView component that shows the replies of several models to the same message side by side
+ * @param columns - One column per model, in the order the models were selected
+ * @param onPick - Callback function called with the reply to continue the chat with
+ * @param onDismiss - Callback function called when the comparison is closed without picking a reply
+ */
+export function CompareView({ columns, onPick, onDismiss }: CompareViewProps) {
+  const isStreaming = columns.some((column) => column.status === 'streaming');
+
+  return (
+    <div className={styles.container}>
+      <div className={styles.header}>
+        <span className={styles.title}>
+          {isStreaming ? 'Modellen vergelijken...' : 'Kies het antwoord waarmee je verder wilt'}
+        </span>
+        {onDismiss && !isStreaming && (
+          <button type="button" className={styles.dismissButton} onClick={onDismiss}>
+            Sluiten
+          </button>
+        )}
+      </div>
+      <div className={styles.columns}>
+        {columns.map((column) => (
+          <div key={column.model} className={styles.column}>
+            <div className={styles.model} title={column.model}>{column.model}</div>
+            <div className={styles.content}>
+              {column.content ? (
+                <Markdown content={column.content} />
+              ) : column.status === 'streaming' ? (
+                <span className={styles.thinking}>Thinking</span>
+              ) : null}
+              {column.error && <div className={styles.error}>{column.error}</div>}
+            </div>
+            <div className={styles.meta}>
+              {column.firstTokenMs !== undefined && (
+                <span title="Tijd tot het eerste token">eerste token {formatDuration(column.firstTokenMs)}</span>
+              )}
+              {column.latencyMs !== undefined && (
+                <span title="Tijd tot het volledige antwoord">totaal {formatDuration(column.latencyMs)}</span>
+              )}
+              {column.usage && (
+                <span
+                  title={`${formatTokens(column.usage.promptTokens)} prompt + ${formatTokens(column.usage.completionTokens)} completion tokens`}
+                >
+                  {formatTokens(column.usage.promptTokens + column.usage.completionTokens)} tokens
+                  {` · ${formatCost(column.usage.cost)}`}
+                </span>
+              )}
+            </div>
+            {onPick && column.status === 'done' && column.messageId && (
+              <button type="button" className={styles.pickButton} onClick={() => onPick(column)}>
+                Kies dit antwoord
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,221 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+
+import { ImportReport } from '@/types/chat';
+
+import styles from './ImportDialog.module.css';
+
+interface ImportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onImported: () => void;
+}
+
+const sourceOptions = [
+  { value: '', label: 'Automatisch herkennen' },
+  { value: 'chatgpt', label: 'ChatGPT' },
+  { value: 'claude', label: 'Claude.ai' },
+];
+
+/**
+ * ImportDialog component - modal for importing conversations from a ChatGPT or Claude.ai export
+ * Shows a dry-run preview with skipped entries before anything is saved
+ * @param isOpen - Whether the modal is open
+ * @param onClose - Callback when modal should be closed
+ * @param onImported - Callback after chats were imported
+ */
+export function ImportDialog({ isOpen, onClose, onImported }: ImportDialogProps) {
+  const [fileContent, setFileContent] = useState<string | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [source, setSource] = useState('');
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Start with a clean dialog every time it is opened
+  useEffect(() => {
+    if (isOpen) {
+      setFileContent(null);
+      setFileName('');
+      setSource('');
+      setReport(null);
+      setError(null);
+    }
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  /**
+   * Send the export file to the import API
+   * @param content - The contents of conversations.json
+   * @param importSource - Source of the export, empty to detect it
+   * @param dryRun - Only preview the import
+   */
+  const runImport = async (content: string, importSource: string, dryRun: boolean) => {
+    try {
+      setIsWorking(true);
+      setError(null);
+      const params = new URLSearchParams({ dryRun: dryRun ? '1' : '0' });
+      if (importSource) {
+        params.set('source', importSource);
+      }
+
+      const response = await fetch(`/api/import?${params}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: content,
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        setReport(null);
+        setError(data.error || 'Importeren mislukt');
+        return;
+      }
+
+      setReport(data);
+      if (!dryRun) {
+        onImported();
+      }
+    } catch (err) {
+      console.error('Error importing chats:', err);
+      setError('Importeren mislukt');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const content = await file.text();
+    setReport(null);
+    setFileName(file.name);
+    setFileContent(content);
+    runImport(content, source, true);
+  };
+
+  const handleSourceChange = (value: string) => {
+    setSource(value);
+    if (fileContent !== null) {
+      runImport(fileContent, value, true);
+    }
+  };
+
+  const isImported = report !== null && !report.dryRun;
+
+  return (
+    <div className={styles.overlay} onClick={onClose}>
+      <div className={styles.modal} onClick={(e) => e.stopPropagation()}>
+        <div className={styles.header}>
+          <h2 className={styles.title}>Chats importeren</h2>
+          <button
+            className={styles.closeButton}
+            onClick={onClose}
+            aria-label="Sluiten"
+          >
+            ×
+          </button>
+        </div>
+        <div className={styles.form}>
+          <div className={styles.field}>
+            <label htmlFor="import-file" className={styles.label}>
+              Exportbestand (conversations.json)
+            </label>
+            <input
+              id="import-file"
+              type="file"
+              accept=".json,application/json"
+              className={styles.input}
+              onChange={handleFileChange}
+              disabled={isWorking || isImported}
+            />
+            {fileName && <span className={styles.hint}>{fileName}</span>}
+          </div>
+          <div className={styles.field}>
+            <label htmlFor="import-source" className={styles.label}>
+              Bron
+            </label>
+            <select
+              id="import-source"
+              className={styles.input}
+              value={source}
+              onChange={(e) => handleSourceChange(e.target.value)}
+              disabled={isWorking || isImported}
+            >
+              {sourceOptions.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {error && <div className={styles.error}>{error}</div>}
+          {isWorking && <div className={styles.hint}>Bezig...</div>}
+
+          {report && (
+            <div className={styles.report}>
+              <p className={styles.summary}>
+                {isImported
+                  ? `${report.importedCount} chat(s) geïmporteerd uit ${report.source === 'chatgpt' ? 'ChatGPT' : 'Claude.ai'}.`
+                  : `${report.chats.length} chat(s) worden geïmporteerd uit ${report.source === 'chatgpt' ? 'ChatGPT' : 'Claude.ai'}.`}
+              </p>
+              {!isImported && report.chats.length > 0 && (
+                <ul className={styles.list}>
+                  {report.chats.map((chat) => (
+                    <li key={chat.externalId}>
+                      <span>{chat.title || 'Nieuwe chat'}</span>
+                      <span className={styles.hint}>
+                        {chat.messageCount} berichten · {new Date(chat.createdAt).toLocaleDateString('nl-NL')}
+                        {chat.model && ` · ${chat.model}`}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {report.skipped.length > 0 && (
+                <>
+                  <p className={styles.summary}>Overgeslagen of onvolledig ({report.skipped.length}):</p>
+                  <ul className={styles.list}>
+                    {report.skipped.map((entry, index) => (
+                      <li key={index}>
+                        <span>#{entry.index + 1} {entry.title || 'Zonder titel'}</span>
+                        <span className={styles.hint}>{entry.reason}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </>
+              )}
+            </div>
+          )}
+
+          <div className={styles.actions}>
+            <button
+              type="button"
+              className={styles.cancelButton}
+              onClick={onClose}
+              disabled={isWorking}
+            >
+              {isImported ? 'Sluiten' : 'Annuleren'}
+            </button>
+            {!isImported && (
+              <button
+                type="button"
+                className={styles.saveButton}
+                onClick={() => fileContent !== null && runImport(fileContent, source, false)}
+                disabled={isWorking || !report || report.chats.length === 0}
+              >
+                Importeren
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
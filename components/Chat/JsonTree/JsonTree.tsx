@@ -0,0 +1,59 @@
+import styles from './JsonTree.module.css';
+
+interface JsonTreeProps {
+  value: unknown;
+  name?: string;
+  depth?: number;
+}
+
+// Objects and arrays up to this depth start expanded
+const EXPANDED_DEPTH = 2;
+
+/**
+ * JsonTree component that renders a JSON value as a tree with collapsible objects and arrays
+ * @param value - The parsed JSON value
+ * @param name - The property name or array index of the value, if any
+ * @param depth - Nesting depth, used to collapse deeper levels initially
+ */
+export function JsonTree({ value, name, depth = 0 }: JsonTreeProps) {
+  const label = name !== undefined && <span className={styles.key}>{name}: </span>;
+
+  if (value !== null && typeof value === 'object') {
+    const entries = Array.isArray(value)
+      ? value.map((item, index) => [String(index), item] as const)
+      : Object.entries(value);
+    const summary = Array.isArray(value) ? `[${entries.length}]` : `{${entries.length}}`;
+
+    if (entries.length === 0) {
+      return (
+        <div className={styles.leaf}>
+          {label}
+          <span className={styles.summary}>{Array.isArray(value) ? '[]' : '{}'}</span>
+        </div>
+      );
+    }
+
+    return (
+      <details className={styles.node} open={depth < EXPANDED_DEPTH}>
+        <summary>
+          {label}
+          <span className={styles.summary}>{summary}</span>
+        </summary>
+        <div className={styles.children}>
+          {entries.map(([key, item]) => (
+            <JsonTree key={key} value={item} name={key} depth={depth + 1} />
+          ))}
+        </div>
+      </details>
+    );
+  }
+
+  const typeClass = value === null ? styles.null : styles[typeof value];
+
+  return (
+    <div className={styles.leaf}>
+      {label}
+      <span className={typeClass}>{JSON.stringify(value)}</span>
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+'use client';
+
+import ReactMarkdown, { Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import rehypeSanitize, { defaultSchema } from 'rehype-sanitize';
+import rehypeKatex from 'rehype-katex';
+import rehypeHighlight from 'rehype-highlight';
+
+import { CodeBlock } from '@/components/Chat/CodeBlock/CodeBlock';
+
+import 'katex/dist/katex.min.css';
+import styles from './Markdown.module.css';
+
+interface MarkdownProps {
+  content: string;
+}
+
+// Raw HTML is never rendered; sanitizing also strips unsafe attributes and URLs.
+// It runs before KaTeX and highlighting, so it only has to allow the classes remark-math adds
+const sanitizeSchema = {
+  ...defaultSchema,
+  attributes: {
+    ...defaultSchema.attributes,
+    code: [['className', /^language-./, 'math-inline', 'math-display']],
+  },
+};
+
+const components: Components = {
+  pre: ({ children }) => <CodeBlock>{children}</CodeBlock>,
+  a: ({ href, children }) => (
+    <a href={href} target="_blank" rel="noopener noreferrer">
+      {children}
+    </a>
+  ),
+  table: ({ children }) => (
+    <div className={styles.tableWrapper}>
+      <table>{children}</table>
+    </div>
+  ),
+};
+
+/**
+ * Markdown component that renders sanitized GitHub-flavored markdown with highlighted code and KaTeX math
+ * @param content - The markdown source, may be incomplete while a reply is streaming
+ */
+export function Markdown({ content }: MarkdownProps) {
+  return (
+    <div className={styles.markdown}>
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm, remarkMath]}
+        rehypePlugins={[[rehypeSanitize, sanitizeSchema], rehypeKatex, rehypeHighlight]}
+        components={components}
+      >
+        {content}
+      </ReactMarkdown>
+    </div>
+  );
+}
@@ -1,19 +1,259 @@
+'use client';
+
+import { useState } from 'react';
+import Image from 'next/image';
+
 import { Message } from '@/types/chat';
+import { formatCost, formatFileSize, formatTokens } from '@/lib/format';
+import { ModelSelector } from '@/components/ModelSelector/ModelSelector/ModelSelector';
+import { Markdown } from '@/components/Chat/Markdown/Markdown';
+import { JsonTree } from '@/components/Chat/JsonTree/JsonTree';
+import { parseJsonReply } from '@/lib/structuredOutput';
 
 import styles from './Message.module.css';
 
 interface MessageProps {
   message: Message;
+  isHighlighted?: boolean;
+  onEdit?: (content: string) => void;
+  onSwitchBranch?: (messageId: string) => void;
+  onFork?: () => void;
+  onRegenerate?: (model?: string) => void;
 }
 
+/**
+ * Pretty-print JSON tool arguments or results, leaving anything else as it is
+ */
+const formatToolJson = (text: string): string => {
+  try {
+    return JSON.stringify(JSON.parse(text), null, 2);
+  } catch {
+    return text;
+  }
+};
+
 /**
  * Message component that displays a single chat message
  * @param message - The message object to display
+ * @param isHighlighted - Whether the message is highlighted (e.g. opened from a search result)
+ * @param onEdit - Callback function called with the new content when an edited user message is resent
+ * @param onSwitchBranch - Callback function called with the sibling message to show instead of this one
+ * @param onFork - Callback function called to continue the conversation from this message on a new branch
+ * @param onRegenerate - Callback function called to generate an alternate reply, optionally with another model
  */
-export function Message({ message }: MessageProps) {
+export function Message({ message, isHighlighted, onEdit, onSwitchBranch, onFork, onRegenerate }: MessageProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [showModelPicker, setShowModelPicker] = useState(false);
+  const [editContent, setEditContent] = useState(message.content);
+  const hasUsage = message.promptTokens != null || message.completionTokens != null;
+  const canEdit = message.role === 'user' && !message.local && onEdit !== undefined;
+  const canFork = message.role === 'assistant' && !message.local && onFork !== undefined;
+  const canRegenerate = message.role === 'assistant' && !message.local && onRegenerate !== undefined;
+  const siblingIds = message.siblingIds ?? [];
+  const siblingIndex = siblingIds.indexOf(message.id);
+  const hasBranches = siblingIds.length > 1 && siblingIndex !== -1;
+  const attachments = message.attachments ?? [];
+  const sources = message.sources ?? [];
+  const toolCalls = message.toolCalls ?? [];
+  // Replies validated against a response schema are shown as a JSON tree
+  const structuredReply = message.schemaValid ? parseJsonReply(message.content) : null;
+
+  const startEditing = () => {
+    setEditContent(message.content);
+    setIsEditing(true);
+  };
+
+  const handleEditSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if ((!editContent.trim() && attachments.length === 0) || !onEdit) return;
+    setIsEditing(false);
+    onEdit(editContent.trim());
+  };
+
+  // Tool results are shown as a collapsed block under the call that requested them
+  if (message.role === 'tool') {
+    return (
+      <details id={`message-${message.id}`} className={`${styles.toolBlock} ${isHighlighted ? styles.highlighted : ''}`}>
+        <summary>Resultaat van {message.toolName || 'tool'}</summary>
+        <pre className={styles.toolCode}>{formatToolJson(message.content)}</pre>
+      </details>
+    );
+  }
+
+  if (isEditing) {
+    return (
+      <form className={`${styles.message} ${styles[message.role]} ${styles.editing}`} onSubmit={handleEditSubmit}>
+        <textarea
+          className={styles.editInput}
+          value={editContent}
+          onChange={(e) => setEditContent(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Escape') {
+              setIsEditing(false);
+            }
+          }}
+          rows={Math.min(10, editContent.split('\n').length + 1)}
+          autoFocus
+        />
+        <div className={styles.editActions}>
+          <button type="button" className={styles.cancelButton} onClick={() => setIsEditing(false)}>
+            Annuleren
+          </button>
+          <button type="submit" className={styles.saveButton} disabled={!editContent.trim() && attachments.length === 0}>
+            Opslaan en verzenden
+          </button>
+        </div>
+      </form>
+    );
+  }
+
   return (
-    <div className={`${styles.message} ${styles[message.role]}`}>
-      <div className={styles.content}>{message.content}</div>
+    <div
+      id={`message-${message.id}`}
+      className={`${styles.message} ${styles[message.role]} ${isHighlighted ? styles.highlighted : ''}`}
+    >
+      {attachments.length > 0 && (
+        <div className={styles.attachments}>
+          {attachments.map((attachment) =>
+            attachment.mimeType.startsWith('image/') ? (
+              <a
+                key={attachment.id}
+                href={`/api/attachments/${attachment.id}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                title={attachment.fileName}
+              >
+                <Image
+                  src={`/api/attachments/${attachment.id}`}
+                  alt={attachment.fileName}
+                  width={240}
+                  height={240}
+                  className={styles.attachmentImage}
+                  unoptimized
+                />
+              </a>
+            ) : (
+              <a
+                key={attachment.id}
+                href={`/api/attachments/${attachment.id}`}
+                className={styles.attachmentFile}
+                download={attachment.fileName}
+              >
+                <span>{attachment.fileName}</span>
+                <span className={styles.attachmentSize}>{formatFileSize(attachment.size)}</span>
+              </a>
+            )
+          )}
+        </div>
+      )}
+      {structuredReply && structuredReply.error === undefined ? (
+        <div className={styles.content}>
+          <JsonTree value={structuredReply.value} />
+        </div>
+      ) : message.content && (
+        <div className={styles.content}>
+          {message.role === 'assistant' ? <Markdown content={message.content} /> : message.content}
+        </div>
+      )}
+      {toolCalls.map((toolCall) => (
+        <details key={toolCall.id} className={styles.toolCall}>
+          <summary>Tool aangeroepen: {toolCall.name}</summary>
+          <pre className={styles.toolCode}>{formatToolJson(toolCall.arguments)}</pre>
+        </details>
+      ))}
+      {sources.length > 0 && (
+        <details className={styles.sources}>
+          <summary>Bronnen ({sources.length})</summary>
+          <ol>
+            {sources.map((source) => (
+              <li key={source.index} value={source.index}>
+                <span className={styles.sourceTitle}>{source.documentName}</span>
+                <span className={styles.sourceCollection}>{source.collectionName}</span>
+                <p className={styles.sourceExcerpt}>
+                  {source.content.length > 300 ? `${source.content.substring(0, 300)}…` : source.content}
+                </p>
+              </li>
+            ))}
+          </ol>
+        </details>
+      )}
+      {message.role === 'assistant' && (message.model || message.truncated || hasUsage || message.schemaValid != null) && (
+        <div className={styles.meta}>
+          {message.model && <span>{message.model}</span>}
+          {hasUsage && (
+            <span title={`${formatTokens(message.promptTokens ?? 0)} prompt + ${formatTokens(message.completionTokens ?? 0)} completion tokens`}>
+              {formatTokens((message.promptTokens ?? 0) + (message.completionTokens ?? 0))} tokens
+              {message.cost != null && ` · ${formatCost(message.cost)}`}
+            </span>
+          )}
+          {message.truncated && <span className={styles.truncated}>Onderbroken</span>}
+          {message.schemaValid === true && <span>Geldige JSON</span>}
+          {message.schemaValid === false && (
+            <span className={styles.schemaInvalid}>Voldoet niet aan het JSON-schema</span>
+          )}
+        </div>
+      )}
+      {(canEdit || canFork || canRegenerate || hasBranches) && (
+        <div className={styles.actions}>
+          {hasBranches && (
+            <div className={styles.branchNavigator}>
+              <button
+                type="button"
+                className={styles.actionButton}
+                onClick={() => onSwitchBranch?.(siblingIds[siblingIndex - 1])}
+                disabled={!onSwitchBranch || siblingIndex === 0}
+                aria-label="Vorige versie"
+              >
+                ‹
+              </button>
+              <span>{siblingIndex + 1}/{siblingIds.length}</span>
+              <button
+                type="button"
+                className={styles.actionButton}
+                onClick={() => onSwitchBranch?.(siblingIds[siblingIndex + 1])}
+                disabled={!onSwitchBranch || siblingIndex === siblingIds.length - 1}
+                aria-label="Volgende versie"
+              >
+                ›
+              </button>
+            </div>
+          )}
+          {canEdit && (
+            <button type="button" className={`${styles.actionButton} ${styles.hoverAction}`} onClick={startEditing}>
+              Bewerken
+            </button>
+          )}
+          {canRegenerate && (
+            <>
+              <button type="button" className={`${styles.actionButton} ${styles.hoverAction}`} onClick={() => onRegenerate?.()}>
+                Opnieuw genereren
+              </button>
+              <button
+                type="button"
+                className={`${styles.actionButton} ${styles.hoverAction}`}
+                onClick={() => setShowModelPicker(!showModelPicker)}
+              >
+                Met ander model
+              </button>
+            </>
+          )}
+          {canFork && (
+            <button type="button" className={`${styles.actionButton} ${styles.hoverAction}`} onClick={onFork}>
+              Vanaf hier vertakken
+            </button>
+          )}
+        </div>
+      )}
+      {canRegenerate && showModelPicker && (
+        <ModelSelector
+          selectedModel={message.model || ''}
+          onModelChange={(model) => {
+            setShowModelPicker(false);
+            onRegenerate?.(model);
+          }}
+          defaultOpen
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,197 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+
+import { PromptSummary } from '@/types/chat';
+
+import styles from './PromptCatalog.module.css';
+
+interface PromptCatalogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+// Characters of a prompt's content shown in the list
+const PREVIEW_LENGTH = 160;
+
+/**
+ * PromptCatalog component - modal for browsing the organization's prompt catalog
+ * Starred prompts are added to the user's prompt library; copies become private prompts of the user
+ * @param isOpen - Whether the modal is open
+ * @param onClose - Callback when modal should be closed
+ * @param onChanged - Callback after a prompt was starred, unstarred or copied
+ */
+export function PromptCatalog({ isOpen, onClose, onChanged }: PromptCatalogProps) {
+  const [prompts, setPrompts] = useState<PromptSummary[]>([]);
+  const [query, setQuery] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copiedIds, setCopiedIds] = useState<string[]>([]);
+
+  // Start with a clean search every time the catalog is opened
+  useEffect(() => {
+    if (isOpen) {
+      setQuery('');
+      setCopiedIds([]);
+      setError(null);
+    }
+  }, [isOpen]);
+
+  // Search the catalog as the query changes, waiting for the user to stop typing
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const timeout = setTimeout(() => loadCatalog(query), 250);
+    return () => clearTimeout(timeout);
+  }, [isOpen, query]);
+
+  /**
+   * Load the catalog prompts matching a search query
+   */
+  const loadCatalog = async (searchQuery: string) => {
+    try {
+      setIsLoading(true);
+      const params = new URLSearchParams({ scope: 'catalog' });
+      if (searchQuery.trim()) {
+        params.set('q', searchQuery.trim());
+      }
+
+      const response = await fetch(`/api/prompts?${params}`);
+      if (!response.ok) {
+        throw new Error('Failed to load prompt catalog');
+      }
+
+      const data = await response.json();
+      setPrompts(data.prompts || []);
+      setError(null);
+    } catch (err) {
+      console.error('Error loading prompt catalog:', err);
+      setError('Catalogus laden mislukt');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  /**
+   * Star or unstar a catalog prompt
+   */
+  const toggleStar = async (prompt: PromptSummary) => {
+    try {
+      const response = await fetch(`/api/prompts/${prompt.id}/star`, {
+        method: prompt.starred ? 'DELETE' : 'PUT',
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to update star');
+      }
+
+      setPrompts((prev) =>
+        prev.map((p) =>
+          p.id === prompt.id
+            ? { ...p, starred: !prompt.starred, starCount: p.starCount + (prompt.starred ? -1 : 1) }
+            : p
+        )
+      );
+      onChanged();
+    } catch (err) {
+      console.error('Error updating star:', err);
+      setError('Ster bijwerken mislukt');
+    }
+  };
+
+  /**
+   * Copy a catalog prompt into the user's own prompts
+   */
+  const copyPrompt = async (prompt: PromptSummary) => {
+    try {
+      const response = await fetch(`/api/prompts/${prompt.id}/copy`, {
+        method: 'POST',
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to copy prompt');
+      }
+
+      setCopiedIds((prev) => [...prev, prompt.id]);
+      onChanged();
+    } catch (err) {
+      console.error('Error copying prompt:', err);
+      setError('Kopiëren mislukt');
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className={styles.overlay} onClick={onClose}>
+      <div className={styles.modal} onClick={(e) => e.stopPropagation()}>
+        <div className={styles.header}>
+          <h2 className={styles.title}>Promptcatalogus</h2>
+          <button
+            className={styles.closeButton}
+            onClick={onClose}
+            aria-label="Sluiten"
+          >
+            ×
+          </button>
+        </div>
+        <input
+          type="search"
+          className={styles.input}
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Zoek op titel of inhoud"
+          autoFocus
+        />
+        <p className={styles.hint}>
+          Prompts met een ster kun je gebruiken met /titel. Een kopie wordt een eigen privé prompt die je kunt aanpassen.
+        </p>
+        {error && <div className={styles.error}>{error}</div>}
+        {isLoading && prompts.length === 0 ? (
+          <div className={styles.hint}>Laden...</div>
+        ) : prompts.length === 0 ? (
+          <div className={styles.hint}>Geen prompts gevonden</div>
+        ) : (
+          <ul className={styles.list}>
+            {prompts.map((prompt) => (
+              <li key={prompt.id} className={styles.item}>
+                <div className={styles.itemHeader}>
+                  <span className={styles.itemTitle}>/{prompt.title}</span>
+                  <span className={styles.hint}>
+                    {prompt.isOwner ? 'Van jou' : prompt.ownerName} · {prompt.starCount} {prompt.starCount === 1 ? 'ster' : 'sterren'}
+                  </span>
+                </div>
+                <p className={styles.preview}>
+                  {prompt.content.length > PREVIEW_LENGTH
+                    ? `${prompt.content.substring(0, PREVIEW_LENGTH)}...`
+                    : prompt.content}
+                </p>
+                <div className={styles.itemActions}>
+                  <button
+                    type="button"
+                    className={`${styles.actionButton} ${prompt.starred ? styles.starred : ''}`}
+                    onClick={() => toggleStar(prompt)}
+                    aria-pressed={prompt.starred}
+                  >
+                    {prompt.starred ? '★ Ster gegeven' : '☆ Ster geven'}
+                  </button>
+                  {!prompt.isOwner && (
+                    <button
+                      type="button"
+                      className={styles.actionButton}
+                      onClick={() => copyPrompt(prompt)}
+                      disabled={copiedIds.includes(prompt.id)}
+                    >
+                      {copiedIds.includes(prompt.id) ? 'Gekopieerd' : 'Kopiëren'}
+                    </button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
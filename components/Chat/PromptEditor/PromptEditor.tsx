@@ -1,34 +1,83 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+
+import { parseTemplate } from '@/lib/promptTemplate';
+import { PromptSummary, PromptVisibility } from '@/types/chat';
+import { PromptVersions } from '@/components/Chat/PromptVersions/PromptVersions';
+
 import styles from './PromptEditor.module.css';
 
 interface PromptEditorProps {
   isOpen: boolean;
   onClose: () => void;
-  onSave: (title: string, content: string) => Promise<void>;
+  onSave: (
+    title: string,
+    content: string,
+    responseSchema: unknown,
+    sharing: PromptSharing,
+    tags: string[]
+  ) => Promise<void>;
   initialTitle?: string;
   initialContent?: string;
+  initialResponseSchema?: unknown;
+  initialVisibility?: PromptVisibility;
+  initialSharedWith?: string[];
+  initialTags?: string[];
+  promptId?: string;
+  onRestored?: (prompt: PromptSummary) => void;
+}
+
+/**
+ * Who a prompt is shared with, as sent to the prompts API
+ */
+export interface PromptSharing {
+  visibility: PromptVisibility;
+  sharedWith: string[];
 }
 
 /**
  * PromptEditor component - modal for creating/editing prompts
  * @param isOpen - Whether the modal is open
  * @param onClose - Callback when modal should be closed
- * @param onSave - Callback when prompt should be saved
+ * @param onSave - Callback when prompt should be saved, with the parsed response schema or null, the sharing settings and the tags
+ * @param promptId - The prompt being edited, whose versions are shown
+ * @param onRestored - Callback when an earlier version of the prompt was restored
  */
-export function PromptEditor({ isOpen, onClose, onSave, initialTitle, initialContent }: PromptEditorProps) {
+export function PromptEditor({
+  isOpen,
+  onClose,
+  onSave,
+  initialTitle,
+  initialContent,
+  initialResponseSchema,
+  initialVisibility,
+  initialSharedWith,
+  initialTags,
+  promptId,
+  onRestored,
+}: PromptEditorProps) {
   const [title, setTitle] = useState(initialTitle || '');
   const [content, setContent] = useState(initialContent || '');
+  const [responseSchema, setResponseSchema] = useState('');
+  const [visibility, setVisibility] = useState<PromptVisibility>('private');
+  const [sharedWith, setSharedWith] = useState('');
+  const [tags, setTags] = useState('');
   const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
 
   // Update state when initial values change (for editing)
   useEffect(() => {
     if (isOpen) {
       setTitle(initialTitle || '');
       setContent(initialContent || '');
+      setResponseSchema(initialResponseSchema ? JSON.stringify(initialResponseSchema, null, 2) : '');
+      setVisibility(initialVisibility || 'private');
+      setSharedWith((initialSharedWith || []).join(', '));
+      setTags((initialTags || []).join(', '));
+      setError(null);
     }
-  }, [isOpen, initialTitle, initialContent]);
+  }, [isOpen, initialTitle, initialContent, initialResponseSchema, initialVisibility, initialSharedWith, initialTags]);
 
   if (!isOpen) return null;
 
@@ -39,22 +88,59 @@ export function PromptEditor({ isOpen, onClose, onSave, initialTitle, initialCon
       return;
     }
 
+    const template = parseTemplate(content);
+    if (template.error !== undefined) {
+      setError(`Ongeldige variabele: ${template.error}`);
+      return;
+    }
+
+    let parsedSchema: unknown = null;
+    if (responseSchema.trim()) {
+      try {
+        parsedSchema = JSON.parse(responseSchema);
+      } catch {
+        setError('Het JSON-schema is geen geldige JSON');
+        return;
+      }
+    }
+
     setIsSaving(true);
+    setError(null);
     try {
-      await onSave(title.trim(), content.trim());
+      const sharing: PromptSharing = {
+        visibility,
+        sharedWith: sharedWith.split(/[\s,;]+/).filter((email) => email.length > 0),
+      };
+      const tagList = tags.split(',').map((tag) => tag.trim()).filter((tag) => tag.length > 0);
+      await onSave(title.trim(), content.trim(), parsedSchema, sharing, tagList);
       setTitle('');
       setContent('');
+      setResponseSchema('');
       onClose();
     } catch (error) {
       console.error('Error saving prompt:', error);
+      setError(error instanceof Error && error.message ? `Opslaan mislukt: ${error.message}` : 'Opslaan mislukt');
     } finally {
       setIsSaving(false);
     }
   };
 
+  const variables = parseTemplate(content).value ?? [];
+
+  /**
+   * Show a restored version in the editor
+   */
+  const handleRestored = (prompt: PromptSummary) => {
+    setTitle(prompt.title);
+    setContent(prompt.content);
+    setResponseSchema(prompt.responseSchema ? JSON.stringify(prompt.responseSchema, null, 2) : '');
+    onRestored?.(prompt);
+  };
+
   const handleCancel = () => {
     setTitle('');
     setContent('');
+    setResponseSchema('');
     onClose();
   };
 
@@ -101,7 +187,84 @@ export function PromptEditor({ isOpen, onClose, onSave, initialTitle, initialCon
               required
               disabled={isSaving}
             />
+            <span className={styles.hint}>
+              {variables.length > 0
+                ? `Variabelen: ${variables.map((variable) => variable.name).join(', ')}`
+                : 'Gebruik {{taal}}, {{taal=Engels}}, {{aantal:number}} of {{toon:formeel|informeel}} voor variabelen die je invult bij gebruik.'}
+            </span>
+          </div>
+          <div className={styles.field}>
+            <label htmlFor="prompt-response-schema" className={styles.label}>
+              JSON-schema voor antwoorden (optioneel)
+            </label>
+            <textarea
+              id="prompt-response-schema"
+              className={`${styles.textarea} ${styles.code}`}
+              value={responseSchema}
+              onChange={(e) => setResponseSchema(e.target.value)}
+              placeholder={'{ "type": "object", "properties": { ... } }'}
+              rows={4}
+              disabled={isSaving}
+            />
+            <span className={styles.hint}>Antwoorden op deze prompt worden als JSON gevraagd en tegen het schema gecontroleerd.</span>
+          </div>
+          <div className={styles.field}>
+            <label htmlFor="prompt-tags" className={styles.label}>
+              Tags (optioneel)
+            </label>
+            <input
+              id="prompt-tags"
+              type="text"
+              className={styles.input}
+              value={tags}
+              onChange={(e) => setTags(e.target.value)}
+              placeholder="vertalen, e-mail"
+              disabled={isSaving}
+            />
+          </div>
+          <div className={styles.field}>
+            <label htmlFor="prompt-visibility" className={styles.label}>
+              Zichtbaarheid
+            </label>
+            <select
+              id="prompt-visibility"
+              className={styles.input}
+              value={visibility}
+              onChange={(e) => setVisibility(e.target.value as PromptVisibility)}
+              disabled={isSaving}
+            >
+              <option value="private">Privé</option>
+              <option value="shared">Gedeeld met specifieke gebruikers</option>
+              <option value="org">Organisatiecatalogus</option>
+            </select>
+            {visibility === 'org' && (
+              <span className={styles.hint}>Iedereen in de organisatie kan deze prompt vinden, kopiëren en een ster geven.</span>
+            )}
           </div>
+          {visibility === 'shared' && (
+            <div className={styles.field}>
+              <label htmlFor="prompt-shared-with" className={styles.label}>
+                Delen met
+              </label>
+              <input
+                id="prompt-shared-with"
+                type="text"
+                className={styles.input}
+                value={sharedWith}
+                onChange={(e) => setSharedWith(e.target.value)}
+                placeholder="naam@voorbeeld.nl, collega@voorbeeld.nl"
+                disabled={isSaving}
+              />
+              <span className={styles.hint}>E-mailadressen, gescheiden door komma&apos;s. Deze gebruikers kunnen de prompt gebruiken met /titel.</span>
+            </div>
+          )}
+          {promptId && (
+            <details className={styles.versions}>
+              <summary className={styles.label}>Versies</summary>
+              <PromptVersions promptId={promptId} onRestored={handleRestored} />
+            </details>
+          )}
+          {error && <div className={styles.error}>{error}</div>}
           <div className={styles.actions}>
             <button
               type="button"
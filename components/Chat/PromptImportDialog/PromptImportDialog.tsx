@@ -0,0 +1,227 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+
+import { PromptImportItem, PromptImportMode, PromptImportReport } from '@/types/chat';
+
+import styles from './PromptImportDialog.module.css';
+
+interface PromptImportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onImported: () => void;
+}
+
+const modeOptions: { value: PromptImportMode; label: string }[] = [
+  { value: 'skip', label: 'Overslaan' },
+  { value: 'overwrite', label: 'Overschrijven' },
+  { value: 'rename', label: 'Onder een nieuwe titel opslaan' },
+];
+
+/**
+ * Describe the outcome for a prompt in the report
+ */
+const describeItem = (item: PromptImportItem, dryRun: boolean): string => {
+  switch (item.status) {
+    case 'created':
+      if (item.renamedTo) {
+        return dryRun ? `Wordt toegevoegd als ${item.renamedTo}` : `Toegevoegd als ${item.renamedTo}`;
+      }
+      return dryRun ? 'Wordt toegevoegd' : 'Toegevoegd';
+    case 'updated':
+      return dryRun ? 'Overschrijft de bestaande prompt' : 'Bestaande prompt overschreven';
+    case 'skipped':
+      return `Overgeslagen: ${item.reason}`;
+    case 'invalid':
+      return 'Ongeldig';
+  }
+};
+
+/**
+ * PromptImportDialog component - modal for importing prompts from a JSON or YAML prompt file
+ * Shows a dry-run report per prompt before anything is saved
+ * @param isOpen - Whether the modal is open
+ * @param onClose - Callback when modal should be closed
+ * @param onImported - Callback after prompts were imported
+ */
+export function PromptImportDialog({ isOpen, onClose, onImported }: PromptImportDialogProps) {
+  const [fileContent, setFileContent] = useState<string | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [mode, setMode] = useState<PromptImportMode>('skip');
+  const [report, setReport] = useState<PromptImportReport | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Start with a clean dialog every time it is opened
+  useEffect(() => {
+    if (isOpen) {
+      setFileContent(null);
+      setFileName('');
+      setMode('skip');
+      setReport(null);
+      setError(null);
+    }
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  /**
+   * Send the prompt file to the import API
+   * @param content - The contents of the prompt file
+   * @param importMode - What to do with prompts whose title is already taken
+   * @param dryRun - Only preview the import
+   */
+  const runImport = async (content: string, importMode: PromptImportMode, dryRun: boolean) => {
+    try {
+      setIsWorking(true);
+      setError(null);
+      const params = new URLSearchParams({ mode: importMode, dryRun: dryRun ? '1' : '0' });
+
+      const response = await fetch(`/api/prompts/import?${params}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'text/plain',
+        },
+        body: content,
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        setReport(null);
+        setError(data.error || 'Importeren mislukt');
+        return;
+      }
+
+      setReport(data);
+      if (!dryRun) {
+        onImported();
+      }
+    } catch (err) {
+      console.error('Error importing prompts:', err);
+      setError('Importeren mislukt');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const content = await file.text();
+    setReport(null);
+    setFileName(file.name);
+    setFileContent(content);
+    runImport(content, mode, true);
+  };
+
+  const handleModeChange = (value: PromptImportMode) => {
+    setMode(value);
+    if (fileContent !== null) {
+      runImport(fileContent, value, true);
+    }
+  };
+
+  const isImported = report !== null && !report.dryRun;
+  const changeCount = report ? report.createdCount + report.updatedCount : 0;
+
+  return (
+    <div className={styles.overlay} onClick={onClose}>
+      <div className={styles.modal} onClick={(e) => e.stopPropagation()}>
+        <div className={styles.header}>
+          <h2 className={styles.title}>Prompts importeren</h2>
+          <button
+            className={styles.closeButton}
+            onClick={onClose}
+            aria-label="Sluiten"
+          >
+            ×
+          </button>
+        </div>
+        <div className={styles.form}>
+          <div className={styles.field}>
+            <label htmlFor="prompt-import-file" className={styles.label}>
+              Promptbestand (JSON of YAML)
+            </label>
+            <input
+              id="prompt-import-file"
+              type="file"
+              accept=".json,.yaml,.yml,application/json,application/yaml"
+              className={styles.input}
+              onChange={handleFileChange}
+              disabled={isWorking || isImported}
+            />
+            {fileName && <span className={styles.hint}>{fileName}</span>}
+          </div>
+          <div className={styles.field}>
+            <label htmlFor="prompt-import-mode" className={styles.label}>
+              Als de titel al bestaat
+            </label>
+            <select
+              id="prompt-import-mode"
+              className={styles.input}
+              value={mode}
+              onChange={(e) => handleModeChange(e.target.value as PromptImportMode)}
+              disabled={isWorking || isImported}
+            >
+              {modeOptions.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {error && <div className={styles.error}>{error}</div>}
+          {isWorking && <div className={styles.hint}>Bezig...</div>}
+
+          {report && (
+            <div className={styles.report}>
+              <p className={styles.summary}>
+                {isImported
+                  ? `${report.createdCount} prompt(s) toegevoegd, ${report.updatedCount} overschreven.`
+                  : `${report.createdCount} prompt(s) worden toegevoegd, ${report.updatedCount} overschreven.`}
+                {report.skippedCount > 0 && ` ${report.skippedCount} overgeslagen.`}
+                {report.invalidCount > 0 && ` ${report.invalidCount} ongeldig.`}
+              </p>
+              {report.items.length > 0 && (
+                <ul className={styles.list}>
+                  {report.items.map((item) => (
+                    <li key={item.index}>
+                      <span>#{item.index + 1} {item.title || 'Zonder titel'}</span>
+                      <span className={styles.hint}>{describeItem(item, report.dryRun)}</span>
+                      {item.errors.map((itemError, index) => (
+                        <span key={index} className={styles.invalid}>{itemError}</span>
+                      ))}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
+          <div className={styles.actions}>
+            <button
+              type="button"
+              className={styles.cancelButton}
+              onClick={onClose}
+              disabled={isWorking}
+            >
+              {isImported ? 'Sluiten' : 'Annuleren'}
+            </button>
+            {!isImported && (
+              <button
+                type="button"
+                className={styles.saveButton}
+                onClick={() => fileContent !== null && runImport(fileContent, mode, false)}
+                disabled={isWorking || changeCount === 0}
+              >
+                Importeren
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+'use client';
+
+import { useState } from 'react';
+
+import { TemplateVariable } from '@/lib/promptTemplate';
+
+import styles from './PromptVariablesForm.module.css';
+
+interface PromptVariablesFormProps {
+  promptTitle: string;
+  variables: TemplateVariable[];
+  onSubmit: (values: Record<string, string>) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Check a filled in value, returning why it is invalid or null
+ */
+const validateValue = (variable: TemplateVariable, value: string): string | null => {
+  if (value.trim() === '') {
+    return variable.default === undefined ? 'Vul een waarde in' : null;
+  }
+  if (variable.type === 'number' && !Number.isFinite(Number(value))) {
+    return 'Vul een getal in';
+  }
+  if (variable.options && !variable.options.includes(value)) {
+    return 'Kies een van de opties';
+  }
+  return null;
+};
+
+/**
+ * PromptVariablesForm component that asks for the values of a prompt template's variables
+ * @param promptTitle - The title of the prompt being used
+ * @param variables - The template variables to fill in
+ * @param onSubmit - Callback function called with the values by variable name; empty fields are left out so their default is used
+ * @param onCancel - Callback function called when the prompt should not be sent
+ */
+export function PromptVariablesForm({ promptTitle, variables, onSubmit, onCancel }: PromptVariablesFormProps) {
+  const [values, setValues] = useState<Record<string, string>>(() =>
+    Object.fromEntries(variables.map((variable) => [variable.name, variable.default ?? '']))
+  );
+  const [showErrors, setShowErrors] = useState(false);
+
+  const errors = Object.fromEntries(
+    variables.map((variable) => [variable.name, validateValue(variable, values[variable.name] ?? '')])
+  );
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (Object.values(errors).some((error) => error !== null)) {
+      setShowErrors(true);
+      return;
+    }
+
+    onSubmit(Object.fromEntries(
+      Object.entries(values)
+        .map(([name, value]) => [name, value.trim()])
+        .filter(([, value]) => value !== '')
+    ));
+  };
+
+  return (
+    <form className={styles.form} onSubmit={handleSubmit}>
+      <span className={styles.title}>/{promptTitle} invullen</span>
+      <div className={styles.fields}>
+        {variables.map((variable, index) => {
+          const id = `prompt-variable-${variable.name}`;
+          const error = showErrors ? errors[variable.name] : null;
+          const setValue = (value: string) => setValues((prev) => ({ ...prev, [variable.name]: value }));
+
+          return (
+            <div key={variable.name} className={styles.field}>
+              <label htmlFor={id} className={styles.label}>{variable.name}</label>
+              {variable.options ? (
+                <select
+                  id={id}
+                  className={styles.input}
+                  value={values[variable.name]}
+                  onChange={(e) => setValue(e.target.value)}
+                  autoFocus={index === 0}
+                >
+                  {variable.default === undefined && <option value="">Kies...</option>}
+                  {variable.options.map((option) => (
+                    <option key={option} value={option}>{option}</option>
+                  ))}
+                </select>
+              ) : (
+                <input
+                  id={id}
+                  type={variable.type === 'number' ? 'number' : 'text'}
+                  step="any"
+                  className={styles.input}
+                  value={values[variable.name]}
+                  onChange={(e) => setValue(e.target.value)}
+                  placeholder={variable.default}
+                  autoFocus={index === 0}
+                />
+              )}
+              {error && <span className={styles.error}>{error}</span>}
+            </div>
+          );
+        })}
+      </div>
+      <div className={styles.actions}>
+        <button type="button" className={styles.cancelButton} onClick={onCancel}>
+          Annuleren
+        </button>
+        <button type="submit" className={styles.submitButton}>
+          Versturen
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,160 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+
+import { PromptSummary, PromptVersionSummary } from '@/types/chat';
+import { diffLines } from '@/lib/textDiff';
+
+import styles from './PromptVersions.module.css';
+
+interface PromptVersionsProps {
+  promptId: string;
+  onRestored: (prompt: PromptSummary) => void;
+}
+
+/**
+ * The text of a version that is compared: its title, content and response schema
+ */
+const versionText = (version: PromptVersionSummary): string =>
+  [
+    `# ${version.title}`,
+    '',
+    version.content,
+    ...(version.responseSchema ? ['', 'JSON-schema:', JSON.stringify(version.responseSchema, null, 2)] : []),
+  ].join('\n');
+
+const DIFF_MARKERS = { same: ' ', added: '+', removed: '-' };
+
+/**
+ * PromptVersions component that lists the saved versions of a prompt, shows the difference
+ * between any two of them and restores an earlier version
+ * @param promptId - The prompt whose versions are shown
+ * @param onRestored - Callback function called with the updated prompt after a version was restored
+ */
+export function PromptVersions({ promptId, onRestored }: PromptVersionsProps) {
+  const [versions, setVersions] = useState<PromptVersionSummary[]>([]);
+  const [fromId, setFromId] = useState('');
+  const [toId, setToId] = useState('');
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load the versions when another prompt is shown
+  useEffect(() => {
+    loadVersions(promptId);
+  }, [promptId]);
+
+  /**
+   * Load the versions of a prompt, comparing the latest version with the one before it
+   */
+  const loadVersions = async (id: string) => {
+    try {
+      const response = await fetch(`/api/prompts/${id}/versions`);
+
+      if (!response.ok) {
+        throw new Error('Failed to load prompt versions');
+      }
+
+      const data = await response.json();
+      const loaded: PromptVersionSummary[] = data.versions || [];
+      setVersions(loaded);
+      setToId(loaded[0]?.id ?? '');
+      setFromId(loaded[1]?.id ?? loaded[0]?.id ?? '');
+      setError(null);
+    } catch (err) {
+      console.error('Error loading prompt versions:', err);
+      setError('Versies laden mislukt');
+    }
+  };
+
+  /**
+   * Restore an earlier version, which is saved as a new version
+   */
+  const restoreVersion = async (version: PromptVersionSummary) => {
+    try {
+      setIsRestoring(true);
+      const response = await fetch(`/api/prompts/${promptId}/rollback`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ versionId: version.id }),
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to roll back prompt');
+      }
+
+      const data = await response.json();
+      onRestored(data.prompt);
+      await loadVersions(promptId);
+    } catch (err) {
+      console.error('Error rolling back prompt:', err);
+      setError('Terugzetten mislukt');
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const from = versions.find((version) => version.id === fromId);
+  const to = versions.find((version) => version.id === toId);
+  const diff = from && to ? diffLines(versionText(from), versionText(to)) : [];
+
+  const versionOptions = versions.map((version) => (
+    <option key={version.id} value={version.id}>
+      v{version.version} · {new Date(version.createdAt).toLocaleString('nl-NL')}
+    </option>
+  ));
+
+  return (
+    <div className={styles.container}>
+      {error && <div className={styles.error}>{error}</div>}
+      <ul className={styles.list}>
+        {versions.map((version, index) => (
+          <li key={version.id} className={styles.item}>
+            <span>
+              <strong>v{version.version}</strong> {version.title}
+              <span className={styles.hint}> · {new Date(version.createdAt).toLocaleString('nl-NL')}</span>
+            </span>
+            {index === 0 ? (
+              <span className={styles.hint}>Huidige versie</span>
+            ) : (
+              <button
+                type="button"
+                className={styles.restoreButton}
+                onClick={() => restoreVersion(version)}
+                disabled={isRestoring}
+              >
+                Terugzetten
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+      {versions.length > 1 && (
+        <>
+          <div className={styles.compare}>
+            <label className={styles.hint}>
+              Van
+              <select className={styles.select} value={fromId} onChange={(e) => setFromId(e.target.value)}>
+                {versionOptions}
+              </select>
+            </label>
+            <label className={styles.hint}>
+              Naar
+              <select className={styles.select} value={toId} onChange={(e) => setToId(e.target.value)}>
+                {versionOptions}
+              </select>
+            </label>
+          </div>
+          <pre className={styles.diff}>
+            {diff.map((line, index) => (
+              <div key={index} className={styles[line.type]}>
+                {DIFF_MARKERS[line.type]} {line.text}
+              </div>
+            ))}
+          </pre>
+        </>
+      )}
+    </div>
+  );
+}
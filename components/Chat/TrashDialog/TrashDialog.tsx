@@ -0,0 +1,202 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+
+import { TrashItem } from '@/types/chat';
+
+import styles from './TrashDialog.module.css';
+
+interface TrashDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+/**
+ * Describe when a deleted item is removed for good
+ */
+const describePurge = (item: TrashItem): string => {
+  const days = Math.ceil((new Date(item.purgeAt).getTime() - Date.now()) / (1000 * 60 * 60 * 24));
+
+  if (days <= 0) {
+    return 'Wordt binnenkort definitief verwijderd';
+  }
+  return days === 1 ? 'Nog 1 dag in de prullenbak' : `Nog ${days} dagen in de prullenbak`;
+};
+
+/**
+ * TrashDialog component - modal listing the deleted chats and prompts of the user
+ * Items can be restored until their retention period is over, or deleted for good right away
+ * @param isOpen - Whether the modal is open
+ * @param onClose - Callback when modal should be closed
+ * @param onChanged - Callback after an item was restored, so the chat list can reload
+ */
+export function TrashDialog({ isOpen, onClose, onChanged }: TrashDialogProps) {
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [retentionDays, setRetentionDays] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isConfirmingEmpty, setIsConfirmingEmpty] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load the trash every time the dialog is opened
+  useEffect(() => {
+    if (isOpen) {
+      setIsConfirmingEmpty(false);
+      setError(null);
+      loadTrash();
+    }
+  }, [isOpen]);
+
+  /**
+   * Load the deleted chats and prompts that can still be restored
+   */
+  const loadTrash = async () => {
+    try {
+      setIsLoading(true);
+      const response = await fetch('/api/trash');
+
+      if (!response.ok) {
+        throw new Error('Failed to load trash');
+      }
+
+      const data = await response.json();
+      setItems(data.items || []);
+      setRetentionDays(data.retentionDays ?? null);
+    } catch (err) {
+      console.error('Error loading trash:', err);
+      setError('Prullenbak laden mislukt');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  /**
+   * Restore a chat or prompt from the trash
+   */
+  const restoreItem = async (item: TrashItem) => {
+    try {
+      const response = await fetch('/api/trash/restore', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ type: item.type, id: item.id }),
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to restore item');
+      }
+
+      setItems((prev) => prev.filter((i) => i.id !== item.id));
+      onChanged();
+    } catch (err) {
+      console.error('Error restoring item:', err);
+      setError('Terugzetten mislukt');
+    }
+  };
+
+  /**
+   * Delete a single item for good, or with no item the whole trash
+   */
+  const deleteForGood = async (item?: TrashItem) => {
+    try {
+      const params = item ? `?${new URLSearchParams({ type: item.type, id: item.id })}` : '';
+      const response = await fetch(`/api/trash${params}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to delete from trash');
+      }
+
+      setItems((prev) => (item ? prev.filter((i) => i.id !== item.id) : []));
+      setIsConfirmingEmpty(false);
+    } catch (err) {
+      console.error('Error deleting from trash:', err);
+      setError('Definitief verwijderen mislukt');
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className={styles.overlay} onClick={onClose}>
+      <div className={styles.modal} onClick={(e) => e.stopPropagation()}>
+        <div className={styles.header}>
+          <h2 className={styles.title}>Prullenbak</h2>
+          <button
+            className={styles.closeButton}
+            onClick={onClose}
+            aria-label="Sluiten"
+          >
+            ×
+          </button>
+        </div>
+        {retentionDays !== null && (
+          <p className={styles.hint}>
+            Verwijderde chats en prompts blijven {retentionDays} dagen in de prullenbak. Daarna worden ze definitief verwijderd.
+          </p>
+        )}
+        {error && <div className={styles.error}>{error}</div>}
+        {isLoading && items.length === 0 ? (
+          <div className={styles.hint}>Laden...</div>
+        ) : items.length === 0 ? (
+          <div className={styles.hint}>De prullenbak is leeg</div>
+        ) : (
+          <ul className={styles.list}>
+            {items.map((item) => (
+              <li key={`${item.type}-${item.id}`} className={styles.item}>
+                <div className={styles.itemHeader}>
+                  <span className={styles.itemTitle}>
+                    {item.type === 'chat' ? item.title || 'Nieuwe chat' : `/${item.title}`}
+                  </span>
+                  <span className={styles.hint}>{item.type === 'chat' ? 'Chat' : 'Prompt'}</span>
+                </div>
+                <span className={styles.hint}>{describePurge(item)}</span>
+                <div className={styles.itemActions}>
+                  <button type="button" className={styles.actionButton} onClick={() => restoreItem(item)}>
+                    Terugzetten
+                  </button>
+                  <button
+                    type="button"
+                    className={`${styles.actionButton} ${styles.danger}`}
+                    onClick={() => deleteForGood(item)}
+                  >
+                    Definitief verwijderen
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+        {items.length > 0 && (
+          <div className={styles.footer}>
+            {isConfirmingEmpty ? (
+              <>
+                <span className={styles.hint}>Alles in de prullenbak wordt definitief verwijderd.</span>
+                <button type="button" className={styles.actionButton} onClick={() => setIsConfirmingEmpty(false)}>
+                  Annuleren
+                </button>
+                <button
+                  type="button"
+                  className={`${styles.actionButton} ${styles.danger}`}
+                  onClick={() => deleteForGood()}
+                >
+                  Leegmaken
+                </button>
+              </>
+            ) : (
+              <button
+                type="button"
+                className={`${styles.actionButton} ${styles.danger}`}
+                onClick={() => setIsConfirmingEmpty(true)}
+              >
+                Prullenbak leegmaken
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,318 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+
+import { CollectionDocument, CollectionSummary } from '@/types/chat';
+import { formatFileSize } from '@/lib/format';
+
+import styles from './KnowledgeBase.module.css';
+
+/**
+ * KnowledgeBase component for managing knowledge base collections and their documents
+ * Collections are attached to chats in the chat settings
+ */
+export function KnowledgeBase() {
+  const [collections, setCollections] = useState<CollectionSummary[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [documents, setDocuments] = useState<CollectionDocument[]>([]);
+  const [newName, setNewName] = useState('');
+  const [newDescription, setNewDescription] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isUploading, setIsUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const selectedCollection = collections.find((collection) => collection.id === selectedId) ?? null;
+
+  useEffect(() => {
+    loadCollections();
+  }, []);
+
+  useEffect(() => {
+    if (selectedId) {
+      loadDocuments(selectedId);
+    } else {
+      setDocuments([]);
+    }
+  }, [selectedId]);
+
+  /**
+   * Load all collections of the user
+   */
+  const loadCollections = async () => {
+    try {
+      setIsLoading(true);
+      const response = await fetch('/api/collections');
+
+      if (!response.ok) {
+        throw new Error('Failed to load collections');
+      }
+
+      const data = await response.json();
+      setCollections(data.collections || []);
+    } catch (err) {
+      console.error('Error loading collections:', err);
+      setError('Kennisbanken konden niet worden geladen');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  /**
+   * Load the documents of a collection
+   */
+  const loadDocuments = async (collectionId: string) => {
+    try {
+      const response = await fetch(`/api/collections/${collectionId}`);
+
+      if (!response.ok) {
+        throw new Error('Failed to load documents');
+      }
+
+      const data = await response.json();
+      setDocuments(data.documents || []);
+    } catch (err) {
+      console.error('Error loading documents:', err);
+      setError('Documenten konden niet worden geladen');
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+
+    try {
+      setError(null);
+      const response = await fetch('/api/collections', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          name: newName.trim(),
+          description: newDescription.trim() || null,
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || 'Aanmaken mislukt');
+        return;
+      }
+
+      setNewName('');
+      setNewDescription('');
+      await loadCollections();
+      setSelectedId(data.collection.id);
+    } catch (err) {
+      console.error('Error creating collection:', err);
+      setError('Aanmaken mislukt');
+    }
+  };
+
+  const handleDeleteCollection = async (collection: CollectionSummary) => {
+    if (!confirm(`Kennisbank "${collection.name}" en alle documenten verwijderen?`)) {
+      return;
+    }
+
+    try {
+      setError(null);
+      const response = await fetch(`/api/collections/${collection.id}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to delete collection');
+      }
+
+      setSelectedId(null);
+      await loadCollections();
+    } catch (err) {
+      console.error('Error deleting collection:', err);
+      setError('Verwijderen mislukt');
+    }
+  };
+
+  /**
+   * Upload the selected files one by one; each is chunked and embedded by the server
+   */
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (!selectedId || files.length === 0) return;
+
+    setIsUploading(true);
+    setError(null);
+    try {
+      for (const file of files) {
+        const formData = new FormData();
+        formData.append('file', file);
+        const response = await fetch(`/api/collections/${selectedId}/documents`, {
+          method: 'POST',
+          body: formData,
+        });
+
+        if (!response.ok) {
+          const data = await response.json();
+          setError(`${file.name}: ${data.error || 'Uploaden mislukt'}`);
+        }
+      }
+    } catch (err) {
+      console.error('Error uploading documents:', err);
+      setError('Uploaden mislukt');
+    } finally {
+      setIsUploading(false);
+      await Promise.all([loadDocuments(selectedId), loadCollections()]);
+    }
+  };
+
+  const handleDeleteDocument = async (documentId: string) => {
+    if (!selectedId) return;
+
+    try {
+      setError(null);
+      const response = await fetch(`/api/collections/${selectedId}/documents/${documentId}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to delete document');
+      }
+
+      await Promise.all([loadDocuments(selectedId), loadCollections()]);
+    } catch (err) {
+      console.error('Error deleting document:', err);
+      setError('Verwijderen mislukt');
+    }
+  };
+
+  return (
+    <div className={styles.container}>
+      <div className={styles.header}>
+        <h1 className={styles.title}>Kennisbanken</h1>
+        <Link href="/" className={styles.backLink}>
+          Terug naar chat
+        </Link>
+      </div>
+
+      {error && <div className={styles.error}>{error}</div>}
+
+      <div className={styles.layout}>
+        <section className={styles.sidebar}>
+          <form onSubmit={handleCreate} className={styles.createForm}>
+            <input
+              className={styles.input}
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder="Naam van de kennisbank"
+              maxLength={100}
+            />
+            <input
+              className={styles.input}
+              value={newDescription}
+              onChange={(e) => setNewDescription(e.target.value)}
+              placeholder="Beschrijving (optioneel)"
+              maxLength={500}
+            />
+            <button type="submit" className={styles.primaryButton} disabled={!newName.trim()}>
+              Kennisbank aanmaken
+            </button>
+          </form>
+
+          {isLoading && collections.length === 0 ? (
+            <div className={styles.empty}>Laden...</div>
+          ) : collections.length === 0 ? (
+            <div className={styles.empty}>Nog geen kennisbanken</div>
+          ) : (
+            <ul className={styles.collectionList}>
+              {collections.map((collection) => (
+                <li key={collection.id}>
+                  <button
+                    type="button"
+                    className={`${styles.collectionItem} ${collection.id === selectedId ? styles.selected : ''}`}
+                    onClick={() => setSelectedId(collection.id)}
+                  >
+                    <span>{collection.name}</span>
+                    <span className={styles.muted}>{collection.documentCount} documenten</span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+
+        <section className={styles.detail}>
+          {!selectedCollection ? (
+            <div className={styles.empty}>Kies een kennisbank om documenten toe te voegen</div>
+          ) : (
+            <>
+              <div className={styles.detailHeader}>
+                <div>
+                  <h2 className={styles.sectionTitle}>{selectedCollection.name}</h2>
+                  {selectedCollection.description && (
+                    <p className={styles.muted}>{selectedCollection.description}</p>
+                  )}
+                </div>
+                <button
+                  type="button"
+                  className={styles.dangerButton}
+                  onClick={() => handleDeleteCollection(selectedCollection)}
+                >
+                  Verwijderen
+                </button>
+              </div>
+
+              <label className={styles.uploadButton}>
+                {isUploading ? 'Verwerken...' : 'Documenten toevoegen'}
+                <input
+                  type="file"
+                  multiple
+                  accept=".txt,.md,.markdown,.csv,.json,.html,.htm,text/plain,text/markdown,text/csv,application/json,text/html"
+                  onChange={handleUpload}
+                  disabled={isUploading}
+                  hidden
+                />
+              </label>
+              <p className={styles.muted}>Tekstbestanden (.txt, .md, .csv, .json, .html) tot 5 MB.</p>
+
+              {documents.length === 0 ? (
+                <div className={styles.empty}>Nog geen documenten</div>
+              ) : (
+                <table className={styles.table}>
+                  <thead>
+                    <tr>
+                      <th>Document</th>
+                      <th>Grootte</th>
+                      <th>Fragmenten</th>
+                      <th>Toegevoegd</th>
+                      <th></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {documents.map((document) => (
+                      <tr key={document.id}>
+                        <td>{document.fileName}</td>
+                        <td>{formatFileSize(document.size)}</td>
+                        <td>{document.chunkCount}</td>
+                        <td>{new Date(document.createdAt).toLocaleDateString('nl-NL')}</td>
+                        <td>
+                          <button
+                            type="button"
+                            className={styles.linkButton}
+                            onClick={() => handleDeleteDocument(document.id)}
+                          >
+                            Verwijderen
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+}
@@ -2,71 +2,101 @@
 
 import { useState, useEffect, useRef } from 'react';
 
+import { ChatModel } from '@/types/chat';
+
 import styles from './ModelSelector.module.css';
 
 interface ModelSelectorProps {
   selectedModel: string;
   onModelChange: (model: string) => void;
+  defaultOpen?: boolean;
+  compareModels?: string[] | null;
+  onCompareModelsChange?: (models: string[]) => void;
 }
 
-interface Model {
-  id: string;
-  name: string;
-  description: string;
-  provider: string;
-  requiresUpgrade?: boolean;
-}
+// Models a single comparison can send the conversation to
+export const MAX_COMPARE_MODELS = 4;
 
-const models: Model[] = [
-  {
-    id: 'anthropic/claude-3-opus',
-    name: 'Opus 4.5',
-    description: 'Most capable for complex work',
-    provider: 'Anthropic',
-    requiresUpgrade: true,
-  },
-  {
-    id: 'anthropic/claude-3.5-sonnet',
-    name: 'Sonnet 4.5',
-    description: 'Smartest for everyday tasks',
-    provider: 'Anthropic',
-  },
-  {
-    id: 'anthropic/claude-3-haiku',
-    name: 'Haiku 4.5',
-    description: 'Fastest for quick answers',
-    provider: 'Anthropic',
-  },
-  {
-    id: 'openai/gpt-4o',
-    name: 'GPT-4o',
-    description: 'Most advanced OpenAI model',
-    provider: 'OpenAI',
-  },
-  {
-    id: 'openai/gpt-4-turbo',
-    name: 'GPT-4 Turbo',
-    description: 'Fast and capable',
-    provider: 'OpenAI',
-  },
-  {
-    id: 'google/gemini-3-pro-preview',
-    name: 'Gemini 3 Pro',
-    description: 'Latest Google model',
-    provider: 'Google',
-  },
+// Models shown before the user searches or opens "More models"
+const featuredModelIds = [
+  'anthropic/claude-3.5-sonnet',
+  'anthropic/claude-3-opus',
+  'anthropic/claude-3-haiku',
+  'openai/gpt-4o',
+  'openai/gpt-4-turbo',
+  'google/gemini-3-pro-preview',
 ];
 
 /**
- * ModelSelector component that allows users to select an AI model
+ * Format a context length for display (e.g. 200000 -> "200K")
+ */
+const formatContextLength = (contextLength: number | null): string | null => {
+  if (!contextLength) return null;
+  if (contextLength >= 1_000_000) return `${Math.round(contextLength / 100_000) / 10}M`;
+  return `${Math.round(contextLength / 1000)}K`;
+};
+
+/**
+ * Format a per-token price as USD per million tokens
+ */
+const formatPrice = (pricePerToken: number): string => {
+  if (pricePerToken === 0) return 'free';
+  return `$${(pricePerToken * 1_000_000).toFixed(2)}`;
+};
+
+/**
+ * Build the secondary line for a model option: provider, context length and pricing
+ */
+const describeModel = (model: ChatModel): string => {
+  const parts = [model.provider];
+  const context = formatContextLength(model.contextLength);
+  if (context) parts.push(`${context} context`);
+  parts.push(`${formatPrice(model.pricing.prompt)} / ${formatPrice(model.pricing.completion)} per 1M tokens`);
+  if (model.inputModalities.includes('image')) parts.push('vision');
+  return parts.join(' · ');
+};
+
+/**
+ * ModelSelector component that allows users to select an AI model from the OpenRouter catalog
  * @param selectedModel - Currently selected model ID
  * @param onModelChange - Callback function called when model is changed
+ * @param defaultOpen - Whether the dropdown starts open
+ * @param compareModels - Models selected for compare mode; when set, options are toggled instead of selected
+ * @param onCompareModelsChange - Callback function called when the compare models are changed
  */
-export function ModelSelector({ selectedModel, onModelChange }: ModelSelectorProps) {
-  const [isOpen, setIsOpen] = useState(false);
+export function ModelSelector({
+  selectedModel,
+  onModelChange,
+  defaultOpen = false,
+  compareModels,
+  onCompareModelsChange,
+}: ModelSelectorProps) {
+  const [isOpen, setIsOpen] = useState(defaultOpen);
+  const [models, setModels] = useState<ChatModel[]>([]);
+  const [isLoadingModels, setIsLoadingModels] = useState(true);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [showAllModels, setShowAllModels] = useState(false);
   const dropdownRef = useRef<HTMLDivElement>(null);
+  const searchInputRef = useRef<HTMLInputElement>(null);
+
+  // Load the model catalog on mount
+  useEffect(() => {
+    loadModels();
+  }, []);
 
-  const selectedModelData = models.find((m) => m.id === selectedModel) || models[1];
+  const loadModels = async () => {
+    try {
+      const response = await fetch('/api/models');
+      if (response.ok) {
+        const data = await response.json();
+        setModels(data.models || []);
+      }
+    } catch (error) {
+      console.error('Error loading models:', error);
+    } finally {
+      setIsLoadingModels(false);
+    }
+  };
 
   // Close dropdown when clicking outside the component
   useEffect(() => {
@@ -85,6 +115,55 @@ export function ModelSelector({ selectedModel, onModelChange }: ModelSelectorPro
     };
   }, [isOpen]);
 
+  // Focus the search field and reset the view when the dropdown opens
+  useEffect(() => {
+    if (isOpen) {
+      setSearchQuery('');
+      setShowAllModels(false);
+      searchInputRef.current?.focus();
+    }
+  }, [isOpen]);
+
+  const selectedModelData = models.find((m) => m.id === selectedModel);
+  const isComparing = Array.isArray(compareModels);
+
+  /**
+   * Select a model, or toggle it in compare mode (keeping the dropdown open to pick more)
+   */
+  const pickModel = (modelId: string) => {
+    if (!compareModels) {
+      onModelChange(modelId);
+      setIsOpen(false);
+      return;
+    }
+
+    if (compareModels.includes(modelId)) {
+      onCompareModelsChange?.(compareModels.filter((id) => id !== modelId));
+    } else if (compareModels.length < MAX_COMPARE_MODELS) {
+      onCompareModelsChange?.([...compareModels, modelId]);
+    }
+  };
+
+  const modelName = (modelId: string) => models.find((m) => m.id === modelId)?.name || modelId;
+  const selectorLabel = compareModels
+    ? compareModels.length === 1
+      ? modelName(compareModels[0])
+      : `${compareModels.length} modellen`
+    : selectedModelData?.name || selectedModel;
+
+  const query = searchQuery.trim().toLowerCase();
+  const visibleModels = query
+    ? models.filter((m) =>
+        m.id.toLowerCase().includes(query) ||
+        m.name.toLowerCase().includes(query) ||
+        m.provider.toLowerCase().includes(query)
+      )
+    : showAllModels
+      ? models
+      : featuredModelIds
+          .map((id) => models.find((m) => m.id === id))
+          .filter((m): m is ChatModel => m !== undefined);
+
   return (
     <div className={styles.container} ref={dropdownRef}>
       <button
@@ -93,61 +172,70 @@ export function ModelSelector({ selectedModel, onModelChange }: ModelSelectorPro
         type="button"
         suppressHydrationWarning
       >
-        <span className={styles.selectedModel}>{selectedModelData.name}</span>
+        <span className={styles.selectedModel}>{selectorLabel}</span>
         <span className={`${styles.arrow} ${isOpen ? styles.open : ''}`}>▼</span>
       </button>
       {isOpen && (
         <div className={styles.dropdown}>
-          {models.map((model) => (
-            <button
-              key={model.id}
-              className={styles.option}
-              onClick={() => {
-                onModelChange(model.id);
-                setIsOpen(false);
+          <div className={styles.searchWrapper}>
+            <input
+              ref={searchInputRef}
+              type="text"
+              className={styles.searchInput}
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              onKeyDown={(e) => {
+                // Don't submit the surrounding chat form
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  if (visibleModels.length > 0) {
+                    pickModel(visibleModels[0].id);
+                  }
+                } else if (e.key === 'Escape') {
+                  setIsOpen(false);
+                }
               }}
+              placeholder="Search models..."
+            />
+          </div>
+          {isComparing && (
+            <div className={styles.status}>
+              Kies 2 tot {MAX_COMPARE_MODELS} modellen om te vergelijken
+            </div>
+          )}
+          {isLoadingModels ? (
+            <div className={styles.status}>Loading models...</div>
+          ) : visibleModels.length === 0 ? (
+            <div className={styles.status}>No models found</div>
+          ) : (
+            visibleModels.map((model) => (
+              <button
+                key={model.id}
+                className={styles.option}
+                onClick={() => pickModel(model.id)}
+                type="button"
+                title={model.description || model.id}
+              >
+                <div className={styles.optionContent}>
+                  <span className={styles.modelName}>{model.name}</span>
+                  <span className={styles.modelDescription}>{describeModel(model)}</span>
+                </div>
+                {(compareModels ? compareModels.includes(model.id) : selectedModel === model.id) && (
+                  <span className={styles.checkmark}>✓</span>
+                )}
+              </button>
+            ))
+          )}
+          {!query && !showAllModels && models.length > visibleModels.length && (
+            <button
+              className={styles.moreModels}
+              onClick={() => setShowAllModels(true)}
               type="button"
             >
-              <div className={styles.optionContent}>
-                <span className={styles.modelName}>{model.name}</span>
-                <span className={styles.modelDescription}>{model.description}</span>
-              </div>
-              {selectedModel === model.id && (
-                <span className={styles.checkmark}>✓</span>
-              )}
-              {model.requiresUpgrade && selectedModel !== model.id && (
-                <div
-                  className={styles.upgradeButton}
-                  onClick={(e) => {
-                    e.stopPropagation();
-                    // Handle upgrade logic here
-                  }}
-                  role="button"
-                  tabIndex={0}
-                  onKeyDown={(e) => {
-                    if (e.key === 'Enter' || e.key === ' ') {
-                      e.preventDefault();
-                      e.stopPropagation();
-                      // Handle upgrade logic here
-                    }
-                  }}
-                >
-                  Upgrade
-                </div>
-              )}
+              More models
+              <span className={styles.moreModelsArrow}>›</span>
             </button>
-          ))}
-          <button
-            className={styles.moreModels}
-            onClick={() => {
-              // Handle "More models" logic
-              setIsOpen(false);
-            }}
-            type="button"
-          >
-            More models
-            <span className={styles.moreModelsArrow}>›</span>
-          </button>
+          )}
         </div>
       )}
     </div>
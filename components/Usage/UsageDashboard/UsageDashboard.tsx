@@ -0,0 +1,153 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+
+import { UsageBreakdown, UsageReport } from '@/types/chat';
+import { formatCost, formatTokens } from '@/lib/format';
+
+import styles from './UsageDashboard.module.css';
+
+const periodOptions = [7, 30, 90];
+
+/**
+ * UsageDashboard component that shows token usage and cost with daily and per-model breakdowns
+ */
+export function UsageDashboard() {
+  const [days, setDays] = useState(30);
+  const [report, setReport] = useState<UsageReport | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadReport(days);
+  }, [days]);
+
+  /**
+   * Load the usage report for the selected period
+   */
+  const loadReport = async (periodDays: number) => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const response = await fetch(`/api/usage?days=${periodDays}`);
+
+      if (!response.ok) {
+        throw new Error('Failed to load usage');
+      }
+
+      setReport(await response.json());
+    } catch (err) {
+      console.error('Error loading usage:', err);
+      setError('Verbruik kon niet worden geladen');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  /**
+   * Render a breakdown table with a relative cost bar per row
+   */
+  const renderBreakdown = (title: string, keyLabel: string, rows: UsageBreakdown[]) => {
+    const maxCost = Math.max(...rows.map((row) => row.cost), 0);
+
+    return (
+      <section className={styles.section}>
+        <h2 className={styles.sectionTitle}>{title}</h2>
+        {rows.length === 0 ? (
+          <div className={styles.empty}>Geen verbruik in deze periode</div>
+        ) : (
+          <table className={styles.table}>
+            <thead>
+              <tr>
+                <th>{keyLabel}</th>
+                <th>Berichten</th>
+                <th>Prompt tokens</th>
+                <th>Completion tokens</th>
+                <th>Kosten</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => (
+                <tr key={row.key}>
+                  <td>{row.key}</td>
+                  <td>{row.messageCount}</td>
+                  <td>{formatTokens(row.promptTokens)}</td>
+                  <td>{formatTokens(row.completionTokens)}</td>
+                  <td>
+                    <div className={styles.costCell}>
+                      <span>{formatCost(row.cost)}</span>
+                      <div className={styles.bar}>
+                        <div
+                          className={styles.barFill}
+                          style={{ width: maxCost > 0 ? `${(row.cost / maxCost) * 100}%` : 0 }}
+                        />
+                      </div>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+    );
+  };
+
+  return (
+    <div className={styles.container}>
+      <div className={styles.header}>
+        <h1 className={styles.title}>Verbruik</h1>
+        <div className={styles.headerActions}>
+          <select
+            className={styles.select}
+            value={days}
+            onChange={(e) => setDays(Number(e.target.value))}
+          >
+            {periodOptions.map((option) => (
+              <option key={option} value={option}>
+                Laatste {option} dagen
+              </option>
+            ))}
+          </select>
+          <Link href="/" className={styles.backLink}>
+            Terug naar chat
+          </Link>
+        </div>
+      </div>
+
+      {isLoading && !report ? (
+        <div className={styles.loading}>Laden...</div>
+      ) : error ? (
+        <div className={styles.error}>{error}</div>
+      ) : report && (
+        <>
+          <div className={styles.cards}>
+            <div className={styles.card}>
+              <span className={styles.cardLabel}>Kosten ({report.days} dagen)</span>
+              <span className={styles.cardValue}>{formatCost(report.totals.cost)}</span>
+            </div>
+            <div className={styles.card}>
+              <span className={styles.cardLabel}>Tokens ({report.days} dagen)</span>
+              <span className={styles.cardValue}>
+                {formatTokens(report.totals.promptTokens + report.totals.completionTokens)}
+              </span>
+            </div>
+            <div className={styles.card}>
+              <span className={styles.cardLabel}>Kosten totaal</span>
+              <span className={styles.cardValue}>{formatCost(report.allTime.cost)}</span>
+            </div>
+            <div className={styles.card}>
+              <span className={styles.cardLabel}>Tokens totaal</span>
+              <span className={styles.cardValue}>
+                {formatTokens(report.allTime.promptTokens + report.allTime.completionTokens)}
+              </span>
+            </div>
+          </div>
+          {renderBreakdown('Per model', 'Model', report.byModel)}
+          {renderBreakdown('Per dag', 'Datum', report.daily)}
+        </>
+      )}
+    </div>
+  );
+}
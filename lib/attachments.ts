@@ -0,0 +1,209 @@
+import { randomUUID } from 'crypto';
+import { Attachment } from '@prisma/client';
+import { ChatMessageContentItem } from '@openrouter/sdk/models';
+
+import { prisma } from '@/lib/prisma';
+import { getStorage } from '@/lib/storage';
+import { AttachmentInfo } from '@/types/chat';
+
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+export const MAX_ATTACHMENTS_PER_MESSAGE = 5;
+
+const IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+const TEXT_TYPES = ['text/plain', 'text/markdown', 'text/csv', 'application/json'];
+export const ATTACHMENT_TYPES = [...IMAGE_TYPES, 'application/pdf', ...TEXT_TYPES];
+
+// Browsers often send an empty or generic type for text files, so fall back to the extension
+const EXTENSION_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  pdf: 'application/pdf',
+  txt: 'text/plain',
+  md: 'text/markdown',
+  markdown: 'text/markdown',
+  csv: 'text/csv',
+  json: 'application/json',
+};
+
+/**
+ * Check whether an attachment is an image that is sent to the model as an image part
+ */
+export function isImageType(mimeType: string): boolean {
+  return IMAGE_TYPES.includes(mimeType);
+}
+
+/**
+ * Only expose the fields the client needs, not where the file is stored
+ */
+export function toAttachmentInfo(attachment: Attachment): AttachmentInfo {
+  return {
+    id: attachment.id,
+    fileName: attachment.fileName,
+    mimeType: attachment.mimeType,
+    size: attachment.size,
+  };
+}
+
+/**
+ * Validate an uploaded file and determine its MIME type
+ * @returns The MIME type to store the file with, or the reason the file is rejected
+ */
+export function validateAttachmentFile(
+  file: File
+): { mimeType: string; error?: undefined } | { mimeType?: undefined; error: string } {
+  if (file.size === 0) {
+    return { error: 'File is empty' };
+  }
+
+  if (file.size > MAX_ATTACHMENT_SIZE) {
+    return { error: `File must be at most ${MAX_ATTACHMENT_SIZE / (1024 * 1024)} MB` };
+  }
+
+  const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+  const mimeType = ATTACHMENT_TYPES.includes(file.type) ? file.type : EXTENSION_TYPES[extension];
+
+  if (!mimeType) {
+    return { error: 'Only images (PNG, JPEG, GIF, WebP), PDFs and text files are supported' };
+  }
+
+  return { mimeType };
+}
+
+/**
+ * Store an uploaded file and create its attachment record, not yet linked to a message
+ */
+export async function saveAttachment(userId: string, file: File, mimeType: string): Promise<Attachment> {
+  const id = randomUUID();
+  const storageKey = `${userId}/${id}`;
+
+  await getStorage().save(storageKey, Buffer.from(await file.arrayBuffer()));
+
+  return prisma.attachment.create({
+    data: {
+      id,
+      userId,
+      fileName: file.name.substring(0, 255),
+      mimeType,
+      size: file.size,
+      storageKey,
+    },
+  });
+}
+
+/**
+ * Remove stored files that no attachment record refers to anymore
+ * Call this after deleting attachment records, directly or through a cascade
+ * @param storageKeys - The storage keys of the deleted attachments
+ */
+export async function removeUnreferencedFiles(storageKeys: string[]): Promise<void> {
+  const keys = [...new Set(storageKeys)];
+  if (keys.length === 0) {
+    return;
+  }
+
+  const referenced = await prisma.attachment.findMany({
+    where: { storageKey: { in: keys } },
+    select: { storageKey: true },
+  });
+  const stillUsed = new Set(referenced.map((attachment) => attachment.storageKey));
+
+  for (const key of keys) {
+    if (!stillUsed.has(key)) {
+      await getStorage().remove(key);
+    }
+  }
+}
+
+/**
+ * Delete an attachment record and, when no other attachment refers to it, its stored file
+ */
+export async function deleteAttachment(attachment: Attachment): Promise<void> {
+  await prisma.attachment.delete({ where: { id: attachment.id } });
+  await removeUnreferencedFiles([attachment.storageKey]);
+}
+
+/**
+ * Load attachments by id, checking they belong to the user
+ * @returns The attachments in the requested order, or null when any of them was not found
+ */
+export async function getUserAttachments(userId: string, attachmentIds: string[]): Promise<Attachment[] | null> {
+  if (attachmentIds.length === 0) {
+    return [];
+  }
+
+  const attachments = await prisma.attachment.findMany({
+    where: { id: { in: attachmentIds }, userId },
+  });
+  const byId = new Map(attachments.map((attachment) => [attachment.id, attachment]));
+
+  const ordered = attachmentIds.map((id) => byId.get(id));
+  return ordered.every((attachment) => attachment !== undefined) ? (ordered as Attachment[]) : null;
+}
+
+/**
+ * Link attachments to a saved message
+ * Attachments that already belong to another message (e.g. when an earlier message is edited)
+ * are copied, so both messages keep their files
+ */
+export async function linkAttachments(attachments: Attachment[], messageId: string): Promise<void> {
+  await prisma.$transaction(
+    attachments.map((attachment) =>
+      attachment.messageId
+        ? prisma.attachment.create({
+            data: {
+              userId: attachment.userId,
+              messageId,
+              fileName: attachment.fileName,
+              mimeType: attachment.mimeType,
+              size: attachment.size,
+              storageKey: attachment.storageKey,
+            },
+          })
+        : prisma.attachment.update({ where: { id: attachment.id }, data: { messageId } })
+    )
+  );
+}
+
+/**
+ * Build the OpenRouter content parts for a user message with attachments
+ * Images are sent as image parts, PDFs as file parts and text files are inlined as text
+ * @param text - The text the user typed
+ * @param attachments - The message's attachments
+ */
+export async function toContentParts(text: string, attachments: Attachment[]): Promise<ChatMessageContentItem[]> {
+  const storage = getStorage();
+  const parts: ChatMessageContentItem[] = [];
+
+  for (const attachment of attachments) {
+    const data = await storage.read(attachment.storageKey);
+
+    if (isImageType(attachment.mimeType)) {
+      parts.push({
+        type: 'image_url',
+        imageUrl: { url: `data:${attachment.mimeType};base64,${data.toString('base64')}` },
+      });
+    } else if (attachment.mimeType === 'application/pdf') {
+      parts.push({
+        type: 'file',
+        file: {
+          filename: attachment.fileName,
+          fileData: `data:application/pdf;base64,${data.toString('base64')}`,
+        },
+      });
+    } else {
+      parts.push({
+        type: 'text',
+        text: `Attached file "${attachment.fileName}":\n\n${data.toString('utf-8')}`,
+      });
+    }
+  }
+
+  if (text) {
+    parts.push({ type: 'text', text });
+  }
+
+  return parts;
+}
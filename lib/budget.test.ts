@@ -0,0 +1,25 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { validateBudgetLimits } from '@/lib/budget';
+
+describe('validateBudgetLimits', () => {
+  it('accepts limits and null for unlimited', () => {
+    assert.deepEqual(validateBudgetLimits({ monthlyTokenLimit: 2147483647, monthlyCostLimit: 12.5 }), {
+      limits: { monthlyTokenLimit: 2147483647, monthlyCostLimit: 12.5 },
+    });
+    assert.deepEqual(validateBudgetLimits({ monthlyTokenLimit: null }), { limits: { monthlyTokenLimit: null } });
+  });
+
+  it('rejects token limits that do not fit the database column', () => {
+    assert.match(validateBudgetLimits({ monthlyTokenLimit: 2147483648 }).error ?? '', /from 0 to 2147483647/);
+    assert.match(validateBudgetLimits({ monthlyTokenLimit: -1 }).error ?? '', /from 0 to 2147483647/);
+    assert.match(validateBudgetLimits({ monthlyTokenLimit: 1.5 }).error ?? '', /from 0 to 2147483647/);
+  });
+
+  it('rejects invalid cost limits and empty bodies', () => {
+    assert.ok(validateBudgetLimits({ monthlyCostLimit: -0.01 }).error);
+    assert.ok(validateBudgetLimits({ monthlyCostLimit: Infinity }).error);
+    assert.ok(validateBudgetLimits({}).error);
+  });
+});
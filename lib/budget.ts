@@ -0,0 +1,196 @@
+import { prisma } from '@/lib/prisma';
+import { BudgetLimits, BudgetStatus, TokenUsage } from '@/types/chat';
+
+// Share of the budget after which users get a soft warning
+export const BUDGET_WARNING_RATIO = 0.8;
+
+const GLOBAL_BUDGET_ID = 'global';
+// Largest value the Int column of the monthly token limit can hold
+const MAX_TOKEN_LIMIT = 2147483647;
+
+/**
+ * Start of the current budget period (first day of the month, UTC)
+ */
+export function getPeriodStart(now = new Date()): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+/**
+ * Get the global default budget limits
+ */
+export async function getGlobalBudget(): Promise<BudgetLimits> {
+  const settings = await prisma.budgetSettings.findUnique({
+    where: { id: GLOBAL_BUDGET_ID },
+  });
+
+  return {
+    monthlyTokenLimit: settings?.monthlyTokenLimit ?? null,
+    monthlyCostLimit: settings?.monthlyCostLimit ?? null,
+  };
+}
+
+/**
+ * Update the global default budget limits
+ */
+export async function updateGlobalBudget(limits: Partial<BudgetLimits>): Promise<BudgetLimits> {
+  const settings = await prisma.budgetSettings.upsert({
+    where: { id: GLOBAL_BUDGET_ID },
+    create: { id: GLOBAL_BUDGET_ID, ...limits },
+    update: limits,
+  });
+
+  return {
+    monthlyTokenLimit: settings.monthlyTokenLimit,
+    monthlyCostLimit: settings.monthlyCostLimit,
+  };
+}
+
+/**
+ * Get the limits that apply to a user: their own limits, falling back to the global default per limit
+ */
+export async function getEffectiveLimits(userId: string): Promise<BudgetLimits> {
+  const [user, globalBudget] = await Promise.all([
+    prisma.user.findUnique({
+      where: { id: userId },
+      select: { monthlyTokenLimit: true, monthlyCostLimit: true },
+    }),
+    getGlobalBudget(),
+  ]);
+
+  return {
+    monthlyTokenLimit: user?.monthlyTokenLimit ?? globalBudget.monthlyTokenLimit,
+    monthlyCostLimit: user?.monthlyCostLimit ?? globalBudget.monthlyCostLimit,
+  };
+}
+
+/**
+ * Sum a user's usage since the start of the period from the usage ledger
+ * The ledger keeps usage of deleted chats, so deleting chats doesn't reset the budget
+ */
+async function getUsageSince(userId: string, since: Date): Promise<TokenUsage> {
+  const result = await prisma.usageRecord.aggregate({
+    where: {
+      userId,
+      createdAt: { gte: since },
+    },
+    _sum: {
+      promptTokens: true,
+      completionTokens: true,
+      cost: true,
+    },
+  });
+
+  return {
+    promptTokens: result._sum.promptTokens ?? 0,
+    completionTokens: result._sum.completionTokens ?? 0,
+    cost: result._sum.cost ?? 0,
+  };
+}
+
+/**
+ * Share of the most-used limit, e.g. 0.85 when 85% of the token or cost budget is used
+ */
+const getUsedRatio = (used: TokenUsage, limits: BudgetLimits): number => {
+  const ratios: number[] = [0];
+  if (limits.monthlyTokenLimit !== null) {
+    const tokens = used.promptTokens + used.completionTokens;
+    ratios.push(limits.monthlyTokenLimit > 0 ? tokens / limits.monthlyTokenLimit : 1);
+  }
+  if (limits.monthlyCostLimit !== null) {
+    ratios.push(limits.monthlyCostLimit > 0 ? used.cost / limits.monthlyCostLimit : 1);
+  }
+  return Math.max(...ratios);
+};
+
+/**
+ * Get the budget status of a user for the current month
+ */
+export async function getBudgetStatus(userId: string): Promise<BudgetStatus> {
+  const periodStart = getPeriodStart();
+  const [used, limits] = await Promise.all([
+    getUsageSince(userId, periodStart),
+    getEffectiveLimits(userId),
+  ]);
+  const usedRatio = getUsedRatio(used, limits);
+
+  return {
+    periodStart: periodStart.toISOString(),
+    used,
+    limits,
+    usedRatio,
+    warning: usedRatio >= BUDGET_WARNING_RATIO,
+    exceeded: usedRatio >= 1,
+  };
+}
+
+/**
+ * Rough prompt token estimate (about 4 characters per token), used before the real usage is known
+ */
+export function estimatePromptTokens(messages: { content: string }[]): number {
+  const characters = messages.reduce((total, message) => total + message.content.length, 0);
+  return Math.ceil(characters / 4);
+}
+
+/**
+ * Check whether a request with the given estimated usage fits in the user's budget
+ * @param userId - The user making the request
+ * @param estimate - Estimated usage of the request
+ * @returns The budget status and, when the request must be rejected, the reason
+ */
+export async function checkBudget(
+  userId: string,
+  estimate: TokenUsage
+): Promise<{ status: BudgetStatus; error?: string }> {
+  const status = await getBudgetStatus(userId);
+  const { used, limits } = status;
+
+  if (limits.monthlyTokenLimit !== null) {
+    const tokensAfter = used.promptTokens + used.completionTokens + estimate.promptTokens + estimate.completionTokens;
+    if (tokensAfter > limits.monthlyTokenLimit) {
+      return {
+        status,
+        error: `Monthly token budget exceeded (${limits.monthlyTokenLimit} tokens)`,
+      };
+    }
+  }
+
+  if (limits.monthlyCostLimit !== null && used.cost + estimate.cost > limits.monthlyCostLimit) {
+    return {
+      status,
+      error: `Monthly cost budget exceeded ($${limits.monthlyCostLimit.toFixed(2)})`,
+    };
+  }
+
+  return { status };
+}
+
+/**
+ * Validate budget limit fields present in a request body
+ * Each limit must be a non-negative number that fits its database column, or null for unlimited
+ */
+export function validateBudgetLimits(
+  body: Record<string, unknown>
+): { limits: Partial<BudgetLimits>; error?: undefined } | { limits?: undefined; error: string } {
+  const limits: Partial<BudgetLimits> = {};
+  const { monthlyTokenLimit, monthlyCostLimit } = body;
+
+  if (monthlyTokenLimit !== undefined) {
+    if (monthlyTokenLimit !== null && (typeof monthlyTokenLimit !== 'number' || !Number.isInteger(monthlyTokenLimit) || monthlyTokenLimit < 0 || monthlyTokenLimit > MAX_TOKEN_LIMIT)) {
+      return { error: `monthlyTokenLimit must be an integer from 0 to ${MAX_TOKEN_LIMIT}, or null` };
+    }
+    limits.monthlyTokenLimit = monthlyTokenLimit;
+  }
+
+  if (monthlyCostLimit !== undefined) {
+    if (monthlyCostLimit !== null && (typeof monthlyCostLimit !== 'number' || !Number.isFinite(monthlyCostLimit) || monthlyCostLimit < 0)) {
+      return { error: 'monthlyCostLimit must be a non-negative number or null' };
+    }
+    limits.monthlyCostLimit = monthlyCostLimit;
+  }
+
+  if (Object.keys(limits).length === 0) {
+    return { error: 'At least one field (monthlyTokenLimit or monthlyCostLimit) must be provided' };
+  }
+
+  return { limits };
+}
@@ -0,0 +1,17 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { evaluateExpression } from '@/lib/calculator';
+
+describe('evaluateExpression', () => {
+  it('evaluates functions and constants', () => {
+    assert.equal(evaluateExpression('2 * (3 + 4) ^ 2'), 98);
+    assert.equal(evaluateExpression('max(1, sqrt(16)) + round(pi)'), 7);
+  });
+
+  it('rejects names that are not its own functions or constants', () => {
+    assert.throws(() => evaluateExpression('constructor(1)'), /Unknown function "constructor"/);
+    assert.throws(() => evaluateExpression('toString(1)'), /Unknown function "toString"/);
+    assert.throws(() => evaluateExpression('__proto__'), /Unknown constant "__proto__"/);
+  });
+});
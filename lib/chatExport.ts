@@ -0,0 +1,231 @@
+import { Chat } from '@prisma/client';
+import { zipSync, strToU8 } from 'fflate';
+
+import { getActivePath, PathMessage } from '@/lib/messageTree';
+import { formatCost, formatTokens } from '@/lib/format';
+import { ToolCall } from '@/types/chat';
+
+export const EXPORT_FORMATS = ['md', 'json', 'html'] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  md: 'text/markdown; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  html: 'text/html; charset=utf-8',
+};
+
+const ROLE_LABELS: Record<string, string> = {
+  user: 'User',
+  assistant: 'Assistant',
+  system: 'System',
+  tool: 'Tool',
+};
+
+/**
+ * Check whether a value is a supported export format
+ */
+export function isExportFormat(value: string | null): value is ExportFormat {
+  return EXPORT_FORMATS.includes(value as ExportFormat);
+}
+
+/**
+ * Get the Content-Type header for an export format
+ */
+export function getExportContentType(format: ExportFormat): string {
+  return CONTENT_TYPES[format];
+}
+
+/**
+ * Build a file name for an exported chat, e.g. "my-chat-1a2b3c4d.md"
+ */
+export function getExportFileName(chat: Chat, format: ExportFormat): string {
+  const slug = (chat.title || 'chat')
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .substring(0, 50) || 'chat';
+
+  return `${slug}-${chat.id.substring(0, 8)}.${format}`;
+}
+
+/**
+ * Describe a message's model and token usage, e.g. "openai/gpt-4o · 1.234 tokens · $0.0021"
+ */
+const describeMessage = (message: PathMessage): string => {
+  const parts: string[] = [];
+  if (message.model) {
+    parts.push(message.model);
+  }
+  if (message.promptTokens != null || message.completionTokens != null) {
+    parts.push(`${formatTokens((message.promptTokens ?? 0) + (message.completionTokens ?? 0))} tokens`);
+  }
+  if (message.cost != null) {
+    parts.push(formatCost(message.cost));
+  }
+  if (message.truncated) {
+    parts.push('truncated');
+  }
+  if (Array.isArray(message.toolCalls) && message.toolCalls.length > 0) {
+    parts.push(`calls ${(message.toolCalls as unknown as ToolCall[]).map((toolCall) => toolCall.name).join(', ')}`);
+  }
+  if (message.toolName) {
+    parts.push(`result of ${message.toolName}`);
+  }
+  return parts.join(' · ');
+};
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const renderMarkdown = (chat: Chat, messages: PathMessage[]): string => {
+  const lines = [
+    `# ${chat.title || 'Nieuwe chat'}`,
+    '',
+    `- Model: ${chat.model}`,
+    `- Created: ${chat.createdAt.toISOString()}`,
+    `- Tokens: ${formatTokens(chat.promptTokens + chat.completionTokens)} (${formatCost(chat.totalCost)})`,
+  ];
+
+  if (chat.systemPrompt) {
+    lines.push('', '## System prompt', '', chat.systemPrompt);
+  }
+
+  for (const message of messages) {
+    const details = describeMessage(message);
+    lines.push(
+      '',
+      '---',
+      '',
+      `### ${ROLE_LABELS[message.role] || message.role} · ${message.timestamp.toISOString()}`,
+      ...(details ? ['', `_${details}_`] : []),
+      '',
+      message.content
+    );
+  }
+
+  return lines.join('\n') + '\n';
+};
+
+const renderJson = (chat: Chat, messages: PathMessage[]): string => {
+  return JSON.stringify(
+    {
+      chat: {
+        id: chat.id,
+        title: chat.title,
+        model: chat.model,
+        systemPrompt: chat.systemPrompt,
+        createdAt: chat.createdAt,
+        updatedAt: chat.updatedAt,
+        usage: {
+          promptTokens: chat.promptTokens,
+          completionTokens: chat.completionTokens,
+          cost: chat.totalCost,
+        },
+      },
+      messages: messages.map((message) => ({
+        id: message.id,
+        parentId: message.parentId,
+        role: message.role,
+        content: message.content,
+        timestamp: message.timestamp,
+        model: message.model,
+        truncated: message.truncated,
+        toolCalls: message.toolCalls,
+        toolCallId: message.toolCallId,
+        toolName: message.toolName,
+        usage: message.promptTokens != null || message.completionTokens != null
+          ? {
+              promptTokens: message.promptTokens,
+              completionTokens: message.completionTokens,
+              cost: message.cost,
+            }
+          : null,
+      })),
+    },
+    null,
+    2
+  );
+};
+
+const renderHtml = (chat: Chat, messages: PathMessage[]): string => {
+  const title = escapeHtml(chat.title || 'Nieuwe chat');
+  const messageHtml = messages
+    .map((message) => {
+      const details = describeMessage(message);
+      return `  <section class="message ${escapeHtml(message.role)}">
+    <header>
+      <strong>${escapeHtml(ROLE_LABELS[message.role] || message.role)}</strong>
+      <time datetime="${message.timestamp.toISOString()}">${message.timestamp.toISOString()}</time>
+    </header>
+    <div class="content">${escapeHtml(message.content)}</div>${details ? `
+    <footer>${escapeHtml(details)}</footer>` : ''}
+  </section>`;
+    })
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="nl">
+<head>
+  <meta charset="utf-8">
+  <title>${title}</title>
+  <style>
+    body { font-family: system-ui, sans-serif; max-width: 800px; margin: 2rem auto; padding: 0 1rem; color: #080a09; background: #fafafa; }
+    .message { margin: 1rem 0; padding: 1rem 1.25rem; border-radius: 12px; border: 1px solid #e5e5e5; background: #fff; }
+    .message.user { background: #080a09; color: #fafafa; }
+    header { display: flex; justify-content: space-between; font-size: 0.8rem; margin-bottom: 0.5rem; opacity: 0.7; }
+    .content { white-space: pre-wrap; line-height: 1.6; }
+    footer { margin-top: 0.5rem; font-size: 0.8rem; opacity: 0.7; }
+  </style>
+</head>
+<body>
+  <h1>${title}</h1>
+  <p>${escapeHtml(chat.model)} · ${chat.createdAt.toISOString()}</p>${chat.systemPrompt ? `
+  <section class="message system">
+    <header><strong>System prompt</strong></header>
+    <div class="content">${escapeHtml(chat.systemPrompt)}</div>
+  </section>` : ''}
+${messageHtml}
+</body>
+</html>
+`;
+};
+
+/**
+ * Render the messages on a chat's active branch in the given format
+ * @param chat - The chat to export
+ * @param format - Output format (md, json or html)
+ */
+export async function exportChat(chat: Chat, format: ExportFormat): Promise<string> {
+  const messages = await getActivePath(chat);
+
+  switch (format) {
+    case 'md':
+      return renderMarkdown(chat, messages);
+    case 'json':
+      return renderJson(chat, messages);
+    case 'html':
+      return renderHtml(chat, messages);
+  }
+}
+
+/**
+ * Export chats as a zip archive with one file per chat
+ * @param chats - The chats to export
+ * @param format - Output format of the files in the archive
+ */
+export async function exportChatsArchive(chats: Chat[], format: ExportFormat): Promise<Uint8Array<ArrayBuffer>> {
+  const files: Record<string, Uint8Array> = {};
+
+  for (const chat of chats) {
+    files[getExportFileName(chat, format)] = strToU8(await exportChat(chat, format));
+  }
+
+  // Copy into a plain ArrayBuffer-backed array, which is what Response bodies accept
+  return new Uint8Array(zipSync(files));
+}
@@ -0,0 +1,60 @@
+import { ChatFolder, Prisma } from '@prisma/client';
+
+import { ChatBulkAction, ChatFolderSummary } from '@/types/chat';
+
+export const CHAT_BULK_ACTIONS: ChatBulkAction[] = [
+  'move',
+  'pin',
+  'unpin',
+  'archive',
+  'unarchive',
+  'addTags',
+  'removeTags',
+  'delete',
+];
+export const MAX_BULK_CHATS = 500;
+const MAX_FOLDER_NAME_LENGTH = 100;
+
+// Relations needed to convert a folder into a ChatFolderSummary; chats in the trash aren't counted
+export const FOLDER_SUMMARY_INCLUDE = {
+  _count: { select: { chats: { where: { deletedAt: null } } } },
+} satisfies Prisma.ChatFolderInclude;
+
+/**
+ * Validate the name of a chat folder given in a request body
+ */
+export function validateFolderName(
+  value: unknown
+): { value: string; error?: undefined } | { value?: undefined; error: string } {
+  if (typeof value !== 'string' || value.trim().length === 0) {
+    return { error: 'Name is required and must be a non-empty string' };
+  }
+  if (value.trim().length > MAX_FOLDER_NAME_LENGTH) {
+    return { error: `Name must be at most ${MAX_FOLDER_NAME_LENGTH} characters` };
+  }
+  return { value: value.trim() };
+}
+
+/**
+ * Validate the folder a chat is moved to: a folder id, or null to move it out of its folder
+ */
+export function validateFolderId(
+  value: unknown
+): { value: string | null; error?: undefined } | { value?: undefined; error: string } {
+  if (value !== null && (typeof value !== 'string' || value.length === 0)) {
+    return { error: 'folderId must be a folder id or null' };
+  }
+  return { value };
+}
+
+/**
+ * Convert a folder with its chat count into the API shape
+ */
+export function toChatFolderSummary(folder: ChatFolder & { _count: { chats: number } }): ChatFolderSummary {
+  return {
+    id: folder.id,
+    name: folder.name,
+    chatCount: folder._count.chats,
+    createdAt: folder.createdAt.toISOString(),
+  };
+}
@@ -0,0 +1,131 @@
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import path from 'path';
+import { describe, it } from 'node:test';
+
+import { detectImportSource, parseChatGPTExport, parseClaudeExport, parseImportFile } from '@/lib/chatImport';
+
+/**
+ * Read a sample export from fixtures/imports
+ */
+const readFixture = (name: string): unknown[] =>
+  JSON.parse(readFileSync(path.join(process.cwd(), 'fixtures', 'imports', name), 'utf-8'));
+
+describe('parseChatGPTExport', () => {
+  const parsed = parseChatGPTExport(readFixture('chatgpt-conversations.json'));
+
+  it('maps the valid conversations', () => {
+    assert.equal(parsed.source, 'chatgpt');
+    assert.deepEqual(
+      parsed.chats.map((chat) => [chat.index, chat.externalId, chat.title, chat.model]),
+      [
+        [0, 'chatgpt:6f1c2a9e-0001-4c1e-9a11-3f7d2b8e0001', 'Recursion in Python', 'gpt-4o'],
+        [1, 'chatgpt:6f1c2a9e-0002-4c1e-9a11-3f7d2b8e0002', 'Trip to Lisbon', 'gpt-4o-mini'],
+      ]
+    );
+  });
+
+  it('only imports the branch that was last shown', () => {
+    const [chat] = parsed.chats;
+    assert.deepEqual(
+      chat.messages.map((message) => message.role),
+      ['user', 'assistant']
+    );
+    assert.equal(chat.messages[0].content, 'How do I write a recursive factorial in Python?');
+    assert.equal(chat.messages[1].model, 'gpt-4o');
+    assert.ok(chat.messages.every((message) => !message.content.startsWith('An older answer')));
+  });
+
+  it('keeps text messages of partially supported conversations', () => {
+    const chat = parsed.chats[1];
+    assert.deepEqual(
+      chat.messages.map((message) => [message.role, message.content, message.model]),
+      [
+        ['user', 'What is this building?', null],
+        ['assistant', 'That looks like the Belém Tower in Lisbon.', 'gpt-4o-mini'],
+      ]
+    );
+  });
+
+  it('reports skipped entries with a reason', () => {
+    assert.deepEqual(
+      parsed.skipped.map((entry) => [entry.index, entry.reason]),
+      [
+        [1, '1 message(s) without text content skipped (images, code output, browsing)'],
+        [2, 'Conversation has no text messages'],
+        [3, 'Conversation has no id'],
+        [4, 'Not a ChatGPT conversation'],
+      ]
+    );
+  });
+});
+
+describe('parseClaudeExport', () => {
+  const parsed = parseClaudeExport(readFixture('claude-conversations.json'));
+
+  it('maps the valid conversations', () => {
+    assert.equal(parsed.source, 'claude');
+    assert.deepEqual(
+      parsed.chats.map((chat) => [chat.index, chat.title, chat.model, chat.messages.length]),
+      [
+        [0, 'Dutch grammar questions', null, 2],
+        [1, null, 'claude-3-opus-20240229', 2],
+      ]
+    );
+    assert.equal(parsed.chats[0].externalId, 'claude:2b7e4d10-0001-4f4a-8c55-9d1e6a7b0001');
+  });
+
+  it('keeps text messages of partially supported conversations', () => {
+    assert.deepEqual(
+      parsed.chats[1].messages.map((message) => [message.role, message.content]),
+      [
+        ['user', 'Summarize the attached notes.'],
+        ['assistant', 'The notes cover three topics: budget, hiring and the Q3 roadmap.'],
+      ]
+    );
+  });
+
+  it('reports skipped entries with a reason', () => {
+    assert.deepEqual(
+      parsed.skipped.map((entry) => [entry.index, entry.reason]),
+      [
+        [1, '1 message(s) without text or with an unknown sender skipped'],
+        [2, 'Conversation has no text messages'],
+        [3, 'Conversation has no valid created_at'],
+      ]
+    );
+  });
+});
+
+describe('duplicate conversations', () => {
+  it('imports a conversation listed twice in the file once', () => {
+    const [conversation] = readFixture('chatgpt-conversations.json');
+    const parsed = parseChatGPTExport([conversation, conversation]);
+
+    assert.equal(parsed.chats.length, 1);
+    assert.deepEqual(parsed.skipped, [
+      { index: 1, title: 'Recursion in Python', reason: 'Duplicate of an earlier conversation in the file' },
+    ]);
+  });
+
+  it('dedupes Claude conversations too', () => {
+    const [conversation] = readFixture('claude-conversations.json');
+    const parsed = parseClaudeExport([conversation, conversation]);
+
+    assert.equal(parsed.chats.length, 1);
+    assert.equal(parsed.skipped[0].reason, 'Duplicate of an earlier conversation in the file');
+  });
+});
+
+describe('parseImportFile', () => {
+  it('detects the source of the file', () => {
+    assert.equal(detectImportSource(readFixture('chatgpt-conversations.json')), 'chatgpt');
+    assert.equal(detectImportSource(readFixture('claude-conversations.json')), 'claude');
+    assert.equal(detectImportSource([{ title: 'Unknown' }]), null);
+  });
+
+  it('rejects files that are not a list of conversations', () => {
+    assert.ok(parseImportFile({ conversations: [] }).error);
+    assert.ok(parseImportFile([{ title: 'Unknown' }]).error);
+  });
+});
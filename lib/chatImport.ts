@@ -0,0 +1,468 @@
+import { randomUUID } from 'crypto';
+
+import { getCatalogModel } from '@/lib/modelCatalog';
+import { prisma } from '@/lib/prisma';
+import { ImportReport, ImportSkippedEntry, ImportSource } from '@/types/chat';
+
+export const IMPORT_SOURCES: ImportSource[] = ['chatgpt', 'claude'];
+
+// Chat model used when the export doesn't say which model was used, or names one OpenRouter doesn't offer
+const DEFAULT_MODELS: Record<ImportSource, string> = {
+  chatgpt: 'openai/gpt-4o',
+  claude: 'anthropic/claude-3.5-sonnet',
+};
+
+// Provider prefix for model names without one, to match OpenRouter model IDs
+const MODEL_PROVIDERS: Record<ImportSource, string> = {
+  chatgpt: 'openai',
+  claude: 'anthropic',
+};
+
+/**
+ * A message mapped from an export file
+ */
+export interface ImportedMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp: Date;
+  // The model name as it appears in the export, e.g. "gpt-4o" or "claude-3-opus-20240229"
+  model: string | null;
+}
+
+/**
+ * A conversation mapped from an export file
+ */
+export interface ImportedChat {
+  // Position of the conversation in the export file
+  index: number;
+  externalId: string;
+  title: string | null;
+  // The model name as it appears in the export, see resolveChatModel for the model the chat continues with
+  model: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+  messages: ImportedMessage[];
+}
+
+/**
+ * Conversations mapped from an export file, with the entries that could not be mapped
+ */
+export interface ParsedImport {
+  source: ImportSource;
+  chats: ImportedChat[];
+  skipped: ImportSkippedEntry[];
+}
+
+/**
+ * A node of the message tree in a ChatGPT conversations.json export
+ */
+interface ChatGPTNode {
+  id?: string;
+  parent?: string | null;
+  message?: {
+    author?: { role?: string };
+    content?: { content_type?: string; parts?: unknown[] };
+    create_time?: number | null;
+    metadata?: { model_slug?: string; is_visually_hidden_from_conversation?: boolean };
+  } | null;
+}
+
+interface ChatGPTConversation {
+  id?: string;
+  conversation_id?: string;
+  title?: string;
+  create_time?: number | null;
+  update_time?: number | null;
+  current_node?: string;
+  default_model_slug?: string;
+  mapping?: Record<string, ChatGPTNode>;
+}
+
+/**
+ * A conversation in a Claude.ai conversations.json export
+ */
+interface ClaudeConversation {
+  uuid?: string;
+  name?: string;
+  model?: string;
+  created_at?: string;
+  updated_at?: string;
+  chat_messages?: {
+    uuid?: string;
+    sender?: string;
+    text?: string;
+    content?: { type?: string; text?: string }[];
+    created_at?: string;
+  }[];
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Convert a Unix timestamp in seconds (ChatGPT) or an ISO string (Claude) into a date
+ */
+const toDate = (value: unknown): Date | null => {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return new Date(value * 1000);
+  }
+  if (typeof value === 'string') {
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? null : date;
+  }
+  return null;
+};
+
+/**
+ * Read a model name from an export, as it appears there
+ */
+const toModelName = (model: unknown): string | null =>
+  typeof model === 'string' && model.trim() ? model.trim() : null;
+
+/**
+ * Turn a model name from an export into an OpenRouter-style model ID ("gpt-4o" -> "openai/gpt-4o")
+ */
+const toModelId = (model: string, source: ImportSource): string =>
+  model.includes('/') ? model : `${MODEL_PROVIDERS[source]}/${model}`;
+
+/**
+ * Pick the model an imported chat continues with
+ * Exports name models OpenRouter doesn't offer (e.g. dated Claude versions), so the model is only
+ * used when it is in the catalog; otherwise the default model of the source is used
+ * @param model - The model name from the export
+ */
+export async function resolveChatModel(model: string | null, source: ImportSource): Promise<string> {
+  if (!model) {
+    return DEFAULT_MODELS[source];
+  }
+
+  try {
+    const modelId = toModelId(model, source);
+    return (await getCatalogModel(modelId)) ? modelId : DEFAULT_MODELS[source];
+  } catch (error) {
+    console.error('Error looking up imported model:', error);
+    return DEFAULT_MODELS[source];
+  }
+}
+
+/**
+ * Add a mapped conversation, skipping it when the file already listed the same conversation
+ */
+const addChat = (chats: ImportedChat[], skipped: ImportSkippedEntry[], chat: ImportedChat) => {
+  if (chats.some((other) => other.externalId === chat.externalId)) {
+    skipped.push({ index: chat.index, title: chat.title, reason: 'Duplicate of an earlier conversation in the file' });
+    return;
+  }
+  chats.push(chat);
+};
+
+/**
+ * Detect which tool an export file comes from
+ * @returns The source, or null when the format is not recognized
+ */
+export function detectImportSource(data: unknown): ImportSource | null {
+  if (!Array.isArray(data)) {
+    return null;
+  }
+
+  const first = data.find(isObject);
+  if (!first) {
+    return null;
+  }
+  if ('mapping' in first) {
+    return 'chatgpt';
+  }
+  if ('chat_messages' in first) {
+    return 'claude';
+  }
+  return null;
+}
+
+/**
+ * Get the messages on the branch that was last shown in ChatGPT, oldest first
+ * Falls back to the most recent message when current_node is missing
+ */
+const getChatGPTPath = (conversation: ChatGPTConversation): ChatGPTNode[] => {
+  const mapping = conversation.mapping || {};
+  let nodeId = conversation.current_node;
+
+  if (!nodeId || !mapping[nodeId]) {
+    nodeId = Object.entries(mapping)
+      .sort(([, a], [, b]) => (b.message?.create_time ?? 0) - (a.message?.create_time ?? 0))[0]?.[0];
+  }
+
+  const path: ChatGPTNode[] = [];
+  const visited = new Set<string>();
+  while (nodeId && mapping[nodeId] && !visited.has(nodeId)) {
+    visited.add(nodeId);
+    path.unshift(mapping[nodeId]);
+    nodeId = mapping[nodeId].parent ?? undefined;
+  }
+
+  return path;
+};
+
+/**
+ * Map a ChatGPT conversations.json export
+ */
+export function parseChatGPTExport(data: unknown[]): ParsedImport {
+  const chats: ImportedChat[] = [];
+  const skipped: ImportSkippedEntry[] = [];
+
+  data.forEach((entry, index) => {
+    if (!isObject(entry) || !isObject(entry.mapping)) {
+      skipped.push({ index, title: null, reason: 'Not a ChatGPT conversation' });
+      return;
+    }
+
+    const conversation = entry as ChatGPTConversation;
+    const title = conversation.title?.trim() || null;
+    const externalId = conversation.conversation_id || conversation.id;
+    const createdAt = toDate(conversation.create_time);
+
+    if (!externalId) {
+      skipped.push({ index, title, reason: 'Conversation has no id' });
+      return;
+    }
+    if (!createdAt) {
+      skipped.push({ index, title, reason: 'Conversation has no valid create_time' });
+      return;
+    }
+
+    const messages: ImportedMessage[] = [];
+    let unsupportedCount = 0;
+
+    for (const node of getChatGPTPath(conversation)) {
+      const message = node.message;
+      const role = message?.author?.role;
+
+      // System and tool messages are internal to ChatGPT
+      if (!message || (role !== 'user' && role !== 'assistant') || message.metadata?.is_visually_hidden_from_conversation) {
+        continue;
+      }
+
+      const contentType = message.content?.content_type;
+      const text = (message.content?.parts || [])
+        .filter((part): part is string => typeof part === 'string')
+        .join('\n')
+        .trim();
+
+      if ((contentType !== 'text' && contentType !== 'multimodal_text') || !text) {
+        unsupportedCount++;
+        continue;
+      }
+
+      messages.push({
+        role,
+        content: text,
+        timestamp: toDate(message.create_time) ?? createdAt,
+        model: role === 'assistant' ? toModelName(message.metadata?.model_slug) : null,
+      });
+    }
+
+    if (messages.length === 0) {
+      skipped.push({ index, title, reason: 'Conversation has no text messages' });
+      return;
+    }
+    if (unsupportedCount > 0) {
+      skipped.push({ index, title, reason: `${unsupportedCount} message(s) without text content skipped (images, code output, browsing)` });
+    }
+
+    addChat(chats, skipped, {
+      index,
+      externalId: `chatgpt:${externalId}`,
+      title,
+      model: [...messages].reverse().find((message) => message.model)?.model
+        ?? toModelName(conversation.default_model_slug),
+      createdAt,
+      updatedAt: toDate(conversation.update_time) ?? messages[messages.length - 1].timestamp,
+      messages,
+    });
+  });
+
+  return { source: 'chatgpt', chats, skipped };
+}
+
+/**
+ * Map a Claude.ai conversations.json export
+ */
+export function parseClaudeExport(data: unknown[]): ParsedImport {
+  const chats: ImportedChat[] = [];
+  const skipped: ImportSkippedEntry[] = [];
+
+  data.forEach((entry, index) => {
+    if (!isObject(entry) || !Array.isArray(entry.chat_messages)) {
+      skipped.push({ index, title: null, reason: 'Not a Claude conversation' });
+      return;
+    }
+
+    const conversation = entry as ClaudeConversation;
+    const title = conversation.name?.trim() || null;
+    const createdAt = toDate(conversation.created_at);
+    const model = toModelName(conversation.model);
+
+    if (!conversation.uuid) {
+      skipped.push({ index, title, reason: 'Conversation has no uuid' });
+      return;
+    }
+    if (!createdAt) {
+      skipped.push({ index, title, reason: 'Conversation has no valid created_at' });
+      return;
+    }
+
+    const messages: ImportedMessage[] = [];
+    let unsupportedCount = 0;
+
+    for (const message of conversation.chat_messages || []) {
+      const role = message.sender === 'human' ? 'user' : message.sender === 'assistant' ? 'assistant' : null;
+
+      // Newer exports split messages into content blocks, older ones only have text
+      const text = (Array.isArray(message.content) && message.content.length > 0
+        ? message.content
+            .filter((block) => block.type === 'text' && typeof block.text === 'string')
+            .map((block) => block.text)
+            .join('\n\n')
+        : message.text || ''
+      ).trim();
+
+      if (!role || !text) {
+        unsupportedCount++;
+        continue;
+      }
+
+      messages.push({
+        role,
+        content: text,
+        timestamp: toDate(message.created_at) ?? createdAt,
+        model: role === 'assistant' ? model : null,
+      });
+    }
+
+    if (messages.length === 0) {
+      skipped.push({ index, title, reason: 'Conversation has no text messages' });
+      return;
+    }
+    if (unsupportedCount > 0) {
+      skipped.push({ index, title, reason: `${unsupportedCount} message(s) without text or with an unknown sender skipped` });
+    }
+
+    addChat(chats, skipped, {
+      index,
+      externalId: `claude:${conversation.uuid}`,
+      title,
+      model,
+      createdAt,
+      updatedAt: toDate(conversation.updated_at) ?? messages[messages.length - 1].timestamp,
+      messages,
+    });
+  });
+
+  return { source: 'claude', chats, skipped };
+}
+
+/**
+ * Map an export file into chats
+ * @param data - The parsed conversations.json file
+ * @param source - The tool the file comes from, detected from the file when omitted
+ */
+export function parseImportFile(
+  data: unknown,
+  source?: ImportSource
+): { parsed: ParsedImport; error?: undefined } | { parsed?: undefined; error: string } {
+  if (!Array.isArray(data)) {
+    return { error: 'Import file must contain an array of conversations (conversations.json)' };
+  }
+
+  const importSource = source ?? detectImportSource(data);
+  if (!importSource) {
+    return { error: 'Unrecognized export format. Upload conversations.json from a ChatGPT or Claude.ai export' };
+  }
+
+  return {
+    parsed: importSource === 'chatgpt' ? parseChatGPTExport(data) : parseClaudeExport(data),
+  };
+}
+
+/**
+ * Save one imported conversation as a chat with a single branch of messages
+ * @param model - The model the chat continues with, from resolveChatModel
+ */
+async function saveImportedChat(userId: string, chat: ImportedChat, model: string): Promise<void> {
+  const messageIds = chat.messages.map(() => randomUUID());
+
+  // The nested create saves the chat and its messages atomically
+  await prisma.chat.create({
+    data: {
+      userId,
+      title: chat.title,
+      model,
+      externalId: chat.externalId,
+      activeLeafId: messageIds[messageIds.length - 1],
+      createdAt: chat.createdAt,
+      updatedAt: chat.updatedAt,
+      messages: {
+        createMany: {
+          data: chat.messages.map((message, index) => ({
+            id: messageIds[index],
+            parentId: index > 0 ? messageIds[index - 1] : null,
+            role: message.role,
+            content: message.content,
+            model: message.model,
+            timestamp: message.timestamp,
+            createdAt: message.timestamp,
+          })),
+        },
+      },
+    },
+  });
+}
+
+/**
+ * Import mapped conversations for a user, skipping conversations that were imported before
+ * @param userId - The user to import the chats for
+ * @param parsed - The mapped export file
+ * @param dryRun - Only report what would be imported
+ */
+export async function importChats(userId: string, parsed: ParsedImport, dryRun: boolean): Promise<ImportReport> {
+  const existing = await prisma.chat.findMany({
+    where: {
+      userId,
+      externalId: { in: parsed.chats.map((chat) => chat.externalId) },
+    },
+    select: { externalId: true },
+  });
+  const existingIds = new Set(existing.map((chat) => chat.externalId));
+
+  const skipped = [...parsed.skipped];
+  const chatsToImport = parsed.chats.filter((chat) => {
+    if (existingIds.has(chat.externalId)) {
+      skipped.push({ index: chat.index, title: chat.title, reason: 'Already imported' });
+      return false;
+    }
+    return true;
+  });
+
+  const models = await Promise.all(chatsToImport.map((chat) => resolveChatModel(chat.model, parsed.source)));
+
+  let importedCount = 0;
+  if (!dryRun) {
+    for (const [index, chat] of chatsToImport.entries()) {
+      await saveImportedChat(userId, chat, models[index]);
+      importedCount++;
+    }
+  }
+
+  return {
+    source: parsed.source,
+    dryRun,
+    chats: chatsToImport.map((chat, index) => ({
+      externalId: chat.externalId,
+      title: chat.title,
+      model: models[index],
+      createdAt: chat.createdAt.toISOString(),
+      messageCount: chat.messages.length,
+    })),
+    skipped: skipped.sort((a, b) => a.index - b.index),
+    importedCount,
+  };
+}
@@ -0,0 +1,108 @@
+import { GenerationParams } from '@/lib/openrouter';
+
+/**
+ * Per-chat system prompt and generation parameters as stored on the Chat row
+ * A null value (or an empty stopSequences array) means "use the model default"
+ */
+export interface ChatSettings {
+  systemPrompt: string | null;
+  temperature: number | null;
+  topP: number | null;
+  maxTokens: number | null;
+  stopSequences: string[];
+  seed: number | null;
+}
+
+export const MAX_STOP_SEQUENCES = 4;
+
+type ValidationResult =
+  | { settings: Partial<ChatSettings>; error?: undefined }
+  | { settings?: undefined; error: string };
+
+/**
+ * Validate a number field that may be null to reset it to the model default
+ */
+function validateNumber(
+  value: unknown,
+  name: string,
+  min: number,
+  max: number,
+  integer = false
+): { value: number | null; error?: undefined } | { value?: undefined; error: string } {
+  if (value === null) {
+    return { value: null };
+  }
+  if (typeof value !== 'number' || !Number.isFinite(value) || (integer && !Number.isInteger(value))) {
+    return { error: `${name} must be ${integer ? 'an integer' : 'a number'} or null` };
+  }
+  if (value < min || value > max) {
+    return { error: `${name} must be between ${min} and ${max}` };
+  }
+  return { value };
+}
+
+/**
+ * Validate the chat settings fields present in a request body
+ * Fields that are absent are left out of the result, so it can be used for partial updates
+ * @param body - The parsed request body
+ * @returns The validated settings, or an error message
+ */
+export function validateChatSettings(body: Record<string, unknown>): ValidationResult {
+  const settings: Partial<ChatSettings> = {};
+
+  const { systemPrompt } = body;
+  if (systemPrompt !== undefined) {
+    if (systemPrompt !== null && typeof systemPrompt !== 'string') {
+      return { error: 'systemPrompt must be a string or null' };
+    }
+    settings.systemPrompt = systemPrompt?.trim() || null;
+  }
+
+  const numberFields: { key: 'temperature' | 'topP' | 'maxTokens' | 'seed'; min: number; max: number; integer?: boolean }[] = [
+    { key: 'temperature', min: 0, max: 2 },
+    { key: 'topP', min: 0, max: 1 },
+    { key: 'maxTokens', min: 1, max: 1_000_000, integer: true },
+    { key: 'seed', min: -2_147_483_648, max: 2_147_483_647, integer: true },
+  ];
+
+  for (const field of numberFields) {
+    if (body[field.key] === undefined) {
+      continue;
+    }
+    const result = validateNumber(body[field.key], field.key, field.min, field.max, field.integer);
+    if (result.error !== undefined) {
+      return { error: result.error };
+    }
+    settings[field.key] = result.value;
+  }
+
+  if (body.stopSequences !== undefined) {
+    const stopSequences = body.stopSequences ?? [];
+    if (!Array.isArray(stopSequences) || stopSequences.some((s) => typeof s !== 'string')) {
+      return { error: 'stopSequences must be an array of strings' };
+    }
+    const nonEmpty = (stopSequences as string[]).filter((s) => s.length > 0);
+    if (nonEmpty.length > MAX_STOP_SEQUENCES) {
+      return { error: `At most ${MAX_STOP_SEQUENCES} stop sequences are allowed` };
+    }
+    settings.stopSequences = nonEmpty;
+  }
+
+  return { settings };
+}
+
+/**
+ * Convert stored chat settings into OpenRouter generation parameters
+ * Unset values are omitted so the model defaults apply
+ */
+export function toGenerationParams(settings: ChatSettings): GenerationParams {
+  const params: GenerationParams = {};
+
+  if (settings.temperature !== null) params.temperature = settings.temperature;
+  if (settings.topP !== null) params.topP = settings.topP;
+  if (settings.maxTokens !== null) params.maxTokens = settings.maxTokens;
+  if (settings.stopSequences.length > 0) params.stop = settings.stopSequences;
+  if (settings.seed !== null) params.seed = settings.seed;
+
+  return params;
+}
@@ -0,0 +1,43 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { createLocalEmbedder, normalizeVector } from '@/lib/embeddings';
+
+const dot = (a: number[], b: number[]) => a.reduce((total, value, i) => total + value * b[i], 0);
+
+describe('createLocalEmbedder', () => {
+  it('returns the same vectors for the same text', async () => {
+    const texts = ['Invoices are due within 30 days', 'De factuur moet binnen 30 dagen betaald zijn'];
+    const first = await createLocalEmbedder().embed(texts);
+    const second = await createLocalEmbedder().embed(texts);
+    assert.deepEqual(first, second);
+  });
+
+  it('returns unit vectors of the configured length', async () => {
+    const embedder = createLocalEmbedder(64);
+    const [vector] = await embedder.embed(['Refunds are paid within two weeks of the return']);
+    assert.equal(embedder.id, 'local-hash-64');
+    assert.equal(vector.length, 64);
+    assert.ok(Math.abs(dot(vector, vector) - 1) < 1e-9);
+  });
+
+  it('ignores case, diacritics and stop words', async () => {
+    const [a, b] = await createLocalEmbedder().embed(['The Café menu', 'cafe MENU']);
+    assert.ok(Math.abs(dot(a, b) - 1) < 1e-9);
+  });
+
+  it('scores texts with shared vocabulary higher', async () => {
+    const [query, related, unrelated] = await createLocalEmbedder().embed([
+      'refund policy for returns',
+      'Our refund policy covers returns within 30 days',
+      'The office is closed on public holidays',
+    ]);
+    assert.ok(dot(query, related) > dot(query, unrelated));
+  });
+
+  it('leaves text without words as a zero vector', async () => {
+    const [vector] = await createLocalEmbedder(8).embed(['the, and!']);
+    assert.deepEqual(vector, new Array(8).fill(0));
+    assert.deepEqual(normalizeVector([0, 0]), [0, 0]);
+  });
+});
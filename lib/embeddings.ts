@@ -0,0 +1,146 @@
+import { openRouter, getOpenRouterHeaders } from '@/lib/openrouter';
+
+/**
+ * Turns texts into vectors for the knowledge base
+ * The id is stored with every document, so vectors from different embedders are never compared
+ */
+export interface Embedder {
+  id: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+const LOCAL_DIMENSIONS = 256;
+
+// Common English and Dutch words that say little about what a text is about
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'do', 'for', 'from', 'has', 'have', 'how', 'i', 'in',
+  'is', 'it', 'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'what', 'with', 'you',
+  'de', 'een', 'en', 'het', 'ik', 'je', 'met', 'niet', 'op', 'te', 'van', 'voor', 'wat', 'zijn',
+]);
+
+/**
+ * 32-bit FNV-1a hash of a string
+ */
+const hashString = (text: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Lowercase words without diacritics and stop words, e.g. "The Café" -> ["cafe"]
+ */
+const tokenize = (text: string): string[] =>
+  text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((token) => token.length > 0 && !STOP_WORDS.has(token));
+
+/**
+ * Scale a vector to unit length, so a dot product is the cosine similarity
+ */
+export function normalizeVector(vector: number[]): number[] {
+  const length = Math.sqrt(vector.reduce((total, value) => total + value * value, 0));
+  return length > 0 ? vector.map((value) => value / length) : vector;
+}
+
+/**
+ * Deterministic embedder that needs no network access, for tests and offline development
+ * Hashes words and word pairs into a fixed number of dimensions, so it matches on shared
+ * vocabulary rather than meaning
+ * @param dimensions - Length of the vectors
+ */
+export function createLocalEmbedder(dimensions = LOCAL_DIMENSIONS): Embedder {
+  const embedOne = (text: string): number[] => {
+    const counts = new Map<string, number>();
+    const tokens = tokenize(text);
+    tokens.forEach((token, index) => {
+      counts.set(token, (counts.get(token) ?? 0) + 1);
+      if (index > 0) {
+        const pair = `${tokens[index - 1]} ${token}`;
+        counts.set(pair, (counts.get(pair) ?? 0) + 1);
+      }
+    });
+
+    const vector = new Array<number>(dimensions).fill(0);
+    for (const [feature, count] of counts) {
+      const hash = hashString(feature);
+      // The lowest bit picks the sign so colliding features tend to cancel out
+      const sign = hash & 1 ? 1 : -1;
+      vector[(hash >>> 1) % dimensions] += sign * (1 + Math.log(count));
+    }
+
+    return normalizeVector(vector);
+  };
+
+  return {
+    id: `local-hash-${dimensions}`,
+    async embed(texts) {
+      return texts.map(embedOne);
+    },
+  };
+}
+
+/**
+ * Embedder that uses an embeddings model through OpenRouter
+ * @param model - The OpenRouter embeddings model, e.g. "openai/text-embedding-3-small"
+ */
+export function createOpenRouterEmbedder(model: string): Embedder {
+  return {
+    id: `openrouter:${model}`,
+    async embed(texts) {
+      if (texts.length === 0) {
+        return [];
+      }
+
+      const response = await openRouter.embeddings.generate(
+        { model, input: texts },
+        { headers: getOpenRouterHeaders() }
+      );
+
+      if (typeof response === 'string') {
+        throw new Error('Unexpected embeddings response from OpenRouter');
+      }
+
+      return [...response.data]
+        .sort((a, b) => (a.index ?? 0) - (b.index ?? 0))
+        .map((item) => {
+          if (typeof item.embedding === 'string') {
+            throw new Error('Base64 embeddings are not supported');
+          }
+          return normalizeVector(item.embedding);
+        });
+    },
+  };
+}
+
+let embedder: Embedder | null = null;
+
+/**
+ * Get the embedder configured with EMBEDDING_PROVIDER (default "local")
+ * Add a case here to plug in another provider
+ */
+export function getEmbedder(): Embedder {
+  if (embedder) {
+    return embedder;
+  }
+
+  const provider = process.env.EMBEDDING_PROVIDER || 'local';
+  switch (provider) {
+    case 'local':
+      embedder = createLocalEmbedder();
+      break;
+    case 'openrouter':
+      embedder = createOpenRouterEmbedder(process.env.EMBEDDING_MODEL || 'openai/text-embedding-3-small');
+      break;
+    default:
+      throw new Error(`Unknown embedding provider: ${provider}`);
+  }
+
+  return embedder;
+}
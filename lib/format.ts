@@ -0,0 +1,27 @@
+/**
+ * Format a cost in USD, keeping enough precision for sub-cent amounts
+ * @param cost - The cost in USD
+ */
+export function formatCost(cost: number): string {
+  if (cost === 0) return '$0';
+  if (cost < 0.01) return `$${cost.toFixed(4)}`;
+  return `$${cost.toFixed(2)}`;
+}
+
+/**
+ * Format a token count with thousands separators
+ * @param tokens - The number of tokens
+ */
+export function formatTokens(tokens: number): string {
+  return tokens.toLocaleString('nl-NL');
+}
+
+/**
+ * Format a file size in bytes as B, KB or MB
+ * @param bytes - The file size in bytes
+ */
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -0,0 +1,51 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { chunkText } from '@/lib/knowledgeBase';
+
+// 120 distinct words, so every chunk can be located in the text
+const WORDS = Array.from({ length: 120 }, (_, i) => `word${i}`);
+const TEXT = WORDS.join(' ');
+
+describe('chunkText', () => {
+  it('keeps short text in one chunk', () => {
+    assert.deepEqual(chunkText('  Short text\r\non two lines  ', 100, 20), ['Short text\non two lines']);
+    assert.deepEqual(chunkText('   ', 100, 20), []);
+  });
+
+  it('ends chunks at word boundaries within the size', () => {
+    const chunks = chunkText(TEXT, 100, 20);
+    assert.ok(chunks.length > 1);
+    for (const chunk of chunks) {
+      assert.ok(chunk.length <= 100, chunk);
+      assert.ok(chunk.split(' ').every((word) => WORDS.includes(word)), chunk);
+    }
+    assert.equal(chunks[0].split(' ')[0], 'word0');
+    assert.equal(chunks[chunks.length - 1].split(' ').pop(), 'word119');
+  });
+
+  it('overlaps consecutive chunks by whole words', () => {
+    const chunks = chunkText(TEXT, 100, 20);
+    for (let i = 1; i < chunks.length; i++) {
+      const previousWords = chunks[i - 1].split(' ');
+      const firstWord = chunks[i].split(' ')[0];
+      const overlap = previousWords.slice(previousWords.indexOf(firstWord));
+      assert.ok(previousWords.includes(firstWord), `chunk ${i} does not overlap`);
+      assert.ok(overlap.join(' ').length <= 20, `chunk ${i} overlaps too much`);
+      assert.deepEqual(chunks[i].split(' ').slice(0, overlap.length), overlap);
+    }
+  });
+
+  it('prefers paragraph boundaries', () => {
+    const first = 'a'.repeat(30) + ' ' + 'b'.repeat(30);
+    const chunks = chunkText(`${first}\n\n${'c'.repeat(20)} ${'d'.repeat(40)}`, 100, 20);
+    assert.equal(chunks[0], first);
+  });
+
+  it('cuts text without boundaries at the size, without overlap', () => {
+    const text = 'x'.repeat(250);
+    const chunks = chunkText(text, 100, 20);
+    assert.deepEqual(chunks.map((chunk) => chunk.length), [100, 100, 50]);
+    assert.equal(chunks.join(''), text);
+  });
+});
@@ -0,0 +1,272 @@
+import { Collection, Document } from '@prisma/client';
+
+import { prisma } from '@/lib/prisma';
+import { getEmbedder } from '@/lib/embeddings';
+import { getVectorStore } from '@/lib/vectorStore';
+import { Citation, CollectionDocument, CollectionSummary } from '@/types/chat';
+
+export const MAX_DOCUMENT_SIZE = 5 * 1024 * 1024;
+export const MAX_COLLECTION_NAME_LENGTH = 100;
+export const MAX_COLLECTION_DESCRIPTION_LENGTH = 500;
+
+// Characters per chunk, and how many characters consecutive chunks share
+const CHUNK_SIZE = 1000;
+const CHUNK_OVERLAP = 200;
+// Chunks embedded per request to the embedder
+const EMBED_BATCH_SIZE = 64;
+// Number of chunks given to the model, and the similarity a chunk needs to be included
+export const RETRIEVAL_LIMIT = 5;
+const MIN_SCORE = 0.05;
+
+const DOCUMENT_TYPES: Record<string, string> = {
+  txt: 'text/plain',
+  md: 'text/markdown',
+  markdown: 'text/markdown',
+  csv: 'text/csv',
+  json: 'application/json',
+  html: 'text/html',
+  htm: 'text/html',
+};
+
+/**
+ * Validate an uploaded knowledge base document and determine its MIME type
+ * Only text formats are supported, their contents are indexed as-is
+ */
+export function validateDocumentFile(
+  file: File
+): { mimeType: string; error?: undefined } | { mimeType?: undefined; error: string } {
+  if (file.size === 0) {
+    return { error: 'File is empty' };
+  }
+
+  if (file.size > MAX_DOCUMENT_SIZE) {
+    return { error: `File must be at most ${MAX_DOCUMENT_SIZE / (1024 * 1024)} MB` };
+  }
+
+  const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+  const mimeType = Object.values(DOCUMENT_TYPES).includes(file.type) ? file.type : DOCUMENT_TYPES[extension];
+
+  if (!mimeType) {
+    return { error: 'Only text documents (.txt, .md, .csv, .json, .html) are supported' };
+  }
+
+  return { mimeType };
+}
+
+/**
+ * Validate the collection fields present in a request body
+ * @param body - The parsed request body
+ * @param partial - Allow the name to be left out (for updates)
+ */
+export function validateCollectionInput(
+  body: Record<string, unknown>,
+  partial = false
+): { data: { name?: string; description?: string | null }; error?: undefined } | { data?: undefined; error: string } {
+  const data: { name?: string; description?: string | null } = {};
+  const { name, description } = body;
+
+  if (name !== undefined || !partial) {
+    if (typeof name !== 'string' || name.trim().length === 0) {
+      return { error: 'Name is required and must be a non-empty string' };
+    }
+    if (name.trim().length > MAX_COLLECTION_NAME_LENGTH) {
+      return { error: `Name must be at most ${MAX_COLLECTION_NAME_LENGTH} characters` };
+    }
+    data.name = name.trim();
+  }
+
+  if (description !== undefined) {
+    if (description !== null && typeof description !== 'string') {
+      return { error: 'Description must be a string or null' };
+    }
+    if (description && description.length > MAX_COLLECTION_DESCRIPTION_LENGTH) {
+      return { error: `Description must be at most ${MAX_COLLECTION_DESCRIPTION_LENGTH} characters` };
+    }
+    data.description = description?.trim() || null;
+  }
+
+  return { data };
+}
+
+/**
+ * Convert a collection with its document count into the API shape
+ */
+export function toCollectionSummary(collection: Collection & { _count: { documents: number } }): CollectionSummary {
+  return {
+    id: collection.id,
+    name: collection.name,
+    description: collection.description,
+    documentCount: collection._count.documents,
+    createdAt: collection.createdAt.toISOString(),
+    updatedAt: collection.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * Convert a document with its chunk count into the API shape
+ */
+export function toCollectionDocument(document: Document & { _count: { chunks: number } }): CollectionDocument {
+  return {
+    id: document.id,
+    fileName: document.fileName,
+    mimeType: document.mimeType,
+    size: document.size,
+    chunkCount: document._count.chunks,
+    createdAt: document.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Split text into overlapping chunks of about CHUNK_SIZE characters
+ * Chunks end at a paragraph, line, sentence or word boundary where possible
+ */
+export function chunkText(text: string, size = CHUNK_SIZE, overlap = CHUNK_OVERLAP): string[] {
+  const normalized = text.replace(/\r\n?/g, '\n').trim();
+  const chunks: string[] = [];
+  let start = 0;
+
+  while (start < normalized.length) {
+    let end = Math.min(start + size, normalized.length);
+
+    if (end < normalized.length) {
+      // Only look for a boundary in the second half, so chunks don't get too small
+      const minEnd = start + Math.floor(size / 2);
+      const window = normalized.slice(minEnd, end);
+      for (const separator of ['\n\n', '\n', '. ', ' ']) {
+        const boundary = window.lastIndexOf(separator);
+        if (boundary !== -1) {
+          end = minEnd + boundary + separator.length;
+          break;
+        }
+      }
+    }
+
+    const chunk = normalized.slice(start, end).trim();
+    if (chunk) {
+      chunks.push(chunk);
+    }
+    if (end >= normalized.length) {
+      break;
+    }
+
+    // Start the next chunk at a word boundary inside the overlap
+    const overlapStart = Math.max(end - overlap, start + 1);
+    const nextWord = normalized.indexOf(' ', overlapStart);
+    start = nextWord !== -1 && nextWord < end ? nextWord + 1 : end;
+  }
+
+  return chunks;
+}
+
+/**
+ * Chunk and embed a document and add it to a collection
+ * @param collectionId - The collection to add the document to
+ * @param file - The uploaded file
+ * @param mimeType - The validated MIME type of the file
+ * @returns The new document, or an error when the file has no text
+ */
+export async function addDocument(
+  collectionId: string,
+  file: File,
+  mimeType: string
+): Promise<{ document: CollectionDocument; error?: undefined } | { document?: undefined; error: string }> {
+  const chunks = chunkText(await file.text());
+
+  if (chunks.length === 0) {
+    return { error: 'The document contains no text' };
+  }
+
+  const embedder = getEmbedder();
+  const embeddings: number[][] = [];
+  for (let i = 0; i < chunks.length; i += EMBED_BATCH_SIZE) {
+    embeddings.push(...(await embedder.embed(chunks.slice(i, i + EMBED_BATCH_SIZE))));
+  }
+
+  const document = await prisma.document.create({
+    data: {
+      collectionId,
+      fileName: file.name.substring(0, 255),
+      mimeType,
+      size: file.size,
+      embeddingModel: embedder.id,
+      chunks: {
+        createMany: {
+          data: chunks.map((content, index) => ({
+            index,
+            content,
+            embedding: embeddings[index],
+          })),
+        },
+      },
+    },
+    include: { _count: { select: { chunks: true } } },
+  });
+
+  await prisma.collection.update({
+    where: { id: collectionId },
+    data: { updatedAt: new Date() },
+  });
+
+  return { document: toCollectionDocument(document) };
+}
+
+/**
+ * Delete documents and drop them from the vector store
+ */
+export async function deleteDocuments(documentIds: string[]): Promise<void> {
+  await prisma.document.deleteMany({
+    where: { id: { in: documentIds } },
+  });
+
+  const vectorStore = getVectorStore();
+  documentIds.forEach((id) => vectorStore.forgetDocument(id));
+}
+
+/**
+ * Get the ids of the collections attached to a chat
+ */
+export async function getChatCollectionIds(chatId: string): Promise<string[]> {
+  const collections = await prisma.collection.findMany({
+    where: { chats: { some: { id: chatId } } },
+    select: { id: true },
+  });
+  return collections.map((collection) => collection.id);
+}
+
+/**
+ * Find the chunks of the given collections that are most relevant to a query
+ * @param collectionIds - The collections to search
+ * @param query - The text to find relevant chunks for, usually the user's message
+ * @param limit - Maximum number of chunks
+ * @returns The chunks as citations numbered from 1, most relevant first
+ */
+export async function retrieveSources(collectionIds: string[], query: string, limit = RETRIEVAL_LIMIT): Promise<Citation[]> {
+  if (collectionIds.length === 0 || !query.trim()) {
+    return [];
+  }
+
+  const embedder = getEmbedder();
+  const [vector] = await embedder.embed([query]);
+  const matches = await getVectorStore().search(collectionIds, embedder.id, vector, limit);
+
+  return matches
+    .filter((match) => match.score >= MIN_SCORE)
+    .map((match, index) => ({ index: index + 1, ...match }));
+}
+
+/**
+ * Build the system message that gives the model the retrieved chunks and asks it to cite them
+ */
+export function buildSourcesPrompt(sources: Citation[]): string {
+  const excerpts = sources.map((source) =>
+    `[${source.index}] ${source.documentName} (${source.collectionName})\n${source.content}`
+  );
+
+  return [
+    'The following excerpts from the user\'s knowledge base may help to answer the next message.',
+    'When you use an excerpt, cite it with its number in square brackets, e.g. [1].',
+    'If the excerpts are not relevant, answer without them and do not cite them.',
+    '',
+    excerpts.join('\n\n'),
+  ].join('\n');
+}
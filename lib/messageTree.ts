@@ -0,0 +1,198 @@
+import { Chat, Message } from '@prisma/client';
+
+import { prisma } from '@/lib/prisma';
+import { AttachmentInfo } from '@/types/chat';
+
+/**
+ * Link the messages of a chat that was created before messages had parents into a single branch
+ * Chats without an active leaf are assumed to be such linear chats
+ * @param chat - The chat to check
+ * @returns The id of the chat's active leaf message, or null when the chat has no messages
+ */
+export async function ensureMessageTree(chat: Chat): Promise<string | null> {
+  if (chat.activeLeafId) {
+    return chat.activeLeafId;
+  }
+
+  const messages = await prisma.message.findMany({
+    where: { chatId: chat.id },
+    orderBy: { timestamp: 'asc' },
+    select: { id: true, parentId: true },
+  });
+
+  if (messages.length === 0) {
+    return null;
+  }
+
+  const leafId = messages[messages.length - 1].id;
+
+  await prisma.$transaction([
+    ...messages.slice(1)
+      .map((message, index) => ({ ...message, previousId: messages[index].id }))
+      .filter((message) => message.parentId === null)
+      .map((message) =>
+        prisma.message.update({
+          where: { id: message.id },
+          data: { parentId: message.previousId },
+        })
+      ),
+    prisma.chat.update({
+      where: { id: chat.id },
+      data: { activeLeafId: leafId },
+    }),
+  ]);
+
+  return leafId;
+}
+
+/**
+ * Get the messages on the path from the root to the given leaf, oldest first
+ * @param messages - All messages of a chat
+ * @param leafId - The last message of the path
+ */
+export function getPathToLeaf<T extends { id: string; parentId: string | null }>(
+  messages: T[],
+  leafId: string
+): T[] {
+  const byId = new Map(messages.map((message) => [message.id, message]));
+  const path: T[] = [];
+
+  let current = byId.get(leafId);
+  while (current) {
+    path.unshift(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+
+  return path;
+}
+
+/**
+ * A message with the ids of all messages that share its parent, including itself, oldest first,
+ * and its attachments
+ */
+export type PathMessage = Message & { siblingIds: string[]; attachments: AttachmentInfo[] };
+
+/**
+ * A message with its replies, as returned by the full tree endpoint
+ */
+export type MessageTreeNode = Message & { children: MessageTreeNode[] };
+
+/**
+ * Group messages by their parent (roots under the empty string), keeping the input order
+ */
+const groupByParent = (messages: Message[]): Map<string, Message[]> => {
+  const groups = new Map<string, Message[]>();
+  for (const message of messages) {
+    const key = message.parentId ?? '';
+    groups.set(key, [...(groups.get(key) ?? []), message]);
+  }
+  return groups;
+};
+
+/**
+ * Find the most recent leaf among a message and its descendants
+ * @param messages - All messages of a chat, oldest first
+ * @param messageId - The message whose branch should be followed
+ */
+export function findLatestLeaf(messages: Message[], messageId: string): string {
+  const children = groupByParent(messages);
+  let latest = messages.find((message) => message.id === messageId);
+  const queue = latest ? [latest] : [];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    const replies = children.get(current.id) ?? [];
+    if (replies.length === 0 && latest && current.timestamp > latest.timestamp) {
+      latest = current;
+    }
+    queue.push(...replies);
+  }
+
+  return latest?.id ?? messageId;
+}
+
+/**
+ * Get the messages on the chat's active branch, oldest first, with their siblings
+ * Falls back to the most recent message when the active leaf no longer exists
+ */
+export async function getActivePath(chat: Chat): Promise<PathMessage[]> {
+  const leafId = await ensureMessageTree(chat);
+  if (!leafId) {
+    return [];
+  }
+
+  const messages = await prisma.message.findMany({
+    where: { chatId: chat.id },
+    orderBy: { timestamp: 'asc' },
+    include: {
+      attachments: {
+        select: { id: true, fileName: true, mimeType: true, size: true },
+        orderBy: { createdAt: 'asc' },
+      },
+    },
+  });
+
+  const hasLeaf = messages.some((message) => message.id === leafId);
+  const pathLeafId = hasLeaf ? leafId : messages[messages.length - 1]?.id;
+  if (!pathLeafId) {
+    return [];
+  }
+
+  const siblings = groupByParent(messages);
+  return getPathToLeaf(messages, pathLeafId).map((message) => ({
+    ...message,
+    siblingIds: (siblings.get(message.parentId ?? '') ?? []).map((sibling) => sibling.id),
+  }));
+}
+
+/**
+ * Get all messages of a chat as a tree of replies, oldest first on every level
+ * @returns The root messages and the id of the last message on the active branch
+ */
+export async function getMessageTree(
+  chat: Chat
+): Promise<{ tree: MessageTreeNode[]; activeLeafId: string | null }> {
+  const activeLeafId = await ensureMessageTree(chat);
+
+  const messages = await prisma.message.findMany({
+    where: { chatId: chat.id },
+    orderBy: { timestamp: 'asc' },
+  });
+
+  const children = groupByParent(messages);
+  const toNode = (message: Message): MessageTreeNode => ({
+    ...message,
+    children: (children.get(message.id) ?? []).map(toNode),
+  });
+
+  return {
+    tree: (children.get('') ?? []).map(toNode),
+    activeLeafId,
+  };
+}
+
+/**
+ * Make the branch through the given message the chat's active branch
+ * The branch is followed down to its most recent leaf
+ * @returns The new active path, or null when the message is not part of the chat
+ */
+export async function switchBranch(chat: Chat, messageId: string): Promise<PathMessage[] | null> {
+  await ensureMessageTree(chat);
+
+  const messages = await prisma.message.findMany({
+    where: { chatId: chat.id },
+    orderBy: { timestamp: 'asc' },
+  });
+
+  if (!messages.some((message) => message.id === messageId)) {
+    return null;
+  }
+
+  const activeLeafId = findLatestLeaf(messages, messageId);
+  const updatedChat = await prisma.chat.update({
+    where: { id: chat.id },
+    data: { activeLeafId },
+  });
+
+  return getActivePath(updatedChat);
+}
@@ -0,0 +1,128 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import {
+  getCatalogModel,
+  getModelCatalog,
+  normalizeModel,
+  supportsInputModality,
+  supportsParameter,
+} from '@/lib/modelCatalog';
+
+const FIXTURE = 'fixtures/catalog/openrouter-models-edge-cases.json';
+const SAMPLE_FIXTURE = 'fixtures/openrouter-models.json';
+
+describe('normalizeModel', () => {
+  it('maps pricing, context length, modalities and supported parameters', () => {
+    assert.deepEqual(
+      normalizeModel({
+        id: 'openai/gpt-4o',
+        name: 'OpenAI: GPT-4o',
+        description: 'Multimodal',
+        context_length: 128000,
+        pricing: { prompt: '0.0000025', completion: '0.00001' },
+        architecture: { input_modalities: ['text', 'image'], output_modalities: ['text'] },
+        supported_parameters: ['tools', 'response_format'],
+      }),
+      {
+        id: 'openai/gpt-4o',
+        name: 'GPT-4o',
+        provider: 'OpenAI',
+        description: 'Multimodal',
+        contextLength: 128000,
+        pricing: { prompt: 0.0000025, completion: 0.00001 },
+        inputModalities: ['text', 'image'],
+        outputModalities: ['text'],
+        supportedParameters: ['tools', 'response_format'],
+      }
+    );
+  });
+
+  it('defaults missing fields', () => {
+    assert.deepEqual(normalizeModel({ id: 'acme/unnamed' }), {
+      id: 'acme/unnamed',
+      name: 'acme/unnamed',
+      provider: 'acme',
+      description: '',
+      contextLength: null,
+      pricing: { prompt: 0, completion: 0 },
+      inputModalities: ['text'],
+      outputModalities: ['text'],
+      supportedParameters: [],
+    });
+  });
+
+  it('treats negative and invalid prices as free and accepts numbers', () => {
+    assert.deepEqual(normalizeModel({ id: 'a/b', pricing: { prompt: '-1', completion: 'n/a' } }).pricing, {
+      prompt: 0,
+      completion: 0,
+    });
+    assert.deepEqual(normalizeModel({ id: 'a/b', pricing: { prompt: 0.000001, completion: 0.000002 } }).pricing, {
+      prompt: 0.000001,
+      completion: 0.000002,
+    });
+  });
+
+  it('takes the provider from the name, or from the id when the name has none', () => {
+    const preview = normalizeModel({ id: 'acme/raw-pricing', name: 'Acme: Model: Preview' });
+    assert.equal(preview.provider, 'Acme');
+    assert.equal(preview.name, 'Model: Preview');
+
+    const auto = normalizeModel({ id: 'openrouter/auto', name: 'Auto Router' });
+    assert.equal(auto.provider, 'openrouter');
+    assert.equal(auto.name, 'Auto Router');
+  });
+});
+
+// The catalog is cached per process, so these tests run in order
+describe('getModelCatalog with OPENROUTER_MODELS_FIXTURE', () => {
+  it('loads and sorts the models from the fixture file', async () => {
+    process.env.OPENROUTER_MODELS_FIXTURE = FIXTURE;
+    const models = await getModelCatalog(true);
+
+    // Sorted by provider, then name
+
+    assert.deepEqual(
+      models.map((model) => model.id),
+      ['acme/unnamed', 'acme/raw-pricing', 'meta-llama/llama-3.1-8b-instruct:free', 'openai/gpt-4o', 'openrouter/auto']
+    );
+    assert.equal((await getCatalogModel('openai/gpt-4o'))?.contextLength, 128000);
+    assert.equal(await getCatalogModel('openai/unknown'), undefined);
+  });
+
+  it('answers capability checks from the catalog', async () => {
+    assert.equal(await supportsParameter('openai/gpt-4o', 'structured_outputs'), true);
+    assert.equal(await supportsParameter('openrouter/auto', 'tools'), false);
+    // Unknown models are assumed to lack parameters but accept any input
+    assert.equal(await supportsParameter('acme/missing', 'tools'), false);
+    assert.equal(await supportsInputModality('meta-llama/llama-3.1-8b-instruct:free', 'image'), false);
+    assert.equal(await supportsInputModality('openai/gpt-4o', 'file'), true);
+    assert.equal(await supportsInputModality('acme/missing', 'image'), true);
+  });
+
+  it('reuses the cached catalog until a refresh is forced', async () => {
+    const cached = await getModelCatalog();
+    process.env.OPENROUTER_MODELS_FIXTURE = SAMPLE_FIXTURE;
+    assert.equal(await getModelCatalog(), cached);
+
+    const refreshed = await getModelCatalog(true);
+    assert.notEqual(refreshed, cached);
+    assert.ok(refreshed.some((model) => model.id === 'anthropic/claude-3-opus'));
+  });
+
+  it('shares one load between concurrent callers', async () => {
+    const [first, second] = await Promise.all([getModelCatalog(true), getModelCatalog(true)]);
+    assert.equal(first, second);
+  });
+
+  it('keeps the cached catalog when reloading fails', async (t) => {
+    const cached = await getModelCatalog();
+    const consoleError = t.mock.method(console, 'error', () => {});
+    process.env.OPENROUTER_MODELS_FIXTURE = 'fixtures/catalog/missing.json';
+
+    assert.equal(await getModelCatalog(true), cached);
+    assert.equal(consoleError.mock.callCount(), 1);
+    process.env.OPENROUTER_MODELS_FIXTURE = SAMPLE_FIXTURE;
+  });
+});
+
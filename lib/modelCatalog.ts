@@ -0,0 +1,167 @@
+import { readFile } from 'fs/promises';
+import path from 'path';
+
+import { ChatModel } from '@/types/chat';
+
+const OPENROUTER_MODELS_URL = 'https://openrouter.ai/api/v1/models';
+
+// How long the fetched catalog is reused before it is fetched again
+const CACHE_TTL_MS = 60 * 60 * 1000;
+
+/**
+ * A model entry as returned by OpenRouter's /models endpoint
+ */
+interface OpenRouterModel {
+  id: string;
+  name?: string;
+  description?: string;
+  context_length?: number | null;
+  pricing?: {
+    prompt?: string | number;
+    completion?: string | number;
+  };
+  architecture?: {
+    input_modalities?: string[];
+    output_modalities?: string[];
+  };
+  supported_parameters?: string[];
+}
+
+let cachedCatalog: { models: ChatModel[]; fetchedAt: number } | null = null;
+let pendingFetch: Promise<ChatModel[]> | null = null;
+
+/**
+ * Parse an OpenRouter price string ("0.000003") into a number, defaulting to 0
+ */
+const parsePrice = (value: string | number | undefined): number => {
+  const price = typeof value === 'number' ? value : parseFloat(value ?? '');
+  return Number.isFinite(price) && price > 0 ? price : 0;
+};
+
+/**
+ * Convert an OpenRouter model entry into a catalog model
+ */
+export function normalizeModel(raw: OpenRouterModel): ChatModel {
+  // OpenRouter names models as "Provider: Model name"
+  const [providerPart, ...nameParts] = (raw.name || raw.id).split(': ');
+  const hasProviderPrefix = nameParts.length > 0;
+
+  return {
+    id: raw.id,
+    name: hasProviderPrefix ? nameParts.join(': ') : providerPart,
+    provider: hasProviderPrefix ? providerPart : raw.id.split('/')[0],
+    description: raw.description || '',
+    contextLength: raw.context_length ?? null,
+    pricing: {
+      prompt: parsePrice(raw.pricing?.prompt),
+      completion: parsePrice(raw.pricing?.completion),
+    },
+    inputModalities: raw.architecture?.input_modalities || ['text'],
+    outputModalities: raw.architecture?.output_modalities || ['text'],
+    supportedParameters: raw.supported_parameters || [],
+  };
+}
+
+/**
+ * Load the raw model list, either from the local fixture file named by
+ * OPENROUTER_MODELS_FIXTURE or from OpenRouter's /models endpoint
+ */
+async function loadRawModels(): Promise<OpenRouterModel[]> {
+  const fixturePath = process.env.OPENROUTER_MODELS_FIXTURE;
+
+  if (fixturePath) {
+    const fixture = await readFile(path.resolve(process.cwd(), fixturePath), 'utf-8');
+    return JSON.parse(fixture).data || [];
+  }
+
+  const response = await fetch(OPENROUTER_MODELS_URL, {
+    headers: process.env.OPENROUTER_API_KEY
+      ? { Authorization: `Bearer ${process.env.OPENROUTER_API_KEY}` }
+      : undefined,
+    cache: 'no-store',
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch OpenRouter models: ${response.status}`);
+  }
+
+  const data = await response.json();
+  return data.data || [];
+}
+
+/**
+ * Get the model catalog, fetching it when the cache is empty or expired
+ * A stale catalog is returned when refreshing fails
+ * @param forceRefresh - Ignore the cache and fetch the catalog again
+ */
+export async function getModelCatalog(forceRefresh = false): Promise<ChatModel[]> {
+  if (!forceRefresh && cachedCatalog && Date.now() - cachedCatalog.fetchedAt < CACHE_TTL_MS) {
+    return cachedCatalog.models;
+  }
+
+  // Share one in-flight fetch between concurrent callers
+  if (!pendingFetch) {
+    pendingFetch = loadRawModels()
+      .then((rawModels) => {
+        const models = rawModels
+          .map(normalizeModel)
+          .sort((a, b) => a.provider.localeCompare(b.provider) || a.name.localeCompare(b.name));
+        cachedCatalog = { models, fetchedAt: Date.now() };
+        return models;
+      })
+      .catch((error) => {
+        if (cachedCatalog) {
+          console.error('Error refreshing model catalog, using cached catalog:', error);
+          return cachedCatalog.models;
+        }
+        throw error;
+      })
+      .finally(() => {
+        pendingFetch = null;
+      });
+  }
+
+  return pendingFetch;
+}
+
+/**
+ * Look up a single model in the catalog
+ * @param modelId - The OpenRouter model ID (e.g. "openai/gpt-4o")
+ */
+export async function getCatalogModel(modelId: string): Promise<ChatModel | undefined> {
+  const models = await getModelCatalog();
+  return models.find((model) => model.id === modelId);
+}
+
+/**
+ * Check whether a model accepts the given input modality (e.g. "image")
+ * Models missing from the catalog, or an unavailable catalog, are given the benefit of the doubt
+ * @param modelId - The OpenRouter model ID
+ * @param modality - The input modality to check
+ */
+export async function supportsInputModality(modelId: string, modality: string): Promise<boolean> {
+  try {
+    const model = await getCatalogModel(modelId);
+    return !model || model.inputModalities.includes(modality);
+  } catch (error) {
+    console.error('Error checking model input modalities:', error);
+    return true;
+  }
+}
+
+/**
+ * Check whether a model supports a request parameter (e.g. "tools")
+ * Unlike modalities, unknown models are assumed not to, because OpenRouter rejects
+ * requests with parameters that no provider of the model supports
+ * @param modelId - The OpenRouter model ID
+ * @param parameter - The parameter to check
+ */
+export async function supportsParameter(modelId: string, parameter: string): Promise<boolean> {
+  try {
+    const model = await getCatalogModel(modelId);
+    return !!model && model.supportedParameters.includes(parameter);
+  } catch (error) {
+    console.error('Error checking model parameters:', error);
+    return false;
+  }
+}
@@ -1,4 +1,5 @@
 import { OpenRouter } from '@openrouter/sdk';
+import { ChatMessageContentItem, ChatMessageToolCall, ToolDefinitionJson } from '@openrouter/sdk/models';
 
 export const openRouter = new OpenRouter({
   apiKey: process.env.OPENROUTER_API_KEY!,
@@ -12,14 +13,26 @@ export function getOpenRouterHeaders() {
   };
 }
 
-export interface ChatMessage {
-  role: 'user' | 'assistant' | 'system';
-  content: string;
+// User messages may carry multimodal content parts (images, files), other roles are text only.
+// Assistant messages can request tool calls, answered by a tool message per call
+export type ChatMessage =
+  | { role: 'user'; content: string | ChatMessageContentItem[] }
+  | { role: 'system'; content: string }
+  | { role: 'assistant'; content: string; toolCalls?: ChatMessageToolCall[] }
+  | { role: 'tool'; content: string; toolCallId: string };
+
+export interface GenerationParams {
+  temperature?: number;
+  topP?: number;
+  maxTokens?: number;
+  stop?: string[];
+  seed?: number;
 }
 
-export interface ChatCompletionOptions {
+export interface ChatCompletionOptions extends GenerationParams {
   model: string;
   messages: ChatMessage[];
+  tools?: ToolDefinitionJson[];
   stream?: boolean;
 }
 
@@ -0,0 +1,83 @@
+import { Prompt } from '@prisma/client';
+import { stringify } from 'yaml';
+
+import { getTemplateVariables, TemplateVariable } from '@/lib/promptTemplate';
+import { JsonSchema } from '@/lib/structuredOutput';
+
+export const PROMPT_FILE_FORMATS = ['json', 'yaml'] as const;
+export type PromptFileFormat = (typeof PROMPT_FILE_FORMATS)[number];
+
+// Written to every prompt file, so files can be recognized and older formats migrated
+export const PROMPT_FILE_KIND = 'prompts';
+export const PROMPT_FILE_VERSION = 1;
+
+const CONTENT_TYPES: Record<PromptFileFormat, string> = {
+  json: 'application/json; charset=utf-8',
+  yaml: 'application/yaml; charset=utf-8',
+};
+
+/**
+ * A prompt in a prompt file
+ * variables are derived from the template variables in the content; they are informational
+ * on export and checked against the content on import
+ */
+export interface PromptFileEntry {
+  title: string;
+  content: string;
+  tags: string[];
+  variables?: TemplateVariable[];
+  responseSchema?: JsonSchema;
+}
+
+/**
+ * A portable prompt file, as written by GET /api/prompts/export and read by POST /api/prompts/import
+ */
+export interface PromptFile {
+  kind: typeof PROMPT_FILE_KIND;
+  version: typeof PROMPT_FILE_VERSION;
+  exportedAt: string;
+  prompts: PromptFileEntry[];
+}
+
+/**
+ * Check whether a value is a supported prompt file format
+ */
+export function isPromptFileFormat(value: string | null): value is PromptFileFormat {
+  return PROMPT_FILE_FORMATS.includes(value as PromptFileFormat);
+}
+
+/**
+ * Get the Content-Type header for a prompt file format
+ */
+export function getPromptFileContentType(format: PromptFileFormat): string {
+  return CONTENT_TYPES[format];
+}
+
+/**
+ * Convert a prompt into a prompt file entry, leaving out empty optional fields
+ */
+export function toPromptFileEntry(prompt: Prompt): PromptFileEntry {
+  const variables = getTemplateVariables(prompt.content);
+  return {
+    title: prompt.title,
+    content: prompt.content,
+    tags: prompt.tags,
+    ...(variables.length > 0 && { variables }),
+    ...(prompt.responseSchema !== null && { responseSchema: prompt.responseSchema as JsonSchema }),
+  };
+}
+
+/**
+ * Write prompts to a prompt file
+ * Sharing, stars and versions are left out, as they only make sense within one installation
+ */
+export function exportPromptFile(prompts: Prompt[], format: PromptFileFormat): string {
+  const file: PromptFile = {
+    kind: PROMPT_FILE_KIND,
+    version: PROMPT_FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    prompts: prompts.map(toPromptFileEntry),
+  };
+
+  return format === 'yaml' ? stringify(file, { lineWidth: 0 }) : JSON.stringify(file, null, 2) + '\n';
+}
@@ -0,0 +1,280 @@
+import { Prisma, Prompt } from '@prisma/client';
+import { parse } from 'yaml';
+
+import { prisma } from '@/lib/prisma';
+import { PROMPT_FILE_KIND, PROMPT_FILE_VERSION } from '@/lib/promptExport';
+import { updatePromptWithVersion } from '@/lib/promptLibrary';
+import { parseTemplate, TemplateVariable } from '@/lib/promptTemplate';
+import { isJsonObject, JsonSchema, validateResponseSchema } from '@/lib/structuredOutput';
+import { validateTags } from '@/lib/tags';
+import { PromptImportItem, PromptImportMode, PromptImportReport } from '@/types/chat';
+
+export const PROMPT_IMPORT_MODES: PromptImportMode[] = ['skip', 'overwrite', 'rename'];
+export const MAX_IMPORT_PROMPTS = 500;
+
+/**
+ * A prompt from an import file that passed validation
+ */
+interface ValidPromptEntry {
+  title: string;
+  content: string;
+  tags: string[];
+  responseSchema: JsonSchema | null;
+}
+
+/**
+ * Parse a prompt file (see lib/promptExport.ts for the format)
+ * JSON files are read by the YAML parser as well, as YAML is a superset of JSON
+ * @returns The prompt entries, still to be validated one by one, or an error for the whole file
+ */
+export function parsePromptFile(text: string): { value: unknown[]; error?: undefined } | { value?: undefined; error: string } {
+  let data: unknown;
+  try {
+    data = parse(text);
+  } catch (error) {
+    return { error: `Import file is not valid JSON or YAML: ${error instanceof Error ? error.message.split('\n')[0].replace(/:$/, '') : 'parse error'}` };
+  }
+
+  if (isJsonObject(data)) {
+    if (data.kind !== undefined && data.kind !== PROMPT_FILE_KIND) {
+      return { error: `Import file must be a prompt file (kind: ${PROMPT_FILE_KIND})` };
+    }
+    if (data.version !== undefined && data.version !== PROMPT_FILE_VERSION) {
+      return { error: `Unsupported prompt file version ${JSON.stringify(data.version)}, expected ${PROMPT_FILE_VERSION}` };
+    }
+  }
+
+  // A bare list of prompts is accepted as well, for hand-written files
+  const prompts = Array.isArray(data) ? data : isJsonObject(data) ? data.prompts : undefined;
+
+  if (!Array.isArray(prompts)) {
+    return { error: 'Import file must contain a list of prompts' };
+  }
+
+  if (prompts.length > MAX_IMPORT_PROMPTS) {
+    return { error: `An import file can contain at most ${MAX_IMPORT_PROMPTS} prompts` };
+  }
+
+  return { value: prompts };
+}
+
+/**
+ * Check the variables listed in a prompt file against the variables in the content
+ * @returns The mismatches, empty when every listed variable matches its definition in the content
+ */
+const checkVariables = (declared: unknown[], variables: TemplateVariable[]): string[] => {
+  const errors: string[] = [];
+
+  for (const variable of declared) {
+    if (!isJsonObject(variable) || typeof variable.name !== 'string') {
+      errors.push('variables must be objects with a name');
+      continue;
+    }
+
+    const actual = variables.find((candidate) => candidate.name === variable.name);
+    if (!actual) {
+      errors.push(`Variable "${variable.name}" is not used in the content`);
+      continue;
+    }
+
+    // YAML reads unquoted values such as 3 as numbers, so compare them as text
+    const options = Array.isArray(variable.options) ? variable.options.map(String) : undefined;
+    const matches =
+      (variable.type ?? 'text') === actual.type &&
+      (variable.default === undefined ? undefined : String(variable.default)) === actual.default &&
+      JSON.stringify(options) === JSON.stringify(actual.options);
+
+    if (!matches) {
+      errors.push(`Variable "${variable.name}" has a different type, default or options than in the content`);
+    }
+  }
+
+  return errors;
+};
+
+/**
+ * Validate a prompt from an import file, collecting every problem so they can be fixed at once
+ */
+const validateEntry = (
+  entry: unknown
+): { value: ValidPromptEntry; errors?: undefined } | { value?: undefined; errors: string[] } => {
+  if (!isJsonObject(entry)) {
+    return { errors: ['Prompt must be an object with a title and content'] };
+  }
+
+  const { title, content, tags, variables, responseSchema } = entry;
+  const errors: string[] = [];
+
+  if (typeof title !== 'string' || title.trim().length === 0) {
+    errors.push('title is required and must be a non-empty string');
+  }
+
+  const template = typeof content === 'string' && content.trim().length > 0 ? parseTemplate(content) : null;
+  if (!template) {
+    errors.push('content is required and must be a non-empty string');
+  } else if (template.error !== undefined) {
+    errors.push(template.error);
+  }
+
+  const tagsResult = validateTags(tags ?? []);
+  if (tagsResult.error !== undefined) {
+    errors.push(tagsResult.error);
+  }
+
+  const schemaResult = validateResponseSchema(responseSchema ?? null);
+  if (schemaResult.error !== undefined) {
+    errors.push(schemaResult.error);
+  }
+
+  if (variables !== undefined) {
+    if (!Array.isArray(variables)) {
+      errors.push('variables must be a list');
+    } else if (template?.value) {
+      errors.push(...checkVariables(variables, template.value));
+    }
+  }
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  return {
+    value: {
+      title: (title as string).trim(),
+      content: (content as string).trim(),
+      tags: tagsResult.value ?? [],
+      responseSchema: schemaResult.value ?? null,
+    },
+  };
+};
+
+/**
+ * Find a title that isn't taken yet by adding a number, e.g. "summary-2"
+ * A hyphen is used instead of a space so the prompt can still be used with /title
+ * @param taken - The lowercased titles that are taken
+ */
+const findFreeTitle = (title: string, taken: Set<string>): string => {
+  for (let number = 2; ; number++) {
+    const candidate = `${title}-${number}`;
+    if (!taken.has(candidate.toLowerCase())) {
+      return candidate;
+    }
+  }
+};
+
+/**
+ * Save a new prompt from an import file, with its first version
+ */
+const createImportedPrompt = async (userId: string, entry: ValidPromptEntry, title: string): Promise<void> => {
+  const versionData = {
+    title,
+    content: entry.content,
+    responseSchema: (entry.responseSchema as Prisma.InputJsonObject | null) ?? Prisma.DbNull,
+  };
+
+  await prisma.prompt.create({
+    data: {
+      userId,
+      ...versionData,
+      tags: entry.tags,
+      versions: { create: { version: 1, ...versionData } },
+    },
+  });
+};
+
+/**
+ * Replace an existing prompt with one from an import file, recording a new version
+ * Its visibility and sharing are kept
+ */
+const overwritePrompt = async (prompt: Prompt, entry: ValidPromptEntry): Promise<void> => {
+  await updatePromptWithVersion(prompt.id, {
+    title: entry.title,
+    content: entry.content,
+    responseSchema: (entry.responseSchema as Prisma.InputJsonObject | null) ?? Prisma.DbNull,
+    tags: entry.tags,
+  });
+};
+
+/**
+ * Import the prompts of a prompt file for a user
+ * Titles are compared case-insensitively, the same way /title finds prompts. Invalid prompts
+ * are reported and left out; the valid ones are still imported
+ * @param entries - The prompts, as returned by parsePromptFile
+ * @param mode - What to do with prompts whose title is already taken
+ * @param dryRun - Only report what would happen, without saving anything
+ */
+export async function importPrompts(
+  userId: string,
+  entries: unknown[],
+  mode: PromptImportMode,
+  dryRun: boolean
+): Promise<PromptImportReport> {
+  const existing = await prisma.prompt.findMany({
+    where: { userId, deletedAt: null },
+    orderBy: { updatedAt: 'desc' },
+  });
+
+  // The user's prompts by lowercased title; when titles collide the most recently updated one is overwritten
+  const promptsByTitle = new Map<string, Prompt>();
+  for (const prompt of existing) {
+    if (!promptsByTitle.has(prompt.title.toLowerCase())) {
+      promptsByTitle.set(prompt.title.toLowerCase(), prompt);
+    }
+  }
+  const takenTitles = new Set(promptsByTitle.keys());
+  // Titles saved by this import, to catch the same title appearing twice in the file
+  const importedTitles = new Set<string>();
+
+  const items: PromptImportItem[] = [];
+  for (const [index, entry] of entries.entries()) {
+    const rawTitle = isJsonObject(entry) && typeof entry.title === 'string' ? entry.title.trim() : '';
+    const title = rawTitle || null;
+    const result = validateEntry(entry);
+
+    if (result.errors !== undefined) {
+      items.push({ index, title, status: 'invalid', errors: result.errors });
+      continue;
+    }
+
+    const value = result.value;
+    const key = value.title.toLowerCase();
+
+    if (!takenTitles.has(key)) {
+      if (!dryRun) {
+        await createImportedPrompt(userId, value, value.title);
+      }
+      takenTitles.add(key);
+      importedTitles.add(key);
+      items.push({ index, title, status: 'created', errors: [] });
+    } else if (mode === 'rename') {
+      const renamedTo = findFreeTitle(value.title, takenTitles);
+      if (!dryRun) {
+        await createImportedPrompt(userId, value, renamedTo);
+      }
+      takenTitles.add(renamedTo.toLowerCase());
+      items.push({ index, title, status: 'created', renamedTo, errors: [] });
+    } else if (importedTitles.has(key)) {
+      items.push({ index, title, status: 'skipped', reason: 'An earlier prompt in the file has the same title', errors: [] });
+    } else if (mode === 'overwrite') {
+      if (!dryRun) {
+        await overwritePrompt(promptsByTitle.get(key) as Prompt, value);
+      }
+      importedTitles.add(key);
+      items.push({ index, title, status: 'updated', errors: [] });
+    } else {
+      items.push({ index, title, status: 'skipped', reason: 'A prompt with this title already exists', errors: [] });
+    }
+  }
+
+  const count = (status: PromptImportItem['status']) => items.filter((item) => item.status === status).length;
+
+  return {
+    mode,
+    dryRun,
+    items,
+    createdCount: count('created'),
+    updatedCount: count('updated'),
+    skippedCount: count('skipped'),
+    invalidCount: count('invalid'),
+  };
+}
@@ -0,0 +1,258 @@
+import { Prisma, Prompt, PromptVersion } from '@prisma/client';
+
+import { prisma } from '@/lib/prisma';
+import { PromptSummary, PromptVersionSummary, PromptVisibility } from '@/types/chat';
+
+export const PROMPT_VISIBILITIES: PromptVisibility[] = ['private', 'shared', 'org'];
+export const MAX_PROMPT_SHARES = 50;
+
+// Relations needed to convert a prompt into a PromptSummary
+export const PROMPT_SUMMARY_INCLUDE = {
+  user: { select: { name: true, email: true } },
+  shares: { select: { user: { select: { email: true } } } },
+  _count: { select: { stars: true } },
+} satisfies Prisma.PromptInclude;
+
+type PromptWithSharing = Prisma.PromptGetPayload<{ include: typeof PROMPT_SUMMARY_INCLUDE }>;
+
+/**
+ * Where clause for the prompts in a user's library, which are used for /title and its
+ * autocomplete: their own prompts, prompts shared with them and catalog prompts they starred
+ * Archived prompts and prompts in the trash are left out
+ */
+export function libraryPromptsWhere(userId: string): Prisma.PromptWhereInput {
+  return {
+    archivedAt: null,
+    deletedAt: null,
+    OR: [
+      { userId },
+      { visibility: 'shared', shares: { some: { userId } } },
+      { visibility: 'org', stars: { some: { userId } } },
+    ],
+  };
+}
+
+/**
+ * Where clause for the prompts a user can read, use, copy and star: the library plus the
+ * whole organization catalog
+ * Owners keep access to their archived prompts; for everyone else archiving unshares them
+ */
+export function accessiblePromptsWhere(userId: string): Prisma.PromptWhereInput {
+  return {
+    deletedAt: null,
+    OR: [
+      { userId },
+      { visibility: 'shared', archivedAt: null, shares: { some: { userId } } },
+      { visibility: 'org', archivedAt: null },
+    ],
+  };
+}
+
+/**
+ * Validate the sharing fields present in a request body
+ * Fields that are absent are left out of the result, so it can be used for partial updates
+ * @param body - The parsed request body, with visibility and sharedWith (a list of emails)
+ * @param ownerId - The owner of the prompt, who can't share it with themselves
+ * @returns The visibility and the ids of the users to share with, or an error message
+ */
+export async function validatePromptSharing(
+  body: Record<string, unknown>,
+  ownerId: string
+): Promise<
+  | { value: { visibility?: PromptVisibility; userIds?: string[] }; error?: undefined }
+  | { value?: undefined; error: string }
+> {
+  const { visibility, sharedWith } = body;
+  const value: { visibility?: PromptVisibility; userIds?: string[] } = {};
+
+  if (visibility !== undefined) {
+    if (!PROMPT_VISIBILITIES.includes(visibility as PromptVisibility)) {
+      return { error: `visibility must be one of ${PROMPT_VISIBILITIES.join(', ')}` };
+    }
+    value.visibility = visibility as PromptVisibility;
+  }
+
+  if (sharedWith !== undefined) {
+    if (!Array.isArray(sharedWith) || !sharedWith.every((email) => typeof email === 'string')) {
+      return { error: 'sharedWith must be an array of email addresses' };
+    }
+
+    const emails = [...new Set(sharedWith.map((email: string) => email.trim()).filter((email) => email.length > 0))];
+    if (emails.length > MAX_PROMPT_SHARES) {
+      return { error: `A prompt can be shared with at most ${MAX_PROMPT_SHARES} users` };
+    }
+
+    const users = await prisma.user.findMany({
+      where: { email: { in: emails, mode: 'insensitive' } },
+      select: { id: true, email: true },
+    });
+
+    const found = new Set(users.map((user) => user.email.toLowerCase()));
+    const unknown = emails.filter((email) => !found.has(email.toLowerCase()));
+    if (unknown.length > 0) {
+      return { error: `Unknown users: ${unknown.join(', ')}` };
+    }
+
+    value.userIds = users.map((user) => user.id).filter((id) => id !== ownerId);
+  }
+
+  return { value };
+}
+
+/**
+ * Convert a prompt with its sharing relations into the API shape
+ * @param userId - The user the prompt is shown to
+ * @param starred - Whether that user starred the prompt
+ */
+export function toPromptSummary(prompt: PromptWithSharing, userId: string, starred: boolean): PromptSummary {
+  const isOwner = prompt.userId === userId;
+  return {
+    id: prompt.id,
+    title: prompt.title,
+    content: prompt.content,
+    responseSchema: prompt.responseSchema,
+    visibility: prompt.visibility as PromptVisibility,
+    tags: prompt.tags,
+    isOwner,
+    ownerName: prompt.user.name || prompt.user.email,
+    sharedWith: isOwner ? prompt.shares.map((share) => share.user.email) : [],
+    starred,
+    starCount: prompt._count.stars,
+    archived: prompt.archivedAt !== null,
+    createdAt: prompt.createdAt.toISOString(),
+    updatedAt: prompt.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * Find prompts and convert them into the API shape for a user
+ * @param userId - The user the prompts are shown to
+ * @param where - Which prompts to find, e.g. libraryPromptsWhere(userId)
+ */
+export async function findPromptSummaries(
+  userId: string,
+  where: Prisma.PromptWhereInput,
+  orderBy: Prisma.PromptOrderByWithRelationInput[] = [{ updatedAt: 'desc' }]
+): Promise<PromptSummary[]> {
+  const prompts = await prisma.prompt.findMany({
+    where,
+    include: PROMPT_SUMMARY_INCLUDE,
+    orderBy,
+  });
+
+  const stars = await prisma.promptStar.findMany({
+    where: { userId, promptId: { in: prompts.map((prompt) => prompt.id) } },
+    select: { promptId: true },
+  });
+  const starred = new Set(stars.map((star) => star.promptId));
+
+  return prompts.map((prompt) => toPromptSummary(prompt, userId, starred.has(prompt.id)));
+}
+
+/**
+ * The fields of a prompt that are kept in its versions
+ */
+interface PromptVersionFields {
+  title: string;
+  content: string;
+  responseSchema: Prisma.JsonValue | null;
+}
+
+/**
+ * Get the latest version of a prompt, creating version 1 from the prompt itself for prompts
+ * that were saved before versions were recorded
+ */
+export async function ensurePromptVersion(
+  prompt: Prompt,
+  db: Prisma.TransactionClient = prisma
+): Promise<PromptVersion> {
+  const latest = await db.promptVersion.findFirst({
+    where: { promptId: prompt.id },
+    orderBy: { version: 'desc' },
+  });
+
+  if (latest) {
+    return latest;
+  }
+
+  return db.promptVersion.create({
+    data: {
+      promptId: prompt.id,
+      version: 1,
+      title: prompt.title,
+      content: prompt.content,
+      responseSchema: (prompt.responseSchema as Prisma.InputJsonObject | null) ?? Prisma.DbNull,
+    },
+  });
+}
+
+/**
+ * Record a new version of a prompt when its title, content or response schema changes
+ * @param prompt - The prompt as it was before the change
+ * @param next - The values that were saved
+ * @returns The new version, or null when none of the versioned fields changed
+ */
+async function recordPromptVersion(
+  prompt: Prompt,
+  next: PromptVersionFields,
+  db: Prisma.TransactionClient
+): Promise<PromptVersion | null> {
+  const unchanged =
+    next.title === prompt.title &&
+    next.content === prompt.content &&
+    JSON.stringify(next.responseSchema) === JSON.stringify(prompt.responseSchema);
+
+  if (unchanged) {
+    return null;
+  }
+
+  const latest = await ensurePromptVersion(prompt, db);
+  return db.promptVersion.create({
+    data: {
+      promptId: prompt.id,
+      version: latest.version + 1,
+      title: next.title,
+      content: next.content,
+      responseSchema: (next.responseSchema as Prisma.InputJsonObject | null) ?? Prisma.DbNull,
+    },
+  });
+}
+
+/**
+ * Update a prompt and record its new version in one transaction
+ * The prompt row is locked first, so concurrent saves are versioned one after the other and
+ * a failed save changes neither the prompt nor its versions
+ * @param promptId - The prompt to update
+ * @param data - The changes to save
+ */
+export async function updatePromptWithVersion(
+  promptId: string,
+  data: Prisma.PromptUpdateInput
+): Promise<PromptWithSharing> {
+  return prisma.$transaction(async (tx) => {
+    await tx.$queryRaw`SELECT id FROM prompts WHERE id = ${promptId} FOR UPDATE`;
+    const prompt = await tx.prompt.findUniqueOrThrow({ where: { id: promptId } });
+
+    const updatedPrompt = await tx.prompt.update({
+      where: { id: promptId },
+      data,
+      include: PROMPT_SUMMARY_INCLUDE,
+    });
+    await recordPromptVersion(prompt, updatedPrompt, tx);
+    return updatedPrompt;
+  });
+}
+
+/**
+ * Convert a prompt version into the API shape
+ */
+export function toPromptVersionSummary(version: PromptVersion): PromptVersionSummary {
+  return {
+    id: version.id,
+    version: version.version,
+    title: version.title,
+    content: version.content,
+    responseSchema: version.responseSchema,
+    createdAt: version.createdAt.toISOString(),
+  };
+}
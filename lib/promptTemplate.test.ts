@@ -0,0 +1,36 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { parsePromptCommand, renderTemplate } from '@/lib/promptTemplate';
+
+describe('parsePromptCommand', () => {
+  it('splits the prompt title from the text after it', () => {
+    assert.deepEqual(parsePromptCommand('/translate Goedemorgen'), { title: 'translate', text: 'Goedemorgen' });
+    assert.deepEqual(parsePromptCommand('  /translate  '), { title: 'translate', text: '' });
+  });
+
+  it('keeps text that spans several lines', () => {
+    assert.deepEqual(parsePromptCommand('/review\nfunction a() {}\nfunction b() {}'), {
+      title: 'review',
+      text: 'function a() {}\nfunction b() {}',
+    });
+    assert.deepEqual(parsePromptCommand('/review first line\nsecond line\nthird line'), {
+      title: 'review',
+      text: 'first line\nsecond line\nthird line',
+    });
+  });
+
+  it('ignores messages that do not start with a prompt', () => {
+    assert.equal(parsePromptCommand('Hello /translate'), null);
+    assert.equal(parsePromptCommand('/'), null);
+  });
+});
+
+describe('renderTemplate', () => {
+  it('fills in values and defaults', () => {
+    assert.equal(
+      renderTemplate('Translate to {{language=English}} in a {{tone:formal|casual=casual}} tone', { language: 'Dutch' }),
+      'Translate to Dutch in a casual tone'
+    );
+  });
+});
@@ -0,0 +1,153 @@
+export type TemplateVariableType = 'text' | 'number' | 'select';
+
+/**
+ * A variable in a prompt template
+ * Variables are defined inline in the prompt content:
+ * - {{language}}: text
+ * - {{language=English}}: text with a default
+ * - {{count:number}} or {{count:number=3}}: a number
+ * - {{tone:formal|casual}} or {{tone:formal|casual=casual}}: one of the given options
+ * A variable can be used more than once; later uses can leave out the type and default
+ */
+export interface TemplateVariable {
+  name: string;
+  type: TemplateVariableType;
+  // Used when no value is given; variables without a default must be filled in
+  default?: string;
+  // The allowed values of a select variable
+  options?: string[];
+}
+
+export const MAX_TEMPLATE_VARIABLES = 20;
+
+const PLACEHOLDER_PATTERN = /\{\{([^{}]*)\}\}/g;
+const DEFINITION_PATTERN = /^\s*([A-Za-z_][\w-]*)\s*(?::([^=]*))?(?:=([\s\S]*))?$/;
+
+/**
+ * Parse the text between {{ and }} into a variable definition
+ * @returns The variable, and whether the type or default was given (as opposed to a plain reference)
+ */
+const parseDefinition = (
+  text: string
+):
+  | { value: TemplateVariable; explicit: boolean; error?: undefined }
+  | { value?: undefined; explicit?: undefined; error: string } => {
+  const match = text.match(DEFINITION_PATTERN);
+  if (!match) {
+    return { error: `Invalid template variable "{{${text}}}", names may only contain letters, digits, _ and -` };
+  }
+
+  const [, name, rawSpec, rawDefault] = match;
+  const spec = rawSpec?.trim();
+  const defaultValue = rawDefault?.trim();
+  const variable: TemplateVariable = { name, type: 'text' };
+
+  if (spec === '') {
+    return { error: `Template variable "${name}" is missing a type or options after ":"` };
+  }
+
+  if (spec !== undefined) {
+    if (spec === 'text' || spec === 'number') {
+      variable.type = spec;
+    } else if (!spec.includes('|')) {
+      return { error: `Template variable "${name}" has an unknown type "${spec}", use text, number or options separated by |` };
+    } else {
+      const options = spec.split('|').map((option) => option.trim());
+      if (options.some((option) => option === '')) {
+        return { error: `Template variable "${name}" has an empty option` };
+      }
+      if (new Set(options).size !== options.length) {
+        return { error: `Template variable "${name}" has duplicate options` };
+      }
+      variable.type = 'select';
+      variable.options = options;
+    }
+  }
+
+  if (defaultValue !== undefined) {
+    if (variable.type === 'number' && (defaultValue === '' || !Number.isFinite(Number(defaultValue)))) {
+      return { error: `The default of template variable "${name}" must be a number` };
+    }
+    if (variable.options && !variable.options.includes(defaultValue)) {
+      return { error: `The default of template variable "${name}" must be one of its options` };
+    }
+    variable.default = defaultValue;
+  }
+
+  return { value: variable, explicit: spec !== undefined || defaultValue !== undefined };
+};
+
+/**
+ * Parse the variables of a prompt template, in the order they first appear
+ * Used to validate prompts when they are saved
+ */
+export function parseTemplate(
+  content: string
+): { value: TemplateVariable[]; error?: undefined } | { value?: undefined; error: string } {
+  const variables = new Map<string, TemplateVariable>();
+  const defined = new Set<string>();
+
+  for (const [, text] of content.matchAll(PLACEHOLDER_PATTERN)) {
+    const { value, explicit, error } = parseDefinition(text);
+    if (error !== undefined) {
+      return { error };
+    }
+
+    const existing = variables.get(value.name);
+    if (!existing || (explicit && !defined.has(value.name))) {
+      variables.set(value.name, value);
+    } else if (explicit && JSON.stringify(existing) !== JSON.stringify(value)) {
+      return { error: `Template variable "${value.name}" is defined more than once with a different type or default` };
+    }
+    if (explicit) {
+      defined.add(value.name);
+    }
+  }
+
+  if (variables.size > MAX_TEMPLATE_VARIABLES) {
+    return { error: `A prompt can have at most ${MAX_TEMPLATE_VARIABLES} template variables` };
+  }
+
+  return { value: [...variables.values()] };
+}
+
+/**
+ * Get the variables of a prompt template, or none when the template is invalid
+ */
+export function getTemplateVariables(content: string): TemplateVariable[] {
+  return parseTemplate(content).value ?? [];
+}
+
+/**
+ * Fill in the variables of a prompt template
+ * Variables without a value get their default, or are left empty
+ * @param values - The values by variable name
+ */
+export function renderTemplate(content: string, values: Record<string, string>): string {
+  const variables = new Map(getTemplateVariables(content).map((variable) => [variable.name, variable]));
+  if (variables.size === 0) {
+    return content;
+  }
+
+  return content.replace(PLACEHOLDER_PATTERN, (placeholder, text: string) => {
+    const name = text.match(DEFINITION_PATTERN)?.[1];
+    const variable = name ? variables.get(name) : undefined;
+    if (!variable) {
+      return placeholder;
+    }
+    return values[variable.name] ?? variable.default ?? '';
+  });
+}
+
+/**
+ * Split a message that starts with "/title" into the prompt title and the text after it
+ * The text may span several lines
+ * @returns The title and remaining text, or null when the message doesn't use a prompt
+ */
+export function parsePromptCommand(content: string): { title: string; text: string } | null {
+  const match = content.trim().match(/^\/(\S+)(?:\s+([\s\S]*))?$/);
+  if (!match) {
+    return null;
+  }
+  return { title: match[1], text: match[2] ?? '' };
+}
@@ -0,0 +1,122 @@
+import { prisma } from '@/lib/prisma';
+import { SearchResult, SearchSnippetPart } from '@/types/chat';
+
+// Control characters that ts_headline puts around matches; they never occur in normal text,
+// so the snippet can be split into parts without rendering any HTML
+const HIGHLIGHT_START = '\u0001';
+const HIGHLIGHT_STOP = '\u0002';
+const HEADLINE_OPTIONS = `StartSel="${HIGHLIGHT_START}", StopSel="${HIGHLIGHT_STOP}", MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "`;
+
+export const MAX_SEARCH_QUERY_LENGTH = 200;
+
+interface MessageSearchRow {
+  messageId: string;
+  chatId: string;
+  chatTitle: string | null;
+  role: SearchResult['role'];
+  timestamp: Date;
+  rank: number;
+  snippet: string;
+}
+
+interface ChatSearchRow {
+  chatId: string;
+  chatTitle: string | null;
+  timestamp: Date;
+  rank: number;
+  snippet: string;
+}
+
+/**
+ * Split a ts_headline snippet into plain and highlighted parts
+ */
+export function parseSnippet(snippet: string): SearchSnippetPart[] {
+  const parts: SearchSnippetPart[] = [];
+
+  for (const [index, piece] of snippet.split(HIGHLIGHT_START).entries()) {
+    // Every piece after the first starts with a highlighted match
+    const [highlighted, rest] = index === 0 ? [null, piece] : piece.split(HIGHLIGHT_STOP);
+    if (highlighted) {
+      parts.push({ text: highlighted, highlight: true });
+    }
+    if (rest) {
+      parts.push({ text: rest, highlight: false });
+    }
+  }
+
+  return parts;
+}
+
+/**
+ * Search a user's messages and chat titles with PostgreSQL full-text search
+ * The 'simple' configuration is used because chats mix languages; expressions match
+ * the GIN indexes described in the README
+ * @param userId - The user whose chats are searched
+ * @param query - Search query in web search syntax ("exact phrase", -exclude, or)
+ * @param limit - Maximum number of results
+ * @returns Matching messages and chats, best match first
+ */
+export async function searchChats(userId: string, query: string, limit: number): Promise<SearchResult[]> {
+  const [messageRows, chatRows] = await Promise.all([
+    prisma.$queryRaw<MessageSearchRow[]>`
+      SELECT
+        m.id AS "messageId",
+        m.chat_id AS "chatId",
+        c.title AS "chatTitle",
+        m.role,
+        m.timestamp,
+        ts_rank(to_tsvector('simple', m.content), q) AS rank,
+        ts_headline('simple', m.content, q, ${HEADLINE_OPTIONS}) AS snippet
+      FROM messages m
+      JOIN chats c ON c.id = m.chat_id
+      CROSS JOIN websearch_to_tsquery('simple', ${query}) q
+      WHERE c.user_id = ${userId}
+        AND c.deleted_at IS NULL
+        AND to_tsvector('simple', m.content) @@ q
+      ORDER BY rank DESC, m.timestamp DESC
+      LIMIT ${limit}
+    `,
+    prisma.$queryRaw<ChatSearchRow[]>`
+      SELECT
+        c.id AS "chatId",
+        c.title AS "chatTitle",
+        c.updated_at AS timestamp,
+        ts_rank(to_tsvector('simple', coalesce(c.title, '')), q) AS rank,
+        ts_headline('simple', coalesce(c.title, ''), q, ${HEADLINE_OPTIONS}) AS snippet
+      FROM chats c
+      CROSS JOIN websearch_to_tsquery('simple', ${query}) q
+      WHERE c.user_id = ${userId}
+        AND c.deleted_at IS NULL
+        AND to_tsvector('simple', coalesce(c.title, '')) @@ q
+      ORDER BY rank DESC, c.updated_at DESC
+      LIMIT ${limit}
+    `,
+  ]);
+
+  const results: SearchResult[] = [
+    ...chatRows.map((row) => ({
+      type: 'chat' as const,
+      chatId: row.chatId,
+      chatTitle: row.chatTitle,
+      messageId: null,
+      role: null,
+      snippet: parseSnippet(row.snippet),
+      rank: Number(row.rank),
+      timestamp: row.timestamp.toISOString(),
+    })),
+    ...messageRows.map((row) => ({
+      type: 'message' as const,
+      chatId: row.chatId,
+      chatTitle: row.chatTitle,
+      messageId: row.messageId,
+      role: row.role,
+      snippet: parseSnippet(row.snippet),
+      rank: Number(row.rank),
+      timestamp: row.timestamp.toISOString(),
+    })),
+  ];
+
+  return results
+    .sort((a, b) => b.rank - a.rank || b.timestamp.localeCompare(a.timestamp))
+    .slice(0, limit);
+}
@@ -0,0 +1,54 @@
+import { CompletionStreamEvent } from '@/types/chat';
+
+/**
+ * Encode a completion stream event as a Server-Sent Events frame
+ * @param event - The event to encode
+ * @returns The SSE frame as a string ("data: {...}\n\n")
+ */
+export function encodeSSEEvent(event: CompletionStreamEvent): string {
+  return `data: ${JSON.stringify(event)}\n\n`;
+}
+
+/**
+ * Read a Server-Sent Events response body and yield the parsed events
+ * @param body - The response body stream from fetch
+ */
+export async function* readSSEStream(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<CompletionStreamEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+
+      buffer += decoder.decode(value, { stream: true });
+
+      // Events are separated by a blank line
+      let separatorIndex = buffer.indexOf('\n\n');
+      while (separatorIndex !== -1) {
+        const frame = buffer.substring(0, separatorIndex);
+        buffer = buffer.substring(separatorIndex + 2);
+
+        const data = frame
+          .split('\n')
+          .filter((line) => line.startsWith('data:'))
+          .map((line) => line.substring(5).trimStart())
+          .join('\n');
+
+        if (data) {
+          yield JSON.parse(data) as CompletionStreamEvent;
+        }
+
+        separatorIndex = buffer.indexOf('\n\n');
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,65 @@
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import path from 'path';
+
+/**
+ * A place to keep uploaded files, addressed by a storage key such as "<userId>/<attachmentId>"
+ */
+export interface FileStorage {
+  save(key: string, data: Buffer): Promise<void>;
+  read(key: string): Promise<Buffer>;
+  remove(key: string): Promise<void>;
+}
+
+/**
+ * Store files on the local disk, below the given directory
+ * @param rootDir - Directory the files are written to, created when missing
+ */
+export function createLocalDiskStorage(rootDir: string): FileStorage {
+  const root = path.resolve(process.cwd(), rootDir);
+
+  // Keys are generated by the server, but never allow them to point outside the root
+  const resolveKey = (key: string): string => {
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  };
+
+  return {
+    async save(key, data) {
+      const filePath = resolveKey(key);
+      await mkdir(path.dirname(filePath), { recursive: true });
+      await writeFile(filePath, data);
+    },
+    async read(key) {
+      return readFile(resolveKey(key));
+    },
+    async remove(key) {
+      await rm(resolveKey(key), { force: true });
+    },
+  };
+}
+
+let storage: FileStorage | null = null;
+
+/**
+ * Get the storage backend configured with ATTACHMENT_STORAGE (default "local")
+ * Add a case here to plug in another backend, e.g. an object store
+ */
+export function getStorage(): FileStorage {
+  if (storage) {
+    return storage;
+  }
+
+  const driver = process.env.ATTACHMENT_STORAGE || 'local';
+  switch (driver) {
+    case 'local':
+      storage = createLocalDiskStorage(process.env.ATTACHMENT_STORAGE_DIR || 'uploads');
+      break;
+    default:
+      throw new Error(`Unknown attachment storage: ${driver}`);
+  }
+
+  return storage;
+}
@@ -0,0 +1,58 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { validateJsonValue, validateResponseSchema } from '@/lib/structuredOutput';
+
+/**
+ * A string schema with a pattern, nested in an object like schemas usually are
+ */
+const withPattern = (pattern: string) => ({
+  type: 'object',
+  properties: { code: { type: 'string', pattern } },
+});
+
+describe('validateResponseSchema', () => {
+  it('accepts common patterns', () => {
+    for (const pattern of ['^[A-Z]{2}\\d{4}$', '^(foo|bar)-\\d+$', '^(a|b)?c$', '^\\(a+\\)+$', '^[(a+)]+$']) {
+      assert.equal(validateResponseSchema(withPattern(pattern)).error, undefined, pattern);
+    }
+  });
+
+  it('rejects patterns with nested quantifiers', () => {
+    for (const pattern of ['^(a+)+$', '^(\\w*)*$', '^((ab)+c)*$', '^(?:x{1,3})+$', '^(a|(b+))*$']) {
+      assert.match(validateResponseSchema(withPattern(pattern)).error ?? '', /must not repeat a group/, pattern);
+    }
+  });
+
+  it('rejects repeated groups with alternation', () => {
+    for (const pattern of ['^(a|a)+$', '^(a|aa)*$', '^(?:ab|a){2,}$', '^((a|b)c)+$']) {
+      assert.match(validateResponseSchema(withPattern(pattern)).error ?? '', /must not repeat a group/, pattern);
+    }
+  });
+
+  it('rejects long and invalid patterns', () => {
+    assert.match(validateResponseSchema(withPattern('a'.repeat(201))).error ?? '', /at most 200 characters/);
+    assert.match(validateResponseSchema(withPattern('^(a$')).error ?? '', /not a valid regular expression/);
+  });
+});
+
+describe('validateJsonValue', () => {
+  it('checks strings against the pattern', () => {
+    const schema = withPattern('^[A-Z]{2}\\d{4}$');
+    assert.deepEqual(validateJsonValue({ code: 'NL1234' }, schema), []);
+    assert.deepEqual(validateJsonValue({ code: 'nl1234' }, schema), ['$.code: must match the pattern ^[A-Z]{2}\\d{4}$']);
+  });
+
+  it('ignores unsafe patterns in schemas saved before they were rejected', () => {
+    assert.deepEqual(validateJsonValue({ code: `${'a'.repeat(40)}!` }, withPattern('^(a+)+$')), []);
+    assert.deepEqual(validateJsonValue({ code: `${'a'.repeat(40)}!` }, withPattern('^(a|aa)*$')), []);
+  });
+
+  it('compares const and enum values regardless of key order', () => {
+    const schema = { const: { a: 1, b: [{ c: 2, d: 3 }] } };
+    assert.deepEqual(validateJsonValue({ b: [{ d: 3, c: 2 }], a: 1 }, schema), []);
+    assert.equal(validateJsonValue({ a: 1, b: [{ c: 2 }] }, schema).length, 1);
+    assert.deepEqual(validateJsonValue({ y: 2, x: 1 }, { enum: [null, { x: 1, y: 2 }] }), []);
+    assert.equal(validateJsonValue([1, 2], { enum: [[2, 1]] }).length, 1);
+  });
+});
@@ -0,0 +1,357 @@
+import { ResponseFormatJSONSchema } from '@openrouter/sdk/models';
+
+export type JsonSchema = Record<string, unknown>;
+
+export const MAX_SCHEMA_LENGTH = 20000;
+// Times a reply that doesn't match the schema is sent back to the model to be repaired
+export const MAX_REPAIR_ATTEMPTS = 2;
+// Validation errors reported per reply, the first ones are enough to repair it
+const MAX_ERRORS = 20;
+// Longer patterns are rejected, together with repeated ambiguous groups they are how a regex gets slow
+const MAX_PATTERN_LENGTH = 200;
+
+const JSON_TYPES = ['null', 'boolean', 'integer', 'number', 'string', 'array', 'object'];
+
+/**
+ * Check whether a value is a plain JSON object
+ */
+export function isJsonObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check whether a regex pattern repeats a group that contains a quantifier or alternation,
+ * e.g. (a+)+ or (a|aa)*, which can make matching take exponential time
+ */
+const repeatsAmbiguousGroup = (pattern: string): boolean => {
+  const isQuantifier = (char: string | undefined) => char === '+' || char === '*' || char === '{';
+  // Per open group, whether it contains a quantifier or alternation
+  const groups: boolean[] = [];
+  let inClass = false;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '\\') {
+      i++;
+    } else if (inClass) {
+      inClass = char !== ']';
+    } else if (char === '[') {
+      inClass = true;
+    } else if (char === '(') {
+      groups.push(false);
+    } else if (char === ')') {
+      const ambiguous = groups.pop() ?? false;
+      const repeated = isQuantifier(pattern[i + 1]);
+      if (ambiguous && repeated) {
+        return true;
+      }
+      if ((ambiguous || repeated) && groups.length > 0) {
+        groups[groups.length - 1] = true;
+      }
+    } else if ((isQuantifier(char) || char === '|') && groups.length > 0) {
+      groups[groups.length - 1] = true;
+    }
+  }
+  return false;
+};
+
+/**
+ * Check that a pattern from a schema is a valid regex that can be matched safely
+ * @returns The problem with the pattern, or null when it can be used
+ */
+const checkPattern = (pattern: string): string | null => {
+  if (pattern.length > MAX_PATTERN_LENGTH) {
+    return `must be at most ${MAX_PATTERN_LENGTH} characters`;
+  }
+  try {
+    new RegExp(pattern, 'u');
+  } catch {
+    return 'is not a valid regular expression';
+  }
+  if (repeatsAmbiguousGroup(pattern)) {
+    return 'must not repeat a group that contains a quantifier or alternation, such as (a+)+ or (a|b)+';
+  }
+  return null;
+};
+
+/**
+ * Find the pattern keywords anywhere in a schema
+ */
+const findPatterns = (value: unknown): string[] => {
+  if (Array.isArray(value)) {
+    return value.flatMap(findPatterns);
+  }
+  if (!isJsonObject(value)) {
+    return [];
+  }
+  return Object.entries(value).flatMap(([key, child]) =>
+    key === 'pattern' && typeof child === 'string' ? [child] : findPatterns(child)
+  );
+};
+
+/**
+ * Validate a JSON Schema given in a request body (for a chat or a prompt)
+ * @param value - The schema, or null to remove it
+ */
+export function validateResponseSchema(
+  value: unknown
+): { value: JsonSchema | null; error?: undefined } | { value?: undefined; error: string } {
+  if (value === null) {
+    return { value: null };
+  }
+
+  if (!isJsonObject(value)) {
+    return { error: 'responseSchema must be a JSON Schema object or null' };
+  }
+
+  if (JSON.stringify(value).length > MAX_SCHEMA_LENGTH) {
+    return { error: `responseSchema must be at most ${MAX_SCHEMA_LENGTH} characters` };
+  }
+
+  const types = Array.isArray(value.type) ? value.type : [value.type];
+  if (value.type !== undefined && !types.every((type) => typeof type === 'string' && JSON_TYPES.includes(type))) {
+    return { error: `responseSchema type must be one of ${JSON_TYPES.join(', ')}` };
+  }
+
+  for (const pattern of findPatterns(value)) {
+    const problem = checkPattern(pattern);
+    if (problem) {
+      return { error: `responseSchema pattern ${JSON.stringify(pattern)} ${problem}` };
+    }
+  }
+
+  return { value };
+}
+
+/**
+ * The JSON type of a value, distinguishing integers from other numbers
+ */
+const typeOf = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value;
+};
+
+/**
+ * Compare two JSON values by content, ignoring the order of object keys
+ */
+const jsonEquals = (a: unknown, b: unknown): boolean => {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => jsonEquals(item, b[index]));
+  }
+  if (isJsonObject(a) && isJsonObject(b)) {
+    const keys = Object.keys(a);
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every((key) => Object.hasOwn(b, key) && jsonEquals(a[key], b[key]))
+    );
+  }
+  return a === b;
+};
+
+/**
+ * Validate a value against a JSON Schema
+ * Supports the keywords models are commonly given: type, enum, const, properties, required,
+ * additionalProperties, items, min/maxItems, min/maxLength, pattern, minimum, maximum,
+ * exclusiveMinimum, exclusiveMaximum, anyOf, oneOf, allOf and local $refs. Other keywords
+ * (e.g. format) are ignored
+ * @returns The validation errors, empty when the value is valid
+ */
+export function validateJsonValue(value: unknown, schema: JsonSchema): string[] {
+  const resolveRef = (ref: string): JsonSchema | undefined => {
+    if (!ref.startsWith('#/')) return undefined;
+    let target: unknown = schema;
+    for (const part of ref.substring(2).split('/')) {
+      target = isJsonObject(target) ? target[part.replace(/~1/g, '/').replace(/~0/g, '~')] : undefined;
+    }
+    return isJsonObject(target) ? target : undefined;
+  };
+
+  const check = (current: unknown, currentSchema: JsonSchema, path: string, depth: number, errors: string[]): void => {
+    if (errors.length >= MAX_ERRORS) return;
+
+    if (typeof currentSchema.$ref === 'string') {
+      const target = resolveRef(currentSchema.$ref);
+      // Guard against schemas that refer to themselves without consuming any input
+      if (!target || depth > 50) {
+        errors.push(`${path}: cannot resolve ${currentSchema.$ref}`);
+        return;
+      }
+      check(current, target, path, depth + 1, errors);
+    }
+
+    const actualType = typeOf(current);
+    if (currentSchema.type !== undefined) {
+      const types = (Array.isArray(currentSchema.type) ? currentSchema.type : [currentSchema.type]) as string[];
+      const matches = types.some((type) => type === actualType || (type === 'number' && actualType === 'integer'));
+      if (!matches) {
+        errors.push(`${path}: expected ${types.join(' or ')}, got ${actualType}`);
+        return;
+      }
+    }
+
+    if (Array.isArray(currentSchema.enum) && !currentSchema.enum.some((option) => jsonEquals(option, current))) {
+      errors.push(`${path}: must be one of ${currentSchema.enum.map((option) => JSON.stringify(option)).join(', ')}`);
+    }
+
+    if (currentSchema.const !== undefined && !jsonEquals(currentSchema.const, current)) {
+      errors.push(`${path}: must be ${JSON.stringify(currentSchema.const)}`);
+    }
+
+    if (typeof current === 'string') {
+      if (typeof currentSchema.minLength === 'number' && current.length < currentSchema.minLength) {
+        errors.push(`${path}: must be at least ${currentSchema.minLength} characters`);
+      }
+      if (typeof currentSchema.maxLength === 'number' && current.length > currentSchema.maxLength) {
+        errors.push(`${path}: must be at most ${currentSchema.maxLength} characters`);
+      }
+      // Patterns that validateResponseSchema would reject are ignored, they are not the reply's fault
+      if (
+        typeof currentSchema.pattern === 'string' &&
+        !checkPattern(currentSchema.pattern) &&
+        !new RegExp(currentSchema.pattern, 'u').test(current)
+      ) {
+        errors.push(`${path}: must match the pattern ${currentSchema.pattern}`);
+      }
+    }
+
+    if (typeof current === 'number') {
+      if (typeof currentSchema.minimum === 'number' && current < currentSchema.minimum) {
+        errors.push(`${path}: must be at least ${currentSchema.minimum}`);
+      }
+      if (typeof currentSchema.maximum === 'number' && current > currentSchema.maximum) {
+        errors.push(`${path}: must be at most ${currentSchema.maximum}`);
+      }
+      if (typeof currentSchema.exclusiveMinimum === 'number' && current <= currentSchema.exclusiveMinimum) {
+        errors.push(`${path}: must be greater than ${currentSchema.exclusiveMinimum}`);
+      }
+      if (typeof currentSchema.exclusiveMaximum === 'number' && current >= currentSchema.exclusiveMaximum) {
+        errors.push(`${path}: must be less than ${currentSchema.exclusiveMaximum}`);
+      }
+    }
+
+    if (Array.isArray(current)) {
+      if (typeof currentSchema.minItems === 'number' && current.length < currentSchema.minItems) {
+        errors.push(`${path}: must have at least ${currentSchema.minItems} items`);
+      }
+      if (typeof currentSchema.maxItems === 'number' && current.length > currentSchema.maxItems) {
+        errors.push(`${path}: must have at most ${currentSchema.maxItems} items`);
+      }
+      if (isJsonObject(currentSchema.items)) {
+        const itemSchema = currentSchema.items;
+        current.forEach((item, index) => check(item, itemSchema, `${path}[${index}]`, depth, errors));
+      }
+    }
+
+    if (isJsonObject(current)) {
+      const properties = isJsonObject(currentSchema.properties) ? currentSchema.properties : {};
+      const required = Array.isArray(currentSchema.required) ? currentSchema.required : [];
+
+      for (const key of required) {
+        if (typeof key === 'string' && !(key in current)) {
+          errors.push(`${path}: missing required property "${key}"`);
+        }
+      }
+
+      for (const [key, propertyValue] of Object.entries(current)) {
+        const propertySchema = properties[key];
+        if (isJsonObject(propertySchema)) {
+          check(propertyValue, propertySchema, `${path}.${key}`, depth, errors);
+        } else if (currentSchema.additionalProperties === false) {
+          errors.push(`${path}: unexpected property "${key}"`);
+        } else if (isJsonObject(currentSchema.additionalProperties)) {
+          check(propertyValue, currentSchema.additionalProperties, `${path}.${key}`, depth, errors);
+        }
+      }
+    }
+
+    const subschemas = (keyword: string): JsonSchema[] =>
+      Array.isArray(currentSchema[keyword]) ? (currentSchema[keyword] as unknown[]).filter(isJsonObject) : [];
+    const matchCount = (options: JsonSchema[]) =>
+      options.filter((option) => {
+        const optionErrors: string[] = [];
+        check(current, option, path, depth, optionErrors);
+        return optionErrors.length === 0;
+      }).length;
+
+    for (const option of subschemas('allOf')) {
+      check(current, option, path, depth, errors);
+    }
+    const anyOf = subschemas('anyOf');
+    if (anyOf.length > 0 && matchCount(anyOf) === 0) {
+      errors.push(`${path}: does not match any of the allowed schemas`);
+    }
+    const oneOf = subschemas('oneOf');
+    if (oneOf.length > 0 && matchCount(oneOf) !== 1) {
+      errors.push(`${path}: must match exactly one of the allowed schemas`);
+    }
+  };
+
+  const errors: string[] = [];
+  check(value, schema, '$', 0, errors);
+  return errors.slice(0, MAX_ERRORS);
+}
+
+/**
+ * Parse a model reply as JSON, allowing it to be wrapped in a ```json code block
+ */
+export function parseJsonReply(text: string): { value: unknown; error?: undefined } | { value?: undefined; error: string } {
+  const fenced = text.trim().match(/^```(?:json)?\s*\n([\s\S]*?)\n?```$/i);
+  try {
+    return { value: JSON.parse(fenced ? fenced[1] : text) };
+  } catch (error) {
+    return { error: `The reply is not valid JSON: ${error instanceof Error ? error.message : 'parse error'}` };
+  }
+}
+
+/**
+ * Check a model reply against a JSON Schema
+ * @returns The validation errors, empty when the reply is valid JSON that matches the schema
+ */
+export function checkStructuredReply(text: string, schema: JsonSchema): string[] {
+  const { value, error } = parseJsonReply(text);
+  if (error !== undefined) {
+    return [error];
+  }
+  return validateJsonValue(value, schema);
+}
+
+/**
+ * Get the response_format for a schema
+ * Models with structured outputs are constrained to the schema itself, other models that
+ * support response_format only to valid JSON
+ * @param structuredOutputs - Whether the model supports json_schema response formats
+ */
+export function toResponseFormat(
+  schema: JsonSchema,
+  structuredOutputs: boolean
+): ResponseFormatJSONSchema | { type: 'json_object' } {
+  return structuredOutputs
+    ? { type: 'json_schema', jsonSchema: { name: 'response', schema } }
+    : { type: 'json_object' };
+}
+
+/**
+ * Build the system message that asks for a reply matching the schema
+ * Sent to every model, as not every model supports response_format
+ */
+export function buildSchemaPrompt(schema: JsonSchema): string {
+  return [
+    'Reply with a single JSON value that matches the following JSON Schema, without any other text.',
+    '',
+    JSON.stringify(schema, null, 2),
+  ].join('\n');
+}
+
+/**
+ * Build the message that asks the model to fix a reply that didn't match the schema
+ */
+export function buildRepairPrompt(errors: string[]): string {
+  return [
+    'Your reply does not match the JSON Schema:',
+    ...errors.map((error) => `- ${error}`),
+    '',
+    'Reply again with only the corrected JSON.',
+  ].join('\n');
+}
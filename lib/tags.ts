@@ -0,0 +1,24 @@
+export const MAX_TAGS = 20;
+const MAX_TAG_LENGTH = 50;
+
+/**
+ * Validate a list of tags for a chat or a prompt
+ * Tags are trimmed, lowercased and deduplicated, so filtering on them is case-insensitive
+ */
+export function validateTags(
+  value: unknown
+): { value: string[]; error?: undefined } | { value?: undefined; error: string } {
+  if (!Array.isArray(value) || !value.every((tag) => typeof tag === 'string')) {
+    return { error: 'tags must be an array of strings' };
+  }
+
+  const tags = [...new Set(value.map((tag: string) => tag.trim().toLowerCase()).filter((tag) => tag.length > 0))];
+  if (tags.length > MAX_TAGS) {
+    return { error: `At most ${MAX_TAGS} tags are allowed` };
+  }
+  if (tags.some((tag) => tag.length > MAX_TAG_LENGTH)) {
+    return { error: `Tags must be at most ${MAX_TAG_LENGTH} characters` };
+  }
+
+  return { value: tags };
+}
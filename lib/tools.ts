@@ -0,0 +1,266 @@
+import { ChatMessageToolCall, ToolDefinitionJson } from '@openrouter/sdk/models';
+
+import { prisma } from '@/lib/prisma';
+import { evaluateExpression } from '@/lib/calculator';
+import { getActivePath } from '@/lib/messageTree';
+import { ToolCall } from '@/types/chat';
+
+// Model requests per completion; the last one is sent without tools so the model has to answer
+export const MAX_TOOL_STEPS = 5;
+// Tool results are cut off at this length so a single result can't fill the context
+const MAX_RESULT_LENGTH = 20000;
+const EXCERPT_LENGTH = 500;
+
+/**
+ * The user and chat a tool runs for; tools only ever read the user's own data
+ */
+export interface ToolContext {
+  userId: string;
+  chatId: string | null;
+}
+
+/**
+ * A tool the model can call
+ * The parameters are a JSON schema that is sent to the model. parseArgs checks the arguments
+ * the model produced against it, because models don't always follow the schema
+ */
+export interface ToolDefinition<Args> {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+  parseArgs(args: Record<string, unknown>): { value: Args; error?: undefined } | { value?: undefined; error: string };
+  execute(args: Args, context: ToolContext): Promise<unknown>;
+}
+
+/**
+ * Cut text off at a maximum length
+ */
+const excerpt = (text: string, length = EXCERPT_LENGTH): string =>
+  text.length > length ? text.substring(0, length) + '...' : text;
+
+const calculatorTool: ToolDefinition<{ expression: string }> = {
+  name: 'calculator',
+  description:
+    'Evaluate an arithmetic expression. Supports + - * / % ^, parentheses, pi, e and the functions ' +
+    'sqrt, cbrt, abs, round, floor, ceil, sin, cos, tan, asin, acos, atan, exp, ln, log (base 10), log2, min and max.',
+  parameters: {
+    type: 'object',
+    properties: {
+      expression: { type: 'string', description: 'The expression, e.g. "(12.5 * 4) ^ 2 / sqrt(16)"' },
+    },
+    required: ['expression'],
+  },
+  parseArgs({ expression }) {
+    if (typeof expression !== 'string' || !expression.trim()) {
+      return { error: 'expression must be a non-empty string' };
+    }
+    return { value: { expression } };
+  },
+  async execute({ expression }) {
+    return { expression, result: evaluateExpression(expression) };
+  },
+};
+
+const currentTimeTool: ToolDefinition<{ timeZone?: string }> = {
+  name: 'current_time',
+  description: 'Get the current date and time, optionally in a given IANA time zone.',
+  parameters: {
+    type: 'object',
+    properties: {
+      timeZone: { type: 'string', description: 'IANA time zone, e.g. "Europe/Amsterdam". Defaults to the server time zone.' },
+    },
+  },
+  parseArgs({ timeZone }) {
+    if (timeZone === undefined) {
+      return { value: {} };
+    }
+    if (typeof timeZone !== 'string') {
+      return { error: 'timeZone must be a string' };
+    }
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone });
+    } catch {
+      return { error: `Unknown time zone: ${timeZone}` };
+    }
+    return { value: { timeZone } };
+  },
+  async execute({ timeZone }) {
+    const now = new Date();
+    const zone = timeZone ?? Intl.DateTimeFormat().resolvedOptions().timeZone;
+    return {
+      iso: now.toISOString(),
+      timeZone: zone,
+      local: now.toLocaleString('en-US', { timeZone: zone, dateStyle: 'full', timeStyle: 'long' }),
+    };
+  },
+};
+
+const chatSummaryTool: ToolDefinition<{ chatId?: string; title?: string }> = {
+  name: 'get_chat_summary',
+  description:
+    'Get a summary of one of the user\'s chats: title, model, usage and excerpts of its messages. ' +
+    'Look the chat up by id or by (part of) its title; without either, the current chat is summarized.',
+  parameters: {
+    type: 'object',
+    properties: {
+      chatId: { type: 'string', description: 'Id of the chat' },
+      title: { type: 'string', description: 'Part of the chat title; the most recently updated match is used' },
+    },
+  },
+  parseArgs({ chatId, title }) {
+    if (chatId !== undefined && typeof chatId !== 'string') {
+      return { error: 'chatId must be a string' };
+    }
+    if (title !== undefined && typeof title !== 'string') {
+      return { error: 'title must be a string' };
+    }
+    return { value: { chatId, title } };
+  },
+  async execute({ chatId, title }, context) {
+    const id = chatId || (title ? undefined : context.chatId);
+    if (!id && !title) {
+      throw new Error('There is no current chat, pass a chatId or title');
+    }
+
+    const chat = await prisma.chat.findFirst({
+      where: {
+        userId: context.userId,
+        deletedAt: null,
+        ...(id ? { id } : { title: { contains: title, mode: 'insensitive' } }),
+      },
+      orderBy: { updatedAt: 'desc' },
+    });
+
+    if (!chat) {
+      throw new Error('Chat not found');
+    }
+
+    const messages = await getActivePath(chat);
+    return {
+      id: chat.id,
+      title: chat.title,
+      model: chat.model,
+      createdAt: chat.createdAt.toISOString(),
+      updatedAt: chat.updatedAt.toISOString(),
+      messageCount: messages.length,
+      usage: {
+        promptTokens: chat.promptTokens,
+        completionTokens: chat.completionTokens,
+        cost: chat.totalCost,
+      },
+      // The opening message and the latest messages usually say most about a chat
+      firstMessage: messages[0] ? excerpt(messages[0].content) : null,
+      recentMessages: messages
+        .slice(-6)
+        .filter((message) => message.role === 'user' || message.role === 'assistant')
+        .map((message) => ({ role: message.role, content: excerpt(message.content) })),
+    };
+  },
+};
+
+const searchPromptsTool: ToolDefinition<{ query: string; limit: number }> = {
+  name: 'search_prompts',
+  description: 'Search the user\'s saved prompts by title and content.',
+  parameters: {
+    type: 'object',
+    properties: {
+      query: { type: 'string', description: 'Text to search for' },
+      limit: { type: 'integer', minimum: 1, maximum: 10, description: 'Maximum number of prompts, default 5' },
+    },
+    required: ['query'],
+  },
+  parseArgs({ query, limit }) {
+    if (typeof query !== 'string' || !query.trim()) {
+      return { error: 'query must be a non-empty string' };
+    }
+    if (limit !== undefined && (typeof limit !== 'number' || !Number.isInteger(limit) || limit < 1 || limit > 10)) {
+      return { error: 'limit must be an integer between 1 and 10' };
+    }
+    return { value: { query: query.trim(), limit: limit ?? 5 } };
+  },
+  async execute({ query, limit }, context) {
+    const prompts = await prisma.prompt.findMany({
+      where: {
+        userId: context.userId,
+        deletedAt: null,
+        OR: [
+          { title: { contains: query, mode: 'insensitive' } },
+          { content: { contains: query, mode: 'insensitive' } },
+        ],
+      },
+      orderBy: { updatedAt: 'desc' },
+      take: limit,
+    });
+
+    return {
+      count: prompts.length,
+      prompts: prompts.map((prompt) => ({ title: prompt.title, content: excerpt(prompt.content, 1000) })),
+    };
+  },
+};
+
+// Every tool that is offered to models; add new tools here
+const TOOLS: ToolDefinition<unknown>[] = [calculatorTool, currentTimeTool, chatSummaryTool, searchPromptsTool];
+
+/**
+ * Get the tool definitions in the shape the OpenRouter API expects
+ */
+export function getToolDefinitions(): ToolDefinitionJson[] {
+  return TOOLS.map((tool) => ({
+    type: 'function',
+    function: {
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.parameters,
+    },
+  }));
+}
+
+/**
+ * Convert saved tool calls into the shape the OpenRouter API expects
+ */
+export function toOpenRouterToolCalls(toolCalls: ToolCall[]): ChatMessageToolCall[] {
+  return toolCalls.map((call) => ({
+    id: call.id,
+    type: 'function',
+    function: { name: call.name, arguments: call.arguments },
+  }));
+}
+
+/**
+ * Run a tool call requested by the model
+ * Failures are returned as an error result instead of thrown, so the model can see what
+ * went wrong and try again or answer without the tool
+ * @returns The result as JSON, to send back to the model in a tool message
+ */
+export async function runToolCall(call: ToolCall, context: ToolContext): Promise<string> {
+  const toResult = (result: unknown) => excerpt(JSON.stringify(result, null, 2), MAX_RESULT_LENGTH);
+
+  const tool = TOOLS.find((candidate) => candidate.name === call.name);
+  if (!tool) {
+    return toResult({ error: `Unknown tool: ${call.name}` });
+  }
+
+  let args: unknown;
+  try {
+    args = call.arguments.trim() ? JSON.parse(call.arguments) : {};
+  } catch {
+    return toResult({ error: 'Arguments are not valid JSON' });
+  }
+
+  if (typeof args !== 'object' || args === null || Array.isArray(args)) {
+    return toResult({ error: 'Arguments must be a JSON object' });
+  }
+
+  const { value, error } = tool.parseArgs(args as Record<string, unknown>);
+  if (error !== undefined) {
+    return toResult({ error });
+  }
+
+  try {
+    return toResult(await tool.execute(value, context));
+  } catch (toolError) {
+    console.error(`Error running tool ${call.name}:`, toolError);
+    return toResult({ error: toolError instanceof Error ? toolError.message : 'Tool failed' });
+  }
+}
@@ -0,0 +1,90 @@
+import { Prisma } from '@prisma/client';
+
+import { removeUnreferencedFiles } from '@/lib/attachments';
+import { prisma } from '@/lib/prisma';
+import { TrashItem, TrashItemType } from '@/types/chat';
+
+export const TRASH_ITEM_TYPES: TrashItemType[] = ['chat', 'prompt'];
+const DEFAULT_TRASH_RETENTION_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Get the number of days deleted chats and prompts stay in the trash, from TRASH_RETENTION_DAYS
+ */
+export function getTrashRetentionDays(): number {
+  const days = Number(process.env.TRASH_RETENTION_DAYS);
+  return Number.isInteger(days) && days > 0 ? days : DEFAULT_TRASH_RETENTION_DAYS;
+}
+
+/**
+ * Get the moment before which deleted items have expired
+ * Expired items can't be restored anymore and are removed by the next purge
+ */
+export function getTrashCutoff(now: Date = new Date()): Date {
+  return new Date(now.getTime() - getTrashRetentionDays() * DAY_MS);
+}
+
+/**
+ * Where clause for the items in a user's trash: deleted and not expired yet
+ * Works for chats and prompts alike, as both have a userId and a deletedAt
+ */
+export function trashWhere(userId: string): Prisma.ChatWhereInput & Prisma.PromptWhereInput {
+  return {
+    userId,
+    deletedAt: { gte: getTrashCutoff() },
+  };
+}
+
+/**
+ * Convert a deleted chat or prompt into the API shape
+ */
+export function toTrashItem(
+  item: { id: string; title: string | null; deletedAt: Date | null },
+  type: TrashItemType
+): TrashItem {
+  const deletedAt = item.deletedAt ?? new Date();
+  return {
+    id: item.id,
+    type,
+    title: item.title,
+    deletedAt: deletedAt.toISOString(),
+    purgeAt: new Date(deletedAt.getTime() + getTrashRetentionDays() * DAY_MS).toISOString(),
+  };
+}
+
+/**
+ * Delete chats and prompts for good
+ * Messages, attachments, versions, shares and stars are removed with them by cascade, and the
+ * stored files of the attachments afterwards; messages sent with a deleted prompt keep their content
+ * @param chatWhere - Which chats to delete, or null to delete none
+ * @param promptWhere - Which prompts to delete, or null to delete none
+ * @returns The number of chats and prompts that were deleted
+ */
+export async function deleteItemsForGood(
+  chatWhere: Prisma.ChatWhereInput | null,
+  promptWhere: Prisma.PromptWhereInput | null
+): Promise<{ chatCount: number; promptCount: number }> {
+  // The cascade removes the attachment records, so find their files first
+  const attachments = chatWhere
+    ? await prisma.attachment.findMany({
+        where: { message: { chat: chatWhere } },
+        select: { storageKey: true },
+      })
+    : [];
+
+  const chats = chatWhere ? await prisma.chat.deleteMany({ where: chatWhere }) : { count: 0 };
+  const prompts = promptWhere ? await prisma.prompt.deleteMany({ where: promptWhere }) : { count: 0 };
+
+  await removeUnreferencedFiles(attachments.map((attachment) => attachment.storageKey));
+
+  return { chatCount: chats.count, promptCount: prompts.count };
+}
+
+/**
+ * Delete expired chats and prompts from the trash for good, for all users
+ * @returns The number of chats and prompts that were deleted
+ */
+export async function purgeExpiredItems(): Promise<{ chatCount: number; promptCount: number }> {
+  const where = { deletedAt: { lt: getTrashCutoff() } };
+  return deleteItemsForGood(where, where);
+}
@@ -0,0 +1,166 @@
+import { prisma } from '@/lib/prisma';
+import { getCatalogModel } from '@/lib/modelCatalog';
+import { TokenUsage, UsageBreakdown, UsageReport } from '@/types/chat';
+
+/**
+ * Calculate the cost in USD of a completion using the model catalog pricing
+ * Returns 0 when the model is not in the catalog or the catalog is unavailable
+ */
+export async function calculateCost(
+  modelId: string,
+  promptTokens: number,
+  completionTokens: number
+): Promise<number> {
+  try {
+    const model = await getCatalogModel(modelId);
+    if (!model) {
+      return 0;
+    }
+    return promptTokens * model.pricing.prompt + completionTokens * model.pricing.completion;
+  } catch (error) {
+    console.error('Error calculating cost:', error);
+    return 0;
+  }
+}
+
+/**
+ * Add up the usage of several completions; undefined when none of them reported usage
+ */
+export function addUsage(a: TokenUsage | undefined, b: TokenUsage | undefined): TokenUsage | undefined {
+  if (!a || !b) {
+    return a ?? b;
+  }
+  return {
+    promptTokens: a.promptTokens + b.promptTokens,
+    completionTokens: a.completionTokens + b.completionTokens,
+    cost: a.cost + b.cost,
+  };
+}
+
+/**
+ * Add the usage of a completion to the running totals of a chat and its user, and to the
+ * usage ledger that budgets and usage reports are built from
+ * @param model - The model that made the completion
+ */
+export async function recordUsage(
+  chatId: string,
+  userId: string,
+  model: string | null,
+  usage: TokenUsage
+): Promise<void> {
+  const increment = {
+    promptTokens: { increment: usage.promptTokens },
+    completionTokens: { increment: usage.completionTokens },
+    totalCost: { increment: usage.cost },
+  };
+
+  await prisma.$transaction([
+    prisma.chat.update({
+      where: { id: chatId },
+      data: increment,
+    }),
+    prisma.user.update({
+      where: { id: userId },
+      data: increment,
+    }),
+    prisma.usageRecord.create({
+      data: {
+        userId,
+        chatId,
+        model,
+        promptTokens: usage.promptTokens,
+        completionTokens: usage.completionTokens,
+        cost: usage.cost,
+      },
+    }),
+  ]);
+}
+
+/**
+ * Add a completion's usage to the breakdown entry for the given key
+ */
+const addToBreakdown = (
+  breakdown: Map<string, UsageBreakdown>,
+  key: string,
+  usage: TokenUsage
+) => {
+  const entry = breakdown.get(key) ?? {
+    key,
+    promptTokens: 0,
+    completionTokens: 0,
+    cost: 0,
+    messageCount: 0,
+  };
+  entry.promptTokens += usage.promptTokens;
+  entry.completionTokens += usage.completionTokens;
+  entry.cost += usage.cost;
+  entry.messageCount += 1;
+  breakdown.set(key, entry);
+};
+
+/**
+ * Build a usage report for a user with daily and per-model breakdowns
+ * Every part comes from the usage ledger, so usage in deleted chats still counts
+ * @param userId - The user to report on
+ * @param days - Number of days (including today) to include
+ */
+export async function getUsageReport(userId: string, days: number): Promise<UsageReport> {
+  const since = new Date();
+  since.setUTCHours(0, 0, 0, 0);
+  since.setUTCDate(since.getUTCDate() - (days - 1));
+
+  const [allTime, records] = await Promise.all([
+    prisma.usageRecord.aggregate({
+      where: { userId },
+      _sum: {
+        promptTokens: true,
+        completionTokens: true,
+        cost: true,
+      },
+    }),
+    prisma.usageRecord.findMany({
+      where: {
+        userId,
+        createdAt: { gte: since },
+      },
+      select: {
+        createdAt: true,
+        model: true,
+        promptTokens: true,
+        completionTokens: true,
+        cost: true,
+      },
+    }),
+  ]);
+
+  const totals: TokenUsage = { promptTokens: 0, completionTokens: 0, cost: 0 };
+  const daily = new Map<string, UsageBreakdown>();
+  const byModel = new Map<string, UsageBreakdown>();
+
+  for (const record of records) {
+    const usage: TokenUsage = {
+      promptTokens: record.promptTokens,
+      completionTokens: record.completionTokens,
+      cost: record.cost,
+    };
+
+    totals.promptTokens += usage.promptTokens;
+    totals.completionTokens += usage.completionTokens;
+    totals.cost += usage.cost;
+
+    addToBreakdown(daily, record.createdAt.toISOString().substring(0, 10), usage);
+    addToBreakdown(byModel, record.model || 'unknown', usage);
+  }
+
+  return {
+    days,
+    totals,
+    allTime: {
+      promptTokens: allTime._sum.promptTokens ?? 0,
+      completionTokens: allTime._sum.completionTokens ?? 0,
+      cost: allTime._sum.cost ?? 0,
+    },
+    daily: Array.from(daily.values()).sort((a, b) => a.key.localeCompare(b.key)),
+    byModel: Array.from(byModel.values()).sort((a, b) => b.cost - a.cost),
+  };
+}
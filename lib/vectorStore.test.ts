@@ -0,0 +1,66 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { ChunkSource, createInMemoryVectorStore } from '@/lib/vectorStore';
+
+const DOCUMENTS = [
+  { id: 'doc-1', fileName: 'handbook.md', collectionName: 'HR' },
+  { id: 'doc-2', fileName: 'faq.txt', collectionName: 'Support' },
+];
+
+const CHUNKS = [
+  { documentId: 'doc-1', index: 0, content: 'x', embedding: [1, 0, 0] },
+  { documentId: 'doc-1', index: 1, content: 'xy', embedding: [0.6, 0.8, 0] },
+  { documentId: 'doc-2', index: 0, content: 'y', embedding: [0, 1, 0] },
+  { documentId: 'doc-2', index: 1, content: 'z', embedding: [0, 0, 1] },
+];
+
+/**
+ * A chunk source with fixed documents that counts how often chunks are loaded
+ */
+const createSource = () => {
+  const loaded: string[][] = [];
+  const source: ChunkSource = {
+    async findDocuments() {
+      return DOCUMENTS;
+    },
+    async findChunks(documentIds) {
+      loaded.push(documentIds);
+      return CHUNKS.filter((chunk) => documentIds.includes(chunk.documentId));
+    },
+  };
+  return { source, loaded };
+};
+
+describe('createInMemoryVectorStore', () => {
+  it('returns the closest chunks first, at most limit', async () => {
+    const store = createInMemoryVectorStore(createSource().source);
+    const matches = await store.search(['hr', 'support'], 'local-hash-3', [1, 0, 0], 3);
+
+    assert.deepEqual(
+      matches.map((match) => [match.documentId, match.chunkIndex]),
+      [['doc-1', 0], ['doc-1', 1], ['doc-2', 0]]
+    );
+    assert.deepEqual(matches.map((match) => match.score), [1, 0.6, 0]);
+    assert.equal(matches[0].documentName, 'handbook.md');
+    assert.equal(matches[0].collectionName, 'HR');
+  });
+
+  it('orders by similarity to the query across documents', async () => {
+    const store = createInMemoryVectorStore(createSource().source);
+    const matches = await store.search(['hr', 'support'], 'local-hash-3', [0, 0.8, 0.6], 2);
+    assert.deepEqual(matches.map((match) => match.content), ['y', 'xy']);
+  });
+
+  it('loads the chunks of a document once until it is forgotten', async () => {
+    const { source, loaded } = createSource();
+    const store = createInMemoryVectorStore(source);
+
+    await store.search(['hr'], 'local-hash-3', [1, 0, 0], 1);
+    await store.search(['hr'], 'local-hash-3', [0, 1, 0], 1);
+    store.forgetDocument('doc-2');
+    await store.search(['hr'], 'local-hash-3', [0, 0, 1], 1);
+
+    assert.deepEqual(loaded, [['doc-1', 'doc-2'], ['doc-2']]);
+  });
+});
@@ -0,0 +1,175 @@
+import { Prisma } from '@prisma/client';
+
+import { prisma } from '@/lib/prisma';
+
+/**
+ * A document chunk that matched a query, with its cosine similarity to the query
+ */
+export interface ChunkMatch {
+  documentId: string;
+  documentName: string;
+  collectionName: string;
+  chunkIndex: number;
+  content: string;
+  score: number;
+}
+
+/**
+ * Finds the chunks closest to a query vector
+ * Chunks are always saved in the document_chunks table; stores only differ in how they search
+ */
+export interface VectorStore {
+  search(collectionIds: string[], embeddingModel: string, vector: number[], limit: number): Promise<ChunkMatch[]>;
+  // Called after a document is deleted, for stores that keep their own copy of the chunks
+  forgetDocument(documentId: string): void;
+}
+
+/**
+ * Search with the pgvector extension, casting the stored embeddings to its vector type
+ * Requires CREATE EXTENSION vector, see the README
+ */
+export function createPgVectorStore(): VectorStore {
+  return {
+    async search(collectionIds, embeddingModel, vector, limit) {
+      if (collectionIds.length === 0) {
+        return [];
+      }
+
+      const queryVector = `[${vector.join(',')}]`;
+      const rows = await prisma.$queryRaw<ChunkMatch[]>`
+        SELECT
+          d.id AS "documentId",
+          d.file_name AS "documentName",
+          col.name AS "collectionName",
+          ch.index AS "chunkIndex",
+          ch.content,
+          1 - (ch.embedding::vector <=> ${queryVector}::vector) AS score
+        FROM document_chunks ch
+        JOIN documents d ON d.id = ch.document_id
+        JOIN collections col ON col.id = d.collection_id
+        WHERE d.collection_id IN (${Prisma.join(collectionIds)})
+          AND d.embedding_model = ${embeddingModel}
+        ORDER BY ch.embedding::vector <=> ${queryVector}::vector
+        LIMIT ${limit}
+      `;
+
+      return rows.map((row) => ({ ...row, score: Number(row.score) }));
+    },
+    forgetDocument() {},
+  };
+}
+
+interface IndexedChunk {
+  chunkIndex: number;
+  content: string;
+  embedding: number[];
+}
+
+/**
+ * Where the in-memory store loads documents and their chunks from
+ */
+export interface ChunkSource {
+  findDocuments(
+    collectionIds: string[],
+    embeddingModel: string
+  ): Promise<{ id: string; fileName: string; collectionName: string }[]>;
+  // Chunks of the given documents, in order
+  findChunks(documentIds: string[]): Promise<{ documentId: string; index: number; content: string; embedding: number[] }[]>;
+}
+
+/**
+ * Load documents and chunks from the database
+ */
+const databaseChunkSource: ChunkSource = {
+  async findDocuments(collectionIds, embeddingModel) {
+    const documents = await prisma.document.findMany({
+      where: { collectionId: { in: collectionIds }, embeddingModel },
+      select: { id: true, fileName: true, collection: { select: { name: true } } },
+    });
+    return documents.map((document) => ({
+      id: document.id,
+      fileName: document.fileName,
+      collectionName: document.collection.name,
+    }));
+  },
+  findChunks(documentIds) {
+    return prisma.documentChunk.findMany({
+      where: { documentId: { in: documentIds } },
+      orderBy: { index: 'asc' },
+    });
+  },
+};
+
+/**
+ * Search in process, keeping the embeddings of every searched document in memory
+ * Documents never change after they are added, so cached chunks stay valid until the document is deleted.
+ * With several server instances, a deleted document is only dropped from the instance that deleted it,
+ * but it is no longer returned by any instance because documents are looked up in the database first
+ * @param source - Where documents and chunks are loaded from, the database unless given
+ */
+export function createInMemoryVectorStore(source: ChunkSource = databaseChunkSource): VectorStore {
+  const index = new Map<string, IndexedChunk[]>();
+
+  return {
+    async search(collectionIds, embeddingModel, vector, limit) {
+      const documents = await source.findDocuments(collectionIds, embeddingModel);
+
+      const missingIds = documents.map((document) => document.id).filter((id) => !index.has(id));
+      if (missingIds.length > 0) {
+        const chunks = await source.findChunks(missingIds);
+        for (const id of missingIds) {
+          index.set(id, []);
+        }
+        for (const chunk of chunks) {
+          index.get(chunk.documentId)!.push({
+            chunkIndex: chunk.index,
+            content: chunk.content,
+            embedding: chunk.embedding,
+          });
+        }
+      }
+
+      // Embeddings are unit length, so the dot product is the cosine similarity
+      const matches: ChunkMatch[] = documents.flatMap((document) =>
+        (index.get(document.id) ?? []).map((chunk) => ({
+          documentId: document.id,
+          documentName: document.fileName,
+          collectionName: document.collectionName,
+          chunkIndex: chunk.chunkIndex,
+          content: chunk.content,
+          score: chunk.embedding.reduce((total, value, i) => total + value * (vector[i] ?? 0), 0),
+        }))
+      );
+
+      return matches.sort((a, b) => b.score - a.score).slice(0, limit);
+    },
+    forgetDocument(documentId) {
+      index.delete(documentId);
+    },
+  };
+}
+
+let vectorStore: VectorStore | null = null;
+
+/**
+ * Get the vector store configured with VECTOR_STORE ("memory", the default, or "pgvector")
+ */
+export function getVectorStore(): VectorStore {
+  if (vectorStore) {
+    return vectorStore;
+  }
+
+  const store = process.env.VECTOR_STORE || 'memory';
+  switch (store) {
+    case 'memory':
+      vectorStore = createInMemoryVectorStore();
+      break;
+    case 'pgvector':
+      vectorStore = createPgVectorStore();
+      break;
+    default:
+      throw new Error(`Unknown vector store: ${store}`);
+  }
+
+  return vectorStore;
+}
@@ -1,13 +1,339 @@
 export interface Message {
   id: string;
-  role: 'user' | 'assistant' | 'system';
+  role: 'user' | 'assistant' | 'system' | 'tool';
   content: string;
   timestamp: Date;
+  model?: string | null;
+  truncated?: boolean;
+  promptTokens?: number | null;
+  completionTokens?: number | null;
+  cost?: number | null;
+  parentId?: string | null;
+  // Ids of the messages that share this message's parent (alternate branches), including itself
+  siblingIds?: string[];
+  // Only shown in the browser (e.g. error notices), never saved or sent to the model
+  local?: boolean;
+  attachments?: AttachmentInfo[];
+  // Knowledge base chunks the reply was given as context, referred to as [1], [2], ... in the content
+  sources?: Citation[] | null;
+  // Tools the model asked to run (assistant messages); the results follow as tool messages
+  toolCalls?: ToolCall[] | null;
+  // The call a tool message is the result of
+  toolCallId?: string | null;
+  toolName?: string | null;
+  // The saved prompt a user message was sent with, and the version of it that was used
+  promptId?: string | null;
+  promptVersionId?: string | null;
+  // Whether the reply matched the response schema; null or absent when there was no schema
+  schemaValid?: boolean | null;
+  // Replies generated side by side by different models share a comparison id
+  comparisonId?: string | null;
+  // Whether this reply was picked from its comparison to continue the chat with
+  comparisonWinner?: boolean;
 }
 
+/**
+ * A tool call requested by the model; arguments is the JSON string the model produced
+ */
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: string;
+}
+
+/**
+ * A file attached to a message, as returned by the attachments and messages APIs
+ */
+export interface AttachmentInfo {
+  id: string;
+  fileName: string;
+  mimeType: string;
+  size: number;
+}
+
+/**
+ * Token usage and cost (USD) of a single completion
+ */
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
+}
+
+/**
+ * Usage totals for one day or one model in the usage report
+ */
+export interface UsageBreakdown extends TokenUsage {
+  key: string;
+  messageCount: number;
+}
+
+/**
+ * Response of GET /api/usage
+ */
+export interface UsageReport {
+  days: number;
+  totals: TokenUsage;
+  allTime: TokenUsage;
+  daily: UsageBreakdown[];
+  byModel: UsageBreakdown[];
+}
+
+/**
+ * Monthly budget limits; null means unlimited
+ */
+export interface BudgetLimits {
+  monthlyTokenLimit: number | null;
+  monthlyCostLimit: number | null;
+}
+
+/**
+ * Response of GET /api/budget: usage in the current month against the user's limits
+ */
+export interface BudgetStatus {
+  periodStart: string;
+  used: TokenUsage;
+  limits: BudgetLimits;
+  usedRatio: number;
+  warning: boolean;
+  exceeded: boolean;
+}
+
+/**
+ * Model pricing in USD per token
+ */
+export interface ModelPricing {
+  prompt: number;
+  completion: number;
+}
+
+/**
+ * A model from the OpenRouter model catalog (GET /api/models)
+ */
 export interface ChatModel {
   id: string;
   name: string;
   provider: string;
+  description: string;
+  contextLength: number | null;
+  pricing: ModelPricing;
+  inputModalities: string[];
+  outputModalities: string[];
+  supportedParameters: string[];
+}
+
+/**
+ * Events sent by POST /api/completions over Server-Sent Events
+ */
+export type CompletionStreamEvent =
+  | { type: 'start'; userMessageId?: string; assistantMessageId?: string }
+  | { type: 'sources'; sources: Citation[] }
+  | { type: 'delta'; content: string }
+  | { type: 'tool_call'; messageId: string; content: string; toolCalls: ToolCall[]; usage?: TokenUsage }
+  | { type: 'tool_result'; messageId: string; toolCallId: string; toolName: string; content: string }
+  | { type: 'retry'; errors: string[] }
+  | { type: 'done'; messageId?: string; usage?: TokenUsage; schemaValid?: boolean }
+  | { type: 'error'; error: string };
+
+/**
+ * A piece of a search snippet; highlighted pieces match the search query
+ */
+export interface SearchSnippetPart {
+  text: string;
+  highlight: boolean;
+}
+
+/**
+ * A single result of GET /api/search: a matching message, or a chat whose title matches
+ */
+export interface SearchResult {
+  type: 'message' | 'chat';
+  chatId: string;
+  chatTitle: string | null;
+  messageId: string | null;
+  role: Message['role'] | null;
+  snippet: SearchSnippetPart[];
+  rank: number;
+  timestamp: string;
 }
 
+/**
+ * Export formats that can be imported with POST /api/import
+ */
+export type ImportSource = 'chatgpt' | 'claude';
+
+/**
+ * A conversation in an import file that was skipped, or partly skipped, with the reason
+ */
+export interface ImportSkippedEntry {
+  index: number;
+  title: string | null;
+  reason: string;
+}
+
+/**
+ * Summary of a conversation that will be (or was) imported
+ */
+export interface ImportPreviewChat {
+  externalId: string;
+  title: string | null;
+  // The model the imported chat continues with
+  model: string | null;
+  createdAt: string;
+  messageCount: number;
+}
+
+/**
+ * Response of POST /api/import
+ */
+export interface ImportReport {
+  source: ImportSource;
+  dryRun: boolean;
+  chats: ImportPreviewChat[];
+  skipped: ImportSkippedEntry[];
+  importedCount: number;
+}
+
+/**
+ * How POST /api/prompts/import handles a prompt whose title is already used by one of the
+ * user's prompts: leave it out, replace the existing prompt, or save it under a new title
+ */
+export type PromptImportMode = 'skip' | 'overwrite' | 'rename';
+
+/**
+ * The outcome for one prompt in a prompt import
+ */
+export interface PromptImportItem {
+  index: number;
+  title: string | null;
+  status: 'created' | 'updated' | 'skipped' | 'invalid';
+  // The title the prompt was saved under, when it was renamed
+  renamedTo?: string;
+  // Why the prompt was skipped
+  reason?: string;
+  // What is wrong with an invalid prompt
+  errors: string[];
+}
+
+/**
+ * Response of POST /api/prompts/import
+ */
+export interface PromptImportReport {
+  mode: PromptImportMode;
+  dryRun: boolean;
+  items: PromptImportItem[];
+  createdCount: number;
+  updatedCount: number;
+  skippedCount: number;
+  invalidCount: number;
+}
+
+/**
+ * A chat list folder as returned by GET /api/folders
+ */
+export interface ChatFolderSummary {
+  id: string;
+  name: string;
+  chatCount: number;
+  createdAt: string;
+}
+
+/**
+ * Operations POST /api/chats/bulk can apply to a selection of chats
+ */
+export type ChatBulkAction = 'move' | 'pin' | 'unpin' | 'archive' | 'unarchive' | 'addTags' | 'removeTags' | 'delete';
+
+/**
+ * The kinds of items that can be in the trash
+ */
+export type TrashItemType = 'chat' | 'prompt';
+
+/**
+ * A deleted chat or prompt as returned by GET /api/trash
+ */
+export interface TrashItem {
+  id: string;
+  type: TrashItemType;
+  title: string | null;
+  deletedAt: string;
+  // When the item is deleted for good, unless it is restored before then
+  purgeAt: string;
+}
+
+/**
+ * A knowledge base chunk given to the model as context, numbered as the model cites it
+ */
+export interface Citation {
+  index: number;
+  documentId: string;
+  documentName: string;
+  collectionName: string;
+  chunkIndex: number;
+  content: string;
+  score: number;
+}
+
+/**
+ * A knowledge base collection as returned by GET /api/collections
+ */
+export interface CollectionSummary {
+  id: string;
+  name: string;
+  description: string | null;
+  documentCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * A document in a knowledge base collection
+ */
+export interface CollectionDocument {
+  id: string;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  chunkCount: number;
+  createdAt: string;
+}
+
+/**
+ * Who can see and use a prompt: only its owner, the users it is shared with, or everyone
+ * in the organization catalog
+ */
+export type PromptVisibility = 'private' | 'shared' | 'org';
+
+/**
+ * A prompt as returned by GET /api/prompts
+ */
+export interface PromptSummary {
+  id: string;
+  title: string;
+  content: string;
+  responseSchema: unknown;
+  visibility: PromptVisibility;
+  tags: string[];
+  // Whether the current user owns the prompt and may change it
+  isOwner: boolean;
+  ownerName: string;
+  // Emails of the users the prompt is shared with; only included for the owner
+  sharedWith: string[];
+  starred: boolean;
+  starCount: number;
+  // Archived prompts are only listed with GET /api/prompts?scope=archive
+  archived: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * A saved version of a prompt as returned by GET /api/prompts/[id]/versions
+ */
+export interface PromptVersionSummary {
+  id: string;
+  version: number;
+  title: string;
+  content: string;
+  responseSchema: unknown;
+  createdAt: string;
+}